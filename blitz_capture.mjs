@@ -0,0 +1,41 @@
+import fs from 'fs';
+import WebSocket from 'ws';
+
+/**
+ * Capture raw Blitzortung frames for LIGHTNING_SOURCE=file.
+ *
+ * Each message is written as one NDJSON line: { t, data } where t is the
+ * arrival time in ms and data is the untouched frame in base64, so the server
+ * replays exactly what it would have received live.
+ *
+ * Usage: node blitz_capture.mjs [out.ndjson] [seconds]
+ */
+const out = process.argv[2] ?? 'server/data/blitzortung-capture.ndjson';
+const seconds = Number(process.argv[3] ?? 60);
+
+const file = fs.createWriteStream(out);
+const ws = new WebSocket('wss://ws1.blitzortung.org', {
+  headers: { 'Origin': 'https://www.blitzortung.org', 'User-Agent': 'Mozilla/5.0' }
+});
+
+let count = 0;
+ws.on('open', () => {
+  console.log(`[OPEN] capturing for ${seconds}s into ${out}`);
+  ws.send(JSON.stringify({ a: 111 }));
+});
+
+ws.on('message', (data) => {
+  const buf = Buffer.isBuffer(data) ? data : Buffer.from(data);
+  file.write(JSON.stringify({ t: Date.now(), data: buf.toString('base64') }) + '\n');
+  count++;
+});
+
+ws.on('error', (e) => { console.log('[ERROR]', e.message); process.exit(1); });
+
+setTimeout(() => {
+  ws.close();
+  file.end(() => {
+    console.log(`[DONE] ${count} frames`);
+    process.exit(0);
+  });
+}, seconds * 1000);
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect, useCallback } from "react";
-import { X, MapPin, Navigation, Zap, Globe, ChevronRight, Map, Pause, Sparkles, RefreshCw, ExternalLink, Telescope } from "lucide-react";
+import { X, MapPin, Navigation, Zap, Globe, ChevronRight, Map, Pause, Sparkles, RefreshCw, ExternalLink, Telescope, Satellite } from "lucide-react";
 import type { AstronautState } from "@/hooks/useAstronaut";
 import { MapView } from "@/components/Map";
 import { trpc } from "@/lib/trpc";
@@ -19,6 +19,21 @@ function formatCoord(val: number, posLabel: string, negLabel: string) {
   return `${deg}° ${min}' ${sec}" ${dir}`;
 }
 
+const ISS_NORAD_ID = 25544;
+
+function formatCompass(azimuth: number) {
+  const points = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+  return points[Math.round((((azimuth % 360) + 360) % 360) / 45) % 8];
+}
+
+function formatCountdown(ms: number) {
+  if (ms <= 0) return "now";
+  const totalMin = Math.round(ms / 60000);
+  const h = Math.floor(totalMin / 60);
+  const m = totalMin % 60;
+  return h > 0 ? `in ${h}h ${m}m` : `in ${m}m`;
+}
+
 function ProgressBar({ value }: { value: number }) {
   return (
     <div className="w-full h-1.5 rounded-full overflow-hidden" style={{ background: "rgba(255,165,0,0.15)" }}>
@@ -76,6 +91,14 @@ export default function AstronautPanel({ astronaut, onClose }: AstronautPanelPro
   const distRemaining = Math.round(astronaut.totalDistance * (1 - astronaut.progress));
   const timeRemaining = Math.round((astronaut.travelDurationMs * (1 - astronaut.progress)) / 1000);
 
+  // Next ISS pass over the astronaut's position (stable while the panel is open,
+  // since opening it pauses the astronaut)
+  const issPasses = trpc.satellites.passes.useQuery(
+    { satId: ISS_NORAD_ID, lat: Number(lat.toFixed(2)), lon: Number(lon.toFixed(2)) },
+    { staleTime: 5 * 60_000 }
+  );
+  const nextPass = issPasses.data?.passes[0];
+
   // Gemini travel mood mutation
   const travelMood = trpc.astronaut.travelMood.useMutation();
 
@@ -344,6 +367,48 @@ export default function AstronautPanel({ astronaut, onClose }: AstronautPanelPro
               </div>
             </div>
 
+            {/* Next ISS pass */}
+            <div>
+              <div className="flex items-center gap-1.5 mb-2">
+                <Satellite size={11} style={{ color: "#FFD700" }} />
+                <span className="text-xs text-muted-foreground uppercase tracking-wider font-medium">Next ISS Pass Here</span>
+              </div>
+              {issPasses.isLoading ? (
+                <p className="text-xs text-muted-foreground/50 animate-pulse">Calculating...</p>
+              ) : nextPass ? (
+                <div className="space-y-1 text-xs">
+                  {[
+                    {
+                      l: "Rises",
+                      v: `${new Date(nextPass.rise.time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} (${formatCountdown(nextPass.rise.time - Date.now())})`,
+                    },
+                    { l: "Max Elevation", v: `${Math.round(nextPass.maxElevation)}°` },
+                    { l: "Direction", v: `${formatCompass(nextPass.rise.azimuth)} → ${formatCompass(nextPass.set.azimuth)}` },
+                    { l: "Duration", v: `${Math.floor(nextPass.durationSec / 60)}m ${nextPass.durationSec % 60}s` },
+                  ].map(({ l, v }) => (
+                    <div key={l} className="flex justify-between gap-2">
+                      <span className="text-muted-foreground">{l}</span>
+                      <span className="font-mono text-foreground">{v}</span>
+                    </div>
+                  ))}
+                  <span
+                    className="inline-block mt-1 px-2 py-0.5 rounded-full"
+                    style={
+                      nextPass.visible
+                        ? { background: "rgba(34,197,94,0.12)", color: "#22c55e", border: "1px solid rgba(34,197,94,0.3)" }
+                        : { background: "rgba(255,255,255,0.04)", color: "rgba(255,255,255,0.45)", border: "1px solid rgba(255,255,255,0.1)" }
+                    }
+                  >
+                    {nextPass.visible ? "👁 Visible to the naked eye" : nextPass.sunlit ? "Sunlit, sky too bright" : "In Earth's shadow"}
+                  </span>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground/50">
+                  {issPasses.data?.available === false ? "Pass data unavailable" : "No pass above 10° in the next 24h"}
+                </p>
+              )}
+            </div>
+
             {/* Tab switcher — Map View / Cosmic Window */}
             <div className="mt-auto">
               <div className="flex items-center gap-1.5 mb-2">
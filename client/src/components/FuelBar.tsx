@@ -33,7 +33,7 @@ export default function FuelBar({ fuelState, onRefuelClick }: FuelBarProps) {
     nearLightning, nearSatellite,
     lightningDist, satelliteDist,
     lightningIntensity, satelliteIntensity,
-    fuelDeltaPerSec,
+    nearestStorm, fuelDeltaPerSec,
   } = fuelState;
 
   const pulseRef = useRef<HTMLDivElement>(null);
@@ -142,7 +142,7 @@ export default function FuelBar({ fuelState, onRefuelClick }: FuelBarProps) {
             <div className="flex items-center gap-1">
               <Zap size={10} className={nearLightning ? "text-red-400 animate-pulse" : "text-yellow-500"} />
               <span className="text-xs" style={{ color: nearLightning ? "#f87171" : "rgba(255,255,255,0.5)" }}>
-                Nearest Lightning
+                Nearest Storm
               </span>
             </div>
             <span className="text-xs font-mono" style={{ color: nearLightning ? "#f87171" : "rgba(255,255,255,0.5)" }}>
@@ -168,6 +168,12 @@ export default function FuelBar({ fuelState, onRefuelClick }: FuelBarProps) {
             <span>Safe</span>
             <span>Danger ({LIGHTNING_DANGER_RADIUS_KM.toLocaleString()} km)</span>
           </div>
+          {nearestStorm && (
+            <div className="flex justify-between text-xs" style={{ color: "rgba(255,255,255,0.35)" }}>
+              <span className="font-mono">{nearestStorm.ratePerMin.toFixed(1)} strikes/min</span>
+              {nearestStorm.approaching && <span className="text-orange-400">approaching</span>}
+            </div>
+          )}
           {nearLightning && (
             <div
               className="flex items-center gap-1.5 text-xs px-2 py-1 rounded-md mt-0.5"
@@ -1,7 +1,19 @@
-import { useEffect, useRef, useCallback } from "react";
+import { useEffect, useRef, useCallback, useMemo } from "react";
 import * as d3 from "d3";
 import * as topojson from "topojson-client";
 import type { Topology, GeometryCollection } from "topojson-specification";
+import { SATELLITE_CATEGORY_INFO, type SatelliteCategory } from "@shared/satellites";
+import { destinationPoint, type StormCell } from "@shared/storms";
+import { densityCellRing } from "@shared/density";
+import type { AlertZoneShape } from "@shared/alerts";
+import {
+  deadReckon,
+  VESSEL_CATEGORY_INFO,
+  viewportAt,
+  type VesselPoint,
+  type VesselTrackPoint,
+  type VesselViewport,
+} from "@shared/vessels";
 
 export interface SatellitePoint {
   id: number;
@@ -9,6 +21,8 @@ export interface SatellitePoint {
   latitude: number;
   longitude: number;
   altitude: number;
+  category?: SatelliteCategory;
+  watched?: boolean;  // on the signed-in user's watchlist
 }
 
 export interface LightningPoint {
@@ -18,6 +32,13 @@ export interface LightningPoint {
   time: number;
 }
 
+export interface GroundTrackPoint {
+  time: number;
+  latitude: number;
+  longitude: number;
+  daylight: boolean;
+}
+
 export interface AstronautPoint {
   lat: number;
   lon: number;
@@ -26,14 +47,32 @@ export interface AstronautPoint {
   destLon: number;
 }
 
+export interface LightningDensity {
+  cells: Array<[id: number, count: number]>;  // shared/density.ts grid cells
+  maxCount: number;
+}
+
 interface GlobeProps {
   satellites: SatellitePoint[];
   lightning: LightningPoint[];
+  stormCells?: StormCell[];
+  alertZones?: AlertZoneShape[];      // the signed-in user's lightning alert zones
+  density?: LightningDensity | null;  // when set, a heatmap replaces individual strikes
+  lightningTime?: number | null;      // replay clock; strikes age against it instead of the wall clock
+  lightningFadeMs?: number;           // how long a strike stays visible
   astronaut: AstronautPoint;
   showSatellites: boolean;
   showLightning: boolean;
+  vessels?: VesselPoint[];
+  showVessels?: boolean;
+  vesselTrack?: { mmsi: string; points: VesselTrackPoint[] } | null;  // selected ship's recent positions
+  onVesselClick?: (v: VesselPoint) => void;
+  onViewChange?: (viewport: VesselViewport) => void;  // rounded view center, reported when it changes
+  atRiskVessels?: Set<string>;  // MMSIs flagged as near lightning
   onSatelliteClick?: (s: SatellitePoint) => void;
   onAstronautClick?: () => void;
+  groundTrack?: GroundTrackPoint[];  // selected satellite, one point per minute
+  flyTo?: { lat: number; lon: number; key: number } | null;  // animate to center; new key re-triggers
   // Proximity highlights
   nearestLightningPos?: { lat: number; lon: number } | null;
   nearestSatellitePos?: { lat: number; lon: number } | null;
@@ -44,18 +83,49 @@ interface GlobeProps {
   rotationSpeed?: number;        // multiplier: 0 = stopped, 1 = default
 }
 
-const SATELLITE_COLOR = "#CE93D8";   // purple
+const SATELLITE_COLOR = "#CE93D8";   // purple, for unclassified points
 const LIGHTNING_COLOR = "#FFF176";   // yellow
 const ASTRONAUT_COLOR = "#FFD700";   // gold
+const TRACK_DAY_COLOR = "#FFCC80";   // warm amber
+const TRACK_NIGHT_COLOR = "#7986CB"; // indigo
+const WATCHLIST_COLOR = "#69F0AE";   // mint
+const STORM_COLOR = "#FFB74D";       // orange
+const STORM_ARROW_MINUTES = 30;      // motion arrows show where a cell will be in 30 min
+const ALERT_ZONE_COLOR = "#FF8A80";  // coral
+const KM_PER_DEGREE = 111.2;         // great-circle km per degree of arc
+const VESSEL_MOVING_KNOTS = 0.5;     // slower ships (and ships with no heading) are drawn as dots, without an arrow
+const HAZARD_COLOR = "#FF5252";      // red ring around ships near lightning
+
+// Heatmap classes, faint yellow to deep red; counts are log-scaled onto them
+export const DENSITY_COLORS = d3.quantize((t) => d3.interpolateYlOrRd(0.15 + 0.85 * t), 6);
+
+function densityClass(count: number, maxCount: number): number {
+  const t = Math.log1p(count) / Math.log1p(Math.max(1, maxCount));
+  return Math.min(DENSITY_COLORS.length - 1, Math.floor(t * DENSITY_COLORS.length));
+}
+const FLY_DURATION_MS = 1200;
 
 export default function Globe({
   satellites,
   lightning,
+  stormCells = [],
+  alertZones = [],
+  density,
+  lightningTime = null,
+  lightningFadeMs = 120000,
   astronaut,
   showSatellites,
   showLightning,
+  vessels = [],
+  showVessels = false,
+  vesselTrack = null,
+  onVesselClick,
+  onViewChange,
+  atRiskVessels,
   onSatelliteClick,
   onAstronautClick,
+  groundTrack,
+  flyTo,
   nearestLightningPos,
   nearestSatellitePos,
   nearLightning = false,
@@ -71,8 +141,27 @@ export default function Globe({
   const rotationRef = useRef<[number, number, number]>([0, -20, 0]);
   const animFrameRef = useRef<number | null>(null);
   const autoRotateRef = useRef(true);
+  const viewRef = useRef<VesselViewport | null>(null);
   const rotationSpeedRef = useRef(rotationSpeed);
   const worldRef = useRef<Topology | null>(null);
+  const flightRef = useRef<{
+    interpolate: (t: number) => number[];
+    start: number | null;
+  } | null>(null);
+
+  // One MultiPolygon per color class, rebuilt only when the counts change,
+  // so rotation frames just re-project a handful of paths
+  const densityLayers = useMemo(() => {
+    if (!density) return null;
+    const classes: Array<Array<Array<Array<[number, number]>>>> = DENSITY_COLORS.map(() => []);
+    for (const [id, count] of density.cells) {
+      classes[densityClass(count, density.maxCount)]!.push([densityCellRing(id)]);
+    }
+    return classes.map((polygons, i) => ({
+      color: DENSITY_COLORS[i]!,
+      geometry: { type: "MultiPolygon", coordinates: polygons } as GeoJSON.MultiPolygon,
+    }));
+  }, [density]);
 
   // Load world topojson once
   useEffect(() => {
@@ -104,6 +193,12 @@ export default function Globe({
     projectionRef.current = projection;
     const path = d3.geoPath().projection(projection);
 
+    const view = viewportAt(-rotationRef.current[1], -rotationRef.current[0]);
+    if (view.lat !== viewRef.current?.lat || view.lon !== viewRef.current?.lon) {
+      viewRef.current = view;
+      onViewChange?.(view);
+    }
+
     d3.select(svg).selectAll("*").remove();
 
     const defs = d3.select(svg).append("defs");
@@ -199,17 +294,94 @@ export default function Globe({
       .attr("stroke", "rgba(79, 195, 247, 0.15)")
       .attr("stroke-width", "0.3");
 
+    // ── Alert Zones ──────────────────────────────────────────────────────────
+    const zoneG = g.append("g").attr("class", "alert-zone-layer");
+    alertZones.forEach((zone) => {
+      let geometry: GeoJSON.Polygon;
+      if (zone.kind === "circle") {
+        geometry = d3.geoCircle().center([zone.center.lon, zone.center.lat]).radius(zone.radiusKm / KM_PER_DEGREE)();
+      } else {
+        geometry = { type: "Polygon", coordinates: [[...zone.ring, zone.ring[0]!]] };
+        // d3-geo reads counter-clockwise rings as "everything but"; flip those
+        if (d3.geoArea(geometry) > 2 * Math.PI) geometry.coordinates[0]!.reverse();
+      }
+      zoneG
+        .append("path")
+        .datum(geometry)
+        .attr("d", path)
+        .attr("fill", ALERT_ZONE_COLOR)
+        .attr("fill-opacity", 0.06)
+        .attr("stroke", ALERT_ZONE_COLOR)
+        .attr("stroke-width", 1)
+        .attr("stroke-dasharray", "4,3")
+        .attr("stroke-opacity", 0.8);
+    });
+
     // ── Lightning Layer ──────────────────────────────────────────────────────
     if (showLightning) {
-      const now = Date.now();
-      const recentLightning = lightning.filter((l) => now - l.time < 120000); // last 2 min
+      const now = lightningTime ?? Date.now();
+      const recentLightning = lightning.filter((l) => l.time <= now && now - l.time < lightningFadeMs);
+
+      if (densityLayers) {
+        const densityG = g.append("g").attr("class", "density-layer");
+        densityLayers.forEach(({ color, geometry }, i) => {
+          if (geometry.coordinates.length === 0) return;
+          densityG
+            .append("path")
+            .datum(geometry)
+            .attr("d", path)
+            .attr("fill", color)
+            .attr("fill-opacity", 0.35 + (0.45 * i) / (densityLayers.length - 1))
+            .attr("stroke", "none");
+        });
+      }
+
+      // Storm cells under the strikes: hull polygon, opacity by strike rate
+      const stormG = g.append("g").attr("class", "storm-layer");
+      stormCells.forEach((cell) => {
+        const strength = Math.min(1, cell.ratePerMin / 20);
+        stormG
+          .append("path")
+          .datum({ type: "Polygon", coordinates: [cell.polygon] } as GeoJSON.Polygon)
+          .attr("d", path)
+          .attr("fill", STORM_COLOR)
+          .attr("fill-opacity", 0.08 + strength * 0.17)
+          .attr("stroke", STORM_COLOR)
+          .attr("stroke-width", 1)
+          .attr("stroke-opacity", 0.5 + strength * 0.4);
+
+        if (!cell.velocity || cell.velocity.speedKmh < 5) return;
+        const distance = (cell.velocity.speedKmh * STORM_ARROW_MINUTES) / 60;
+        const tip = destinationPoint(cell.centroid, cell.velocity.bearingDeg, distance);
+        stormG
+          .append("path")
+          .datum({ type: "LineString", coordinates: [[cell.centroid.lon, cell.centroid.lat], [tip.lon, tip.lat]] } as GeoJSON.LineString)
+          .attr("d", path)
+          .attr("fill", "none")
+          .attr("stroke", STORM_COLOR)
+          .attr("stroke-width", 1.5)
+          .attr("opacity", 0.9);
+
+        // Arrowhead oriented along the projected direction of travel near the tip
+        const near = destinationPoint(cell.centroid, cell.velocity.bearingDeg, distance * 0.8);
+        const tipPos = projection([tip.lon, tip.lat]);
+        const nearPos = projection([near.lon, near.lat]);
+        if (!tipPos || !nearPos || d3.geoDistance([tip.lon, tip.lat], [-rotationRef.current[0], -rotationRef.current[1]]) > Math.PI / 2) return;
+        const angle = (Math.atan2(tipPos[1] - nearPos[1], tipPos[0] - nearPos[0]) * 180) / Math.PI;
+        stormG
+          .append("polygon")
+          .attr("points", "0,0 -6,-3.5 -6,3.5")
+          .attr("transform", `translate(${tipPos[0]}, ${tipPos[1]}) rotate(${angle})`)
+          .attr("fill", STORM_COLOR)
+          .attr("opacity", 0.9);
+      });
 
       const lightningG = g.append("g").attr("class", "lightning-layer");
-      recentLightning.forEach((strike) => {
+      (densityLayers ? [] : recentLightning).forEach((strike) => {
         const pos = projection([strike.lon, strike.lat]);
         if (!pos) return;
 
-        const age = (now - strike.time) / 120000; // 0=new, 1=old
+        const age = (now - strike.time) / lightningFadeMs; // 0=new, 1=old
         const opacity = Math.max(0, 1 - age);
 
         lightningG
@@ -223,10 +395,140 @@ export default function Globe({
       });
     }
 
+    // ── Ground Track Layer ───────────────────────────────────────────────────
+    if (groundTrack && groundTrack.length > 1) {
+      const now = Date.now();
+      const trackG = g.append("g").attr("class", "ground-track-layer");
+      const center: [number, number] = [-rotationRef.current[0], -rotationRef.current[1]];
+
+      const drawRun = (coords: [number, number][], daylight: boolean, past: boolean) => {
+        if (coords.length < 2) return;
+        trackG
+          .append("path")
+          .datum({ type: "LineString", coordinates: coords } as GeoJSON.LineString)
+          .attr("d", path)
+          .attr("fill", "none")
+          .attr("stroke", daylight ? TRACK_DAY_COLOR : TRACK_NIGHT_COLOR)
+          .attr("stroke-width", past ? 1 : 1.5)
+          .attr("stroke-dasharray", past ? "2,3" : null)
+          .attr("opacity", past ? 0.45 : 0.85);
+      };
+
+      // Split into runs sharing day/night and past/future state; geoPath draws
+      // each run as great-circle arcs clipped to the visible hemisphere
+      let run: [number, number][] = [];
+      let runDay = groundTrack[0]!.daylight;
+      let runPast = groundTrack[0]!.time < now;
+      groundTrack.forEach((p) => {
+        const coord: [number, number] = [p.longitude, p.latitude];
+        const past = p.time < now;
+        if (p.daylight !== runDay || past !== runPast) {
+          run.push(coord); // close the previous run at this point
+          drawRun(run, runDay, runPast);
+          run = [];
+          runDay = p.daylight;
+          runPast = past;
+        }
+        run.push(coord);
+      });
+      drawRun(run, runDay, runPast);
+
+      // Minute ticks on the visible side of the globe
+      groundTrack.forEach((p) => {
+        if (d3.geoDistance([p.longitude, p.latitude], center) > Math.PI / 2) return;
+        const pos = projection([p.longitude, p.latitude]);
+        if (!pos) return;
+        trackG
+          .append("circle")
+          .attr("cx", pos[0])
+          .attr("cy", pos[1])
+          .attr("r", 1.2)
+          .attr("fill", p.daylight ? TRACK_DAY_COLOR : TRACK_NIGHT_COLOR)
+          .attr("opacity", p.time < now ? 0.35 : 0.75);
+      });
+    }
+
+    // ── Vessel Layer ─────────────────────────────────────────────────────────
+    if (showVessels) {
+      const vesselG = g.append("g").attr("class", "vessel-layer");
+      const center: [number, number] = [-rotationRef.current[0], -rotationRef.current[1]];
+      const now = Date.now();
+
+      // Selected ship's track: stored positions, then a dashed leg to its estimated position
+      const selected = vesselTrack && vessels.find((v) => v.mmsi === vesselTrack.mmsi);
+      if (selected) {
+        const color = VESSEL_CATEGORY_INFO[selected.category].color;
+        const estimate = deadReckon(selected, now);
+        const reported: [number, number][] = vesselTrack.points.map(([, lat, lon]) => [lon, lat]);
+        reported.push([selected.lon, selected.lat]);
+        vesselG
+          .append("path")
+          .datum({ type: "LineString", coordinates: reported } as GeoJSON.LineString)
+          .attr("d", path)
+          .attr("fill", "none")
+          .attr("stroke", color)
+          .attr("stroke-width", 1.5)
+          .attr("opacity", 0.8);
+        vesselG
+          .append("path")
+          .datum({ type: "LineString", coordinates: [[selected.lon, selected.lat], [estimate.lon, estimate.lat]] } as GeoJSON.LineString)
+          .attr("d", path)
+          .attr("fill", "none")
+          .attr("stroke", color)
+          .attr("stroke-width", 1)
+          .attr("stroke-dasharray", "2,2")
+          .attr("opacity", 0.8);
+      }
+
+      vessels.forEach((v) => {
+        // Between reports ships move by dead reckoning along their course
+        const at = deadReckon(v, now);
+        if (d3.geoDistance([at.lon, at.lat], center) > Math.PI / 2) return;
+        const pos = projection([at.lon, at.lat]);
+        if (!pos) return;
+        const { color, label } = VESSEL_CATEGORY_INFO[v.category];
+
+        const group = vesselG
+          .append("g")
+          .attr("transform", `translate(${pos[0]}, ${pos[1]})`)
+          .attr("cursor", "pointer")
+          .on("click", () => onVesselClick?.(v));
+        group.append("title").text(
+          `${v.name} · ${label}${v.sog != null ? ` · ${v.sog.toFixed(1)} kn` : ""}${v.heading != null ? ` · ${Math.round(v.heading)}°` : ""}${atRiskVessels?.has(v.mmsi) ? " · near lightning" : ""}`
+        );
+        if (v === selected) {
+          group.append("circle").attr("r", 7).attr("fill", "none").attr("stroke", color).attr("stroke-width", 1.2);
+        }
+        if (atRiskVessels?.has(v.mmsi)) {
+          group.append("circle").attr("r", 5).attr("fill", "none").attr("stroke", HAZARD_COLOR).attr("stroke-width", 1.5).attr("opacity", 0.9);
+        }
+
+        // Without a heading there is nothing to point the arrow along
+        if ((v.sog ?? 0) < VESSEL_MOVING_KNOTS || v.heading == null) {
+          group.append("circle").attr("r", 1.5).attr("fill", color).attr("opacity", 0.6);
+          return;
+        }
+
+        // Arrow along the projected heading, measured a few km ahead of the ship
+        const ahead = destinationPoint(at, v.heading, 20);
+        const aheadPos = projection([ahead.lon, ahead.lat]);
+        if (!aheadPos) return;
+        const angle = (Math.atan2(aheadPos[1] - pos[1], aheadPos[0] - pos[0]) * 180) / Math.PI;
+        group
+          .append("polygon")
+          .attr("points", "5,0 -3,-3 -1.5,0 -3,3")
+          .attr("transform", `rotate(${angle})`)
+          .attr("fill", color)
+          .attr("opacity", 0.85);
+      });
+    }
+
     // ── Satellite Layer ──────────────────────────────────────────────────────
     if (showSatellites) {
       const satG = g.append("g").attr("class", "satellite-layer");
-      satellites.forEach((s) => {
+      // Watched satellites are drawn last so they sit on top of the crowd
+      const ordered = satellites.filter((s) => !s.watched).concat(satellites.filter((s) => s.watched));
+      ordered.forEach((s) => {
         const pos = projection([s.longitude, s.latitude]);
         if (!pos) return;
 
@@ -235,12 +537,39 @@ export default function Globe({
           .attr("transform", `translate(${pos[0]}, ${pos[1]})`)
           .attr("cursor", "pointer")
           .on("click", () => onSatelliteClick?.(s));
+        const color = s.category ? SATELLITE_CATEGORY_INFO[s.category].color : SATELLITE_COLOR;
+
+        if (s.watched) {
+          // Watchlist marker: ring around a larger diamond, full-name label
+          group
+            .append("circle")
+            .attr("r", 8)
+            .attr("fill", "none")
+            .attr("stroke", WATCHLIST_COLOR)
+            .attr("stroke-width", 1.5)
+            .attr("opacity", 0.9);
+          group
+            .append("polygon")
+            .attr("points", "0,-6 4,0 0,6 -4,0")
+            .attr("fill", color)
+            .attr("stroke", WATCHLIST_COLOR)
+            .attr("stroke-width", 0.8);
+          group
+            .append("text")
+            .attr("x", 11)
+            .attr("y", 4)
+            .attr("font-size", "10px")
+            .attr("font-weight", "bold")
+            .attr("fill", WATCHLIST_COLOR)
+            .text(s.name);
+          return;
+        }
 
         // Satellite icon (diamond shape)
         group
           .append("polygon")
           .attr("points", "0,-5 3,0 0,5 -3,0")
-          .attr("fill", SATELLITE_COLOR)
+          .attr("fill", color)
           .attr("opacity", 0.9);
 
         // Satellite label
@@ -249,7 +578,7 @@ export default function Globe({
           .attr("x", 6)
           .attr("y", 4)
           .attr("font-size", "8px")
-          .attr("fill", SATELLITE_COLOR)
+          .attr("fill", color)
           .attr("opacity", 0.8)
           .text(s.name.length > 12 ? s.name.substring(0, 12) + "…" : s.name);
       });
@@ -413,9 +742,9 @@ export default function Globe({
       }
     }
   }, [
-    satellites, lightning, astronaut,
-    showSatellites, showLightning,
-    onSatelliteClick, onAstronautClick,
+    satellites, lightning, stormCells, alertZones, densityLayers, lightningTime, lightningFadeMs, astronaut,
+    showSatellites, showLightning, vessels, showVessels, vesselTrack,
+    onVesselClick, onViewChange, atRiskVessels, onSatelliteClick, onAstronautClick, groundTrack,
     nearestLightningPos, nearestSatellitePos,
     nearLightning, nearSatellite,
     lightningIntensity, satelliteIntensity,
@@ -430,7 +759,16 @@ export default function Globe({
   useEffect(() => {
     let lastTime = 0;
     const rotate = (time: number) => {
-      if (autoRotateRef.current && !isDraggingRef.current) {
+      const flight = flightRef.current;
+      if (flight) {
+        flight.start ??= time;
+        const t = Math.min(1, (time - flight.start) / FLY_DURATION_MS);
+        const [λ, φ, γ] = flight.interpolate(d3.easeCubicInOut(t));
+        rotationRef.current = [λ!, φ!, γ!];
+        if (t >= 1) flightRef.current = null;
+        lastTime = time;
+        renderGlobe();
+      } else if (autoRotateRef.current && !isDraggingRef.current) {
         const delta = time - lastTime;
         lastTime = time;
         const speed = rotationSpeedRef.current;
@@ -458,8 +796,28 @@ export default function Globe({
     renderGlobe();
   }, [renderGlobe]);
 
+  // Fly to the requested point and hold it centered; auto-rotation resumes
+  // once the target is cleared (or after the user drags the globe)
+  useEffect(() => {
+    if (!flyTo) {
+      autoRotateRef.current = true;
+      return;
+    }
+    autoRotateRef.current = false;
+    const from = rotationRef.current;
+    // Take the short way round in longitude
+    let λ = -flyTo.lon;
+    while (λ - from[0] > 180) λ -= 360;
+    while (λ - from[0] < -180) λ += 360;
+    flightRef.current = {
+      interpolate: d3.interpolate([...from], [λ, -flyTo.lat, from[2]]),
+      start: null,
+    };
+  }, [flyTo?.key]);
+
   // Drag to rotate
   const handleMouseDown = (e: React.MouseEvent) => {
+    flightRef.current = null;
     isDraggingRef.current = true;
     autoRotateRef.current = false;
     lastMouseRef.current = [e.clientX, e.clientY];
@@ -489,6 +847,7 @@ export default function Globe({
   // Touch support
   const handleTouchStart = (e: React.TouchEvent) => {
     if (e.touches.length === 1) {
+      flightRef.current = null;
       isDraggingRef.current = true;
       autoRotateRef.current = false;
       lastMouseRef.current = [e.touches[0]!.clientX, e.touches[0]!.clientY];
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { MapPin } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DENSITY_WINDOWS, type DensityWindow } from "@shared/density";
+import { BREAKDOWN_WINDOWS, SERIES_WINDOWS, type BreakdownWindow, type SeriesWindow } from "@shared/stats";
+
+const LIGHTNING_COLOR = "#FFF176";
+const OCEAN_LABEL = "Ocean / unmapped";
+
+const chartConfig = {
+  count: { label: "Strikes", color: LIGHTNING_COLOR },
+} satisfies ChartConfig;
+
+interface LightningStatsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onFlyTo: (lat: number, lon: number) => void;
+}
+
+function WindowPicker<W extends string>({ windows, value, onChange }: {
+  windows: readonly W[]; value: W; onChange: (w: W) => void;
+}) {
+  return (
+    <div className="flex gap-1">
+      {windows.map((w) => (
+        <button
+          key={w}
+          onClick={() => onChange(w)}
+          className={`px-1.5 py-0.5 rounded font-mono text-xs transition-all ${
+            value === w ? "bg-secondary text-foreground" : "text-muted-foreground hover:bg-secondary/40"
+          }`}
+        >
+          {w}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function Section({ title, picker, children }: { title: string; picker?: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <div className="data-card p-3">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs text-muted-foreground uppercase tracking-wider font-medium">{title}</p>
+        {picker}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+const formatClock = (t: number) => new Date(t).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+const formatDay = (t: number) => new Date(t).toLocaleDateString([], { month: "short", day: "numeric", timeZone: "UTC" });
+
+/**
+ * Lightning statistics: strikes per minute, hourly and daily totals, a
+ * country or continent breakdown and the busiest ~111 km cells. Queries only
+ * run while the dialog is open.
+ */
+export default function LightningStatsPanel({ open, onOpenChange, onFlyTo }: LightningStatsPanelProps) {
+  const [seriesWindow, setSeriesWindow] = useState<SeriesWindow>("1h");
+  const [breakdownWindow, setBreakdownWindow] = useState<BreakdownWindow>("24h");
+  const [breakdownBy, setBreakdownBy] = useState<"continent" | "country">("continent");
+  const [topWindow, setTopWindow] = useState<DensityWindow>("1h");
+
+  const { data: series } = trpc.lightning.timeSeries.useQuery(
+    { window: seriesWindow },
+    { enabled: open, refetchInterval: 30000 }
+  );
+  const { data: aggregates } = trpc.lightning.aggregates.useQuery(undefined, { enabled: open, refetchInterval: 60000 });
+  const { data: breakdown } = trpc.lightning.breakdown.useQuery(
+    { window: breakdownWindow, by: breakdownBy },
+    { enabled: open, refetchInterval: 60000 }
+  );
+  const { data: top } = trpc.lightning.topRegions.useQuery(
+    { window: topWindow, limit: 10 },
+    { enabled: open, refetchInterval: 30000 }
+  );
+
+  const seriesData = series?.points.map(([time, count]) => ({ time, count })) ?? [];
+  const hourlyData = aggregates?.hourly.map(([time, count]) => ({ time, count })) ?? [];
+  const dailyData = aggregates?.daily.map(([time, count]) => ({ time, count })) ?? [];
+  const breakdownData = (breakdown?.entries ?? []).slice(0, 10).map((e) => ({ name: e.name ?? OCEAN_LABEL, count: e.count }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lightning Statistics</DialogTitle>
+          <DialogDescription>Counted by the server since it started; regions come from a 1:110m world map.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="sm:col-span-2">
+            <Section
+              title="Strikes per minute"
+              picker={<WindowPicker windows={Object.keys(SERIES_WINDOWS) as SeriesWindow[]} value={seriesWindow} onChange={setSeriesWindow} />}
+            >
+              <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+                <AreaChart data={seriesData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="time" tickFormatter={formatClock} minTickGap={40} tickLine={false} axisLine={false} />
+                  <YAxis width={32} tickLine={false} axisLine={false} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, p) => formatClock(p[0]?.payload.time)} />} />
+                  <Area dataKey="count" type="monotone" stroke="var(--color-count)" fill="var(--color-count)" fillOpacity={0.25} isAnimationActive={false} />
+                </AreaChart>
+              </ChartContainer>
+            </Section>
+          </div>
+
+          <Section title="Hourly (48 h)">
+            <ChartContainer config={chartConfig} className="h-32 w-full aspect-auto">
+              <BarChart data={hourlyData}>
+                <XAxis dataKey="time" tickFormatter={formatClock} minTickGap={30} tickLine={false} axisLine={false} />
+                <YAxis width={32} tickLine={false} axisLine={false} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, p) => formatClock(p[0]?.payload.time)} />} />
+                <Bar dataKey="count" fill="var(--color-count)" isAnimationActive={false} />
+              </BarChart>
+            </ChartContainer>
+          </Section>
+
+          <Section title="Daily (7 days, UTC)">
+            <ChartContainer config={chartConfig} className="h-32 w-full aspect-auto">
+              <BarChart data={dailyData}>
+                <XAxis dataKey="time" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                <YAxis width={32} tickLine={false} axisLine={false} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, p) => formatDay(p[0]?.payload.time)} />} />
+                <Bar dataKey="count" fill="var(--color-count)" isAnimationActive={false} />
+              </BarChart>
+            </ChartContainer>
+          </Section>
+
+          <Section
+            title={`By ${breakdownBy}`}
+            picker={
+              <div className="flex gap-2">
+                <WindowPicker windows={["continent", "country"] as const} value={breakdownBy} onChange={setBreakdownBy} />
+                <WindowPicker windows={Object.keys(BREAKDOWN_WINDOWS) as BreakdownWindow[]} value={breakdownWindow} onChange={setBreakdownWindow} />
+              </div>
+            }
+          >
+            <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+              <BarChart data={breakdownData} layout="vertical" margin={{ left: 8 }}>
+                <XAxis type="number" hide />
+                <YAxis type="category" dataKey="name" width={110} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={2} isAnimationActive={false} />
+              </BarChart>
+            </ChartContainer>
+            {breakdown && (
+              <p className="text-xs text-muted-foreground/60 mt-1">{breakdown.total.toLocaleString()} strikes in total</p>
+            )}
+          </Section>
+
+          <Section
+            title="Top active regions"
+            picker={<WindowPicker windows={Object.keys(DENSITY_WINDOWS) as DensityWindow[]} value={topWindow} onChange={setTopWindow} />}
+          >
+            <div className="flex flex-col gap-0.5">
+              {top?.regions.map((r, i) => (
+                <button
+                  key={r.cell}
+                  onClick={() => onFlyTo(r.lat, r.lon)}
+                  className="flex items-center gap-2 px-1.5 py-1 rounded text-xs text-left hover:bg-secondary/40"
+                  title="Show on the globe"
+                >
+                  <span className="w-4 font-mono text-muted-foreground">{i + 1}</span>
+                  <MapPin size={10} style={{ color: LIGHTNING_COLOR }} className="flex-shrink-0" />
+                  <span className="flex-1 truncate">
+                    {r.country ?? OCEAN_LABEL}
+                    <span className="text-muted-foreground/60"> · {r.lat.toFixed(1)}°, {r.lon.toFixed(1)}°</span>
+                  </span>
+                  <span className="font-mono" style={{ color: LIGHTNING_COLOR }}>{r.count.toLocaleString()}</span>
+                </button>
+              ))}
+              {top && top.regions.length === 0 && (
+                <p className="text-xs text-muted-foreground/60">No strikes in this window yet</p>
+              )}
+            </div>
+          </Section>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
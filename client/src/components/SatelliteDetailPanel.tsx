@@ -0,0 +1,136 @@
+import { Star, X } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { SATELLITE_CATEGORY_INFO } from "@shared/satellites";
+import type { SatellitePoint } from "@/components/Globe";
+
+const WATCHLIST_COLOR = "#69F0AE";
+
+interface SatelliteDetailPanelProps {
+  satellite: SatellitePoint;
+  groundTrack: { periodMinutes: number } | null;
+  groundTrackUnavailable: boolean;
+  watch: { watched: boolean; pending: boolean; toggle: () => void } | null;  // null when signed out
+  onClose: () => void;
+}
+
+function fmt(value: number | undefined, digits: number, unit: string): string {
+  return value != null && isFinite(value) ? `${value.toFixed(digits)} ${unit}` : "—";
+}
+
+// "1998-11-20" from N2YO, otherwise the launch year encoded in the COSPAR ID
+function formatLaunch(launchDate?: string, intDesignator?: string): string {
+  if (launchDate) return launchDate;
+  const year = intDesignator?.match(/^(\d{4})-/)?.[1];
+  return year ?? "—";
+}
+
+function Section({ title, rows }: { title: string; rows: Array<{ l: string; v: string; c?: string }> }) {
+  return (
+    <div>
+      <p className="text-[10px] text-muted-foreground/60 uppercase tracking-wider mb-0.5">{title}</p>
+      {rows.map(({ l, v, c = "font-mono text-foreground" }) => (
+        <div key={l} className="flex justify-between gap-2">
+          <span className="text-muted-foreground">{l}</span>
+          <span className={`${c} truncate`}>{v}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function SatelliteDetailPanel({
+  satellite,
+  groundTrack,
+  groundTrackUnavailable,
+  watch,
+  onClose,
+}: SatelliteDetailPanelProps) {
+  const { data, isLoading } = trpc.satellites.details.useQuery(
+    { satId: satellite.id },
+    { refetchInterval: 30000, staleTime: 10000 }
+  );
+  const details = data?.available && data.satId === satellite.id ? data : null;
+
+  // Prefer the detail query's position: it is fetched per satellite and fresher
+  const s = details ?? satellite;
+  const category = s.category ?? satellite.category;
+  const periodMinutes = details?.periodMinutes ?? groundTrack?.periodMinutes;
+
+  return (
+    <div className="border-t border-border/40 p-3 bg-card/50 max-h-[55%] overflow-y-auto">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs text-muted-foreground uppercase tracking-wider font-medium">Satellite Detail</p>
+        <div className="flex items-center gap-1">
+          {watch && (
+            <button
+              onClick={watch.toggle}
+              disabled={watch.pending}
+              className="p-0.5 hover:bg-secondary rounded transition-colors"
+              title={watch.watched ? "Remove from watchlist" : "Add to watchlist"}
+            >
+              <Star size={12} style={{ color: WATCHLIST_COLOR }} fill={watch.watched ? WATCHLIST_COLOR : "none"} />
+            </button>
+          )}
+          <button onClick={onClose} className="p-0.5 hover:bg-secondary rounded transition-colors">
+            <X size={12} className="text-muted-foreground" />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2 text-xs">
+        <Section
+          title="Identity"
+          rows={[
+            { l: "Name", v: satellite.name, c: "font-mono text-accent max-w-32" },
+            { l: "NORAD ID", v: String(satellite.id) },
+            { l: "COSPAR ID", v: details?.intDesignator ?? "—" },
+            ...(category ? [{ l: "Category", v: SATELLITE_CATEGORY_INFO[category].label, c: "text-foreground" }] : []),
+            { l: "Owner", v: details?.owner ?? "—", c: "text-foreground max-w-32" },
+            { l: "Launched", v: formatLaunch(details?.launchDate, details?.intDesignator) },
+          ]}
+        />
+        <Section
+          title="Position"
+          rows={[
+            { l: "Altitude", v: fmt(s.altitude, 0, "km") },
+            { l: "Velocity", v: fmt(details?.velocity, 2, "km/s") },
+            { l: "Lat / Lon", v: `${s.latitude.toFixed(2)}°, ${s.longitude.toFixed(2)}°` },
+          ]}
+        />
+        <Section
+          title="Orbit"
+          rows={[
+            { l: "Inclination", v: fmt(details?.inclination, 2, "°") },
+            { l: "Period", v: fmt(periodMinutes, 1, "min") },
+            {
+              l: "Apogee / Perigee",
+              v: details?.apogee != null && details.perigee != null
+                ? `${Math.round(details.apogee)} / ${Math.round(details.perigee)} km`
+                : "—",
+            },
+          ]}
+        />
+
+        {!details && !isLoading && (
+          <p className="text-muted-foreground/60">{data && !data.available ? data.message : "Orbit data unavailable"}</p>
+        )}
+
+        {groundTrack ? (
+          <div className="flex items-center gap-3 text-muted-foreground/70">
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-0.5 rounded-full" style={{ background: "#FFCC80" }} />
+              Day
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-0.5 rounded-full" style={{ background: "#7986CB" }} />
+              Night
+            </span>
+            <span>±1 orbit</span>
+          </div>
+        ) : groundTrackUnavailable ? (
+          <p className="text-muted-foreground/60">Ground track unavailable</p>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useMemo, useState } from "react";
+import { Star } from "lucide-react";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { SATELLITE_CATEGORY_INFO } from "@shared/satellites";
+import type { SatellitePoint } from "@/components/Globe";
+
+// Rendering thousands of cmdk items is slow; show the best matches only
+const MAX_RESULTS = 50;
+
+interface SatelliteSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  satellites: SatellitePoint[];
+  onSelect: (s: SatellitePoint) => void;
+}
+
+// Exact NORAD ID first, then name prefix, then ID prefix / name substring
+function rank(s: SatellitePoint, query: string): number {
+  const id = String(s.id);
+  const name = s.name.toLowerCase();
+  if (id === query) return 0;
+  if (name.startsWith(query)) return 1;
+  if (id.startsWith(query)) return 2;
+  if (name.includes(query)) return 3;
+  return -1;
+}
+
+export default function SatelliteSearch({ open, onOpenChange, satellites, onSelect }: SatelliteSearchProps) {
+  const [query, setQuery] = useState("");
+
+  const results = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) {
+      // Before typing: watchlisted satellites, then the lowest orbits
+      return satellites
+        .slice()
+        .sort((a, b) => Number(!!b.watched) - Number(!!a.watched) || a.altitude - b.altitude)
+        .slice(0, MAX_RESULTS);
+    }
+    return satellites
+      .map((s) => ({ s, r: rank(s, q) }))
+      .filter(({ r }) => r >= 0)
+      .sort((a, b) => a.r - b.r || a.s.name.localeCompare(b.s.name))
+      .slice(0, MAX_RESULTS)
+      .map(({ s }) => s);
+  }, [satellites, query]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setQuery("");
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0">
+        <DialogHeader className="sr-only">
+          <DialogTitle>Find a satellite</DialogTitle>
+          <DialogDescription>Search satellites by name or NORAD ID</DialogDescription>
+        </DialogHeader>
+        {/* Results are ranked above, so cmdk's own filtering is disabled */}
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group]]:px-2 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2"
+        >
+          <CommandInput value={query} onValueChange={setQuery} placeholder="Satellite name or NORAD ID…" />
+          <CommandList>
+            <CommandEmpty>No satellites found.</CommandEmpty>
+            <CommandGroup heading={query ? `Matches (${results.length}${results.length === MAX_RESULTS ? "+" : ""})` : "Satellites"}>
+              {results.map((s) => {
+                const color = s.category ? SATELLITE_CATEGORY_INFO[s.category].color : "#CE93D8";
+                return (
+                  <CommandItem
+                    key={s.id}
+                    value={String(s.id)}
+                    onSelect={() => {
+                      onSelect(s);
+                      handleOpenChange(false);
+                    }}
+                  >
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ background: color }} />
+                    <span className="truncate">{s.name}</span>
+                    {s.watched && <Star className="text-[#69F0AE]" />}
+                    <span className="ml-auto flex items-center gap-3 font-mono text-xs text-muted-foreground">
+                      <span>{s.category ? SATELLITE_CATEGORY_INFO[s.category].label : ""}</span>
+                      <span>#{s.id}</span>
+                    </span>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
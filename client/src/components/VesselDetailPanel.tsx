@@ -0,0 +1,100 @@
+import { X } from "lucide-react";
+import { canDeadReckon, deadReckon, DEAD_RECKONING_MAX_MS, VESSEL_CATEGORY_INFO, type VesselPoint } from "@shared/vessels";
+
+interface VesselDetailPanelProps {
+  vessel: VesselPoint;
+  trackPoints: number;   // stored positions drawn on the globe
+  trackSince: number | null;
+  onClose: () => void;
+}
+
+function Section({ title, rows }: { title: string; rows: Array<{ l: string; v: string; c?: string }> }) {
+  return (
+    <div>
+      <p className="text-[10px] text-muted-foreground/60 uppercase tracking-wider mb-0.5">{title}</p>
+      {rows.map(({ l, v, c = "font-mono text-foreground" }) => (
+        <div key={l} className="flex justify-between gap-2">
+          <span className="text-muted-foreground">{l}</span>
+          <span className={`${c} truncate`}>{v}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatAge(ms: number): string {
+  const s = Math.max(0, Math.round(ms / 1000));
+  return s < 60 ? `${s}s ago` : s < 3600 ? `${Math.floor(s / 60)}m ago` : `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m ago`;
+}
+
+export default function VesselDetailPanel({ vessel, trackPoints, trackSince, onClose }: VesselDetailPanelProps) {
+  const now = Date.now();
+  const estimated = deadReckon(vessel, now);
+  const age = now - vessel.time;
+  const moving = canDeadReckon(vessel);
+  const { label: typeLabel, color } = VESSEL_CATEGORY_INFO[vessel.category];
+  const size = vessel.length != null || vessel.beam != null ? `${vessel.length ?? "?"} × ${vessel.beam ?? "?"} m` : null;
+
+  return (
+    <div className="border-t border-border/40 p-3 bg-card/50 max-h-[55%] overflow-y-auto">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs text-muted-foreground uppercase tracking-wider font-medium">Vessel Detail</p>
+        <button onClick={onClose} className="p-0.5 hover:bg-secondary rounded transition-colors">
+          <X size={12} className="text-muted-foreground" />
+        </button>
+      </div>
+
+      <div className="space-y-2 text-xs">
+        <Section
+          title="Identity"
+          rows={[
+            { l: "Name", v: vessel.name, c: "font-mono max-w-32" },
+            { l: "MMSI", v: vessel.mmsi },
+            ...(vessel.imo ? [{ l: "IMO", v: String(vessel.imo) }] : []),
+            ...(vessel.callsign ? [{ l: "Callsign", v: vessel.callsign }] : []),
+            { l: "Type", v: vessel.shipType ? `${typeLabel} (${vessel.shipType})` : typeLabel, c: "text-foreground" },
+            ...(size ? [{ l: "Size", v: size }] : []),
+          ]}
+        />
+        {(vessel.destination || vessel.eta) && (
+          <Section
+            title="Voyage"
+            rows={[
+              ...(vessel.destination ? [{ l: "Destination", v: vessel.destination, c: "font-mono max-w-32" }] : []),
+              ...(vessel.eta
+                ? [{ l: "ETA", v: new Date(vessel.eta).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }) }]
+                : []),
+            ]}
+          />
+        )}
+        <Section
+          title="Motion"
+          rows={[
+            { l: "Speed", v: vessel.sog != null ? `${vessel.sog.toFixed(1)} kn` : "—" },
+            { l: "Course", v: vessel.cog != null ? `${Math.round(vessel.cog)}°` : "—" },
+            { l: "Heading", v: vessel.heading != null ? `${Math.round(vessel.heading)}°` : "—" },
+          ]}
+        />
+        <Section
+          title="Position"
+          rows={[
+            { l: "Reported", v: `${vessel.lat.toFixed(3)}°, ${vessel.lon.toFixed(3)}°` },
+            { l: "Last report", v: formatAge(age) },
+            ...(moving && age > 0
+              ? [{ l: "Estimated now", v: `${estimated.lat.toFixed(3)}°, ${estimated.lon.toFixed(3)}°` }]
+              : []),
+          ]}
+        />
+        {age > DEAD_RECKONING_MAX_MS && moving && (
+          <p className="text-muted-foreground/60">No report for over {DEAD_RECKONING_MAX_MS / 60000} min; estimate held</p>
+        )}
+        <div className="flex items-center gap-1.5 text-muted-foreground/70">
+          <span className="inline-block w-3 h-0.5 rounded" style={{ background: color }} />
+          {trackPoints > 1 && trackSince
+            ? `Track: ${trackPoints} positions since ${new Date(trackSince).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+            : "Track builds up as reports arrive"}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from "react";
+import type { StormCell } from "@shared/storms";
 
 export type FuelEvent = "lightning_drain" | "satellite_refuel" | "passive_drain" | "quiz_refuel";
 
@@ -9,20 +10,47 @@ export interface FuelState {
   isCritical: boolean;    // fuel < 10
   nearLightning: boolean;
   nearSatellite: boolean;
-  lightningDist: number | null;   // km to nearest strike
+  lightningDist: number | null;   // km to the edge of the most threatening storm
   satelliteDist: number | null;   // km to nearest satellite
-  nearestLightningPos: { lat: number; lon: number } | null;
+  nearestLightningPos: { lat: number; lon: number } | null;  // that storm's centroid
   nearestSatellitePos: { lat: number; lon: number } | null;
   lightningIntensity: number;     // 0–1, how close (1 = at center)
   satelliteIntensity: number;     // 0–1, how close (1 = at center)
+  nearestStorm: { id: string; ratePerMin: number; approaching: boolean } | null;
   fuelDeltaPerSec: number;        // net fuel change per second (+ or -)
   lastEvent: FuelEvent | null;
 }
 
 interface LatLon { lat: number; lon: number }
-interface LightningStrike { lat: number; lon: number }
 interface Satellite { latitude: number; longitude: number; satname?: string }
 
+// Initial great-circle bearing from a to b, degrees clockwise from north
+function bearing(a: LatLon, b: LatLon): number {
+  const φ1 = (a.lat * Math.PI) / 180;
+  const φ2 = (b.lat * Math.PI) / 180;
+  const Δλ = ((b.lon - a.lon) * Math.PI) / 180;
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * How strongly a storm drains fuel, 0–1: proximity to its edge, scaled by its
+ * strike rate, with a bonus when it is moving towards the astronaut.
+ */
+function stormThreat(pos: LatLon, cell: StormCell): { edgeDist: number; intensity: number; approaching: boolean } {
+  const edgeDist = Math.max(0, haversine(pos, cell.centroid) - cell.radiusKm);
+  const proximity = Math.max(0, 1 - edgeDist / LIGHTNING_DANGER_RADIUS_KM);
+  const severity = 0.4 + 0.6 * Math.min(1, cell.ratePerMin / SEVERE_STORM_RATE);
+  let approaching = false;
+  if (cell.velocity && cell.velocity.speedKmh > 5) {
+    const offset = Math.abs(((bearing(cell.centroid, pos) - cell.velocity.bearingDeg + 540) % 360) - 180);
+    approaching = offset < 45;
+  }
+  const intensity = Math.min(1, proximity * severity * (approaching ? 1 + APPROACH_BONUS : 1));
+  return { edgeDist, intensity, approaching };
+}
+
 // Haversine distance in km
 function haversine(a: LatLon, b: LatLon): number {
   const R = 6371;
@@ -41,11 +69,13 @@ export const SATELLITE_REFUEL_RADIUS_KM = 1200;  // within this → refuel
 const PASSIVE_DRAIN_RATE = 0.008;         // % per second
 const LIGHTNING_DRAIN_RATE = 0.06;        // % per second at max proximity
 const SATELLITE_REFUEL_RATE = 0.04;       // % per second at max proximity
+const SEVERE_STORM_RATE = 20;             // strikes/min at which a storm drains at full rate
+const APPROACH_BONUS = 0.25;              // extra intensity for storms heading at the astronaut
 const TICK_MS = 1000;
 
 export function useFuel(
   astronautPos: LatLon | null,
-  lightningStrikes: LightningStrike[],
+  stormCells: StormCell[],
   satellites: Satellite[],
   paused: boolean
 ) {
@@ -62,6 +92,7 @@ export function useFuel(
     nearestSatellitePos: null,
     lightningIntensity: 0,
     satelliteIntensity: 0,
+    nearestStorm: null,
     fuelDeltaPerSec: -PASSIVE_DRAIN_RATE,
     lastEvent: null,
   });
@@ -70,13 +101,13 @@ export function useFuel(
   const fuelRef = useRef(85);
   const pausedRef = useRef(paused);
   const astronautPosRef = useRef(astronautPos);
-  const lightningRef = useRef(lightningStrikes);
+  const stormsRef = useRef(stormCells);
   const satellitesRef = useRef(satellites);
 
   // Sync refs on every render — no deps needed for the interval itself
   pausedRef.current = paused;
   astronautPosRef.current = astronautPos;
-  lightningRef.current = lightningStrikes;
+  stormsRef.current = stormCells;
   satellitesRef.current = satellites;
 
   useEffect(() => {
@@ -84,18 +115,21 @@ export function useFuel(
       const pos = astronautPosRef.current;
       if (pausedRef.current || !pos || !isFinite(pos.lat) || !isFinite(pos.lon)) return;
 
-      const strikes = lightningRef.current;
+      const cells = stormsRef.current;
       const sats = satellitesRef.current;
 
-      // Find nearest lightning strike
+      // Find the most threatening storm; the nearest one when none is in range
       let minLightningDist = Infinity;
+      let lightningIntensity = 0;
       let nearestLightningPos: { lat: number; lon: number } | null = null;
-      for (const s of strikes) {
-        if (s == null || !isFinite(s.lat) || !isFinite(s.lon)) continue;
-        const d = haversine(pos, { lat: s.lat, lon: s.lon });
-        if (d < minLightningDist) {
-          minLightningDist = d;
-          nearestLightningPos = { lat: s.lat, lon: s.lon };
+      let nearestStorm: FuelState["nearestStorm"] = null;
+      for (const cell of cells) {
+        const threat = stormThreat(pos, cell);
+        if (threat.intensity > lightningIntensity || (lightningIntensity === 0 && threat.edgeDist < minLightningDist)) {
+          minLightningDist = threat.edgeDist;
+          lightningIntensity = threat.intensity;
+          nearestLightningPos = cell.centroid;
+          nearestStorm = { id: cell.id, ratePerMin: cell.ratePerMin, approaching: threat.approaching };
         }
       }
 
@@ -112,12 +146,9 @@ export function useFuel(
         }
       }
 
-      const nearLightning = isFinite(minLightningDist) && minLightningDist < LIGHTNING_DANGER_RADIUS_KM;
+      const nearLightning = lightningIntensity > 0;
       const nearSatellite = isFinite(minSatDist) && minSatDist < SATELLITE_REFUEL_RADIUS_KM;
 
-      const lightningIntensity = nearLightning
-        ? Math.max(0, 1 - minLightningDist / LIGHTNING_DANGER_RADIUS_KM)
-        : 0;
       const satelliteIntensity = nearSatellite
         ? Math.max(0, 1 - minSatDist / SATELLITE_REFUEL_RADIUS_KM)
         : 0;
@@ -151,6 +182,7 @@ export function useFuel(
         nearestSatellitePos,
         lightningIntensity,
         satelliteIntensity,
+        nearestStorm,
         fuelDeltaPerSec: delta,
         lastEvent,
       });
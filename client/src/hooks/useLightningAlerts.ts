@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useRef } from "react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc";
+import type { AlertZone } from "@shared/alerts";
+
+/**
+ * The signed-in user's lightning alert zones, plus a poll of the alerts the
+ * server raised for them, each shown once as a toast. Only alerts raised
+ * after the page opened are shown. Disabled for anonymous visitors, like the
+ * watchlist.
+ *
+ * `since` is always a server time (the `time` of the previous poll), so a
+ * browser clock that is off does not drop or repeat alerts. It is read when
+ * each poll is made, under one fixed query key, so that advancing it neither
+ * waits for a render nor starts a new cache entry.
+ */
+export function useLightningAlerts(enabled: boolean) {
+  const utils = trpc.useUtils();
+  const sinceRef = useRef<number | null>(null);
+
+  const { data: zones } = trpc.alerts.zones.useQuery(undefined, { enabled });
+  const { data: events } = useQuery({
+    queryKey: ["alerts.events", "poll"],
+    queryFn: () => utils.client.alerts.events.query({ since: sinceRef.current ?? 0 }),
+    enabled,
+    refetchInterval: 15000,
+  });
+
+  useEffect(() => {
+    if (!events) return;
+    const since = sinceRef.current;
+    sinceRef.current = Math.max(since ?? 0, events.time);
+    if (since == null) return;  // the first poll only sets the starting point
+    for (const alert of events.alerts) {
+      if (alert.time <= since) continue;
+      const distance = alert.distanceKm != null ? ` · ${alert.distanceKm.toFixed(0)} km from center` : "";
+      toast.warning(`⚡ Lightning in ${alert.zoneName}`, {
+        id: alert.id,
+        description: `${alert.strikeCount === 1 ? "1 strike" : `${alert.strikeCount} strikes`}${distance}`,
+      });
+    }
+  }, [events]);
+
+  const onSettled = (result: { success: boolean; message?: string } | undefined) => {
+    if (result && !result.success && result.message) toast.error(result.message);
+    utils.alerts.zones.invalidate();
+  };
+  const addMutation = trpc.alerts.addZone.useMutation({ onSuccess: onSettled });
+  const removeMutation = trpc.alerts.removeZone.useMutation({
+    onSuccess: onSettled,
+    // NOT_FOUND: already removed elsewhere, so the list is refreshed as well
+    onError: (err) => onSettled({ success: false, message: err.message }),
+  });
+
+  // Stable while the data is, so the globe does not redraw on every render
+  const list = useMemo(() => (enabled ? zones ?? [] : []), [enabled, zones]);
+
+  return {
+    zones: list,
+    add: (zone: Omit<AlertZone, "id">) => addMutation.mutate(zone),
+    remove: (id: number) => removeMutation.mutate({ id }),
+    pending: addMutation.isPending || removeMutation.isPending,
+  };
+}
@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { LightningPoint } from "@/components/Globe";
+
+export const REPLAY_SPEEDS = [10, 60, 300, 1800] as const;
+
+const MAX_REPLAY_STRIKES = 5000;
+
+type ReplayMessage =
+  | { type: "replay"; from: number; to: number; start: number; speed: number }
+  | { type: "strikes"; at: number; strikes: LightningPoint[] }
+  | { type: "end"; at: number }
+  | { type: "error"; message: string };
+
+export type ReplayStatus = "idle" | "playing" | "paused" | "ended" | "error";
+
+/**
+ * Time-lapse playback of stored lightning from /api/lightning/replay. Each
+ * play, seek or speed change opens a fresh stream at the current position;
+ * pausing closes it, so the server only reads history while something is
+ * actually playing. `position` is the replay clock the globe ages strikes
+ * against.
+ */
+export function useLightningReplay() {
+  const [range, setRange] = useState<{ from: number; to: number } | null>(null);
+  const [position, setPosition] = useState(0);
+  const [speed, setSpeed] = useState<number>(60);
+  const [playing, setPlaying] = useState(false);
+  const [status, setStatus] = useState<ReplayStatus>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+  const [strikes, setStrikes] = useState<LightningPoint[]>([]);
+  const [generation, setGeneration] = useState(0);
+  const positionRef = useRef(0);
+  const seenRef = useRef(new Set<string>());
+
+  const moveTo = useCallback((time: number) => {
+    positionRef.current = time;
+    setPosition(time);
+  }, []);
+
+  const clearStrikes = useCallback(() => {
+    seenRef.current = new Set();
+    setStrikes([]);
+  }, []);
+
+  useEffect(() => {
+    if (!range || !playing) return;
+    const params = new URLSearchParams({
+      from: String(range.from),
+      to: String(range.to),
+      start: String(positionRef.current),
+      speed: String(speed),
+    });
+    const es = new EventSource(`/api/lightning/replay?${params}`);
+    let finished = false;
+    setStatus("playing");
+    setMessage(null);
+
+    es.onmessage = (event) => {
+      let msg: ReplayMessage;
+      try {
+        msg = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (msg.type === "strikes") {
+        // Resuming starts at the last position, so skip strikes already shown
+        const fresh = msg.strikes.filter((s) => !seenRef.current.has(s.id));
+        fresh.forEach((s) => seenRef.current.add(s.id));
+        if (fresh.length > 0) setStrikes((prev) => [...prev, ...fresh].slice(-MAX_REPLAY_STRIKES));
+        moveTo(msg.at);
+      } else if (msg.type === "end") {
+        finished = true;
+        moveTo(msg.at);
+        setPlaying(false);
+        setStatus("ended");
+        es.close();
+      } else if (msg.type === "error") {
+        finished = true;
+        setPlaying(false);
+        setStatus("error");
+        setMessage(msg.message);
+        es.close();
+      }
+    };
+    // The server ends the stream itself; don't let EventSource restart playback
+    es.onerror = () => {
+      es.close();
+      if (finished) return;
+      setPlaying(false);
+      setStatus("error");
+      setMessage("Replay connection lost");
+    };
+    return () => es.close();
+  }, [range, playing, speed, generation, moveTo]);
+
+  const start = useCallback((from: number, to: number) => {
+    clearStrikes();
+    moveTo(from);
+    setRange({ from, to });
+    setPlaying(true);
+  }, [clearStrikes, moveTo]);
+
+  const play = useCallback(() => {
+    if (!range) return;
+    if (positionRef.current >= range.to) {
+      clearStrikes();
+      moveTo(range.from);
+    }
+    setPlaying(true);
+  }, [range, clearStrikes, moveTo]);
+
+  const pause = useCallback(() => {
+    setPlaying(false);
+    setStatus("paused");
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    if (!range) return;
+    clearStrikes();
+    moveTo(Math.min(range.to, Math.max(range.from, time)));
+    if (!playing) setStatus("paused");
+    setGeneration((g) => g + 1);
+  }, [range, playing, clearStrikes, moveTo]);
+
+  const stop = useCallback(() => {
+    setPlaying(false);
+    setRange(null);
+    setStatus("idle");
+    setMessage(null);
+    clearStrikes();
+  }, [clearStrikes]);
+
+  return {
+    active: range !== null,
+    range,
+    position,
+    speed,
+    playing,
+    status,
+    message,
+    strikes,
+    start,
+    play,
+    pause,
+    seek,
+    setSpeed,
+    stop,
+  };
+}
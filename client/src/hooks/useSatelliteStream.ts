@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SatelliteSource, SatelliteStreamMessage, SatelliteSummary } from "@shared/satellites";
+
+export interface SatelliteStreamData {
+  available: boolean;
+  source: SatelliteSource;
+  message?: string;
+  timestamp?: number;
+  satellites: SatelliteSummary[];
+}
+
+/**
+ * Live satellite positions from /api/satellites/stream. The server sends a
+ * snapshot on connect and deltas afterwards; they are applied to a local map
+ * so only changed satellites cross the wire. EventSource reconnects on its
+ * own and the server re-sends a snapshot, so no extra resync is needed.
+ */
+export function useSatelliteStream() {
+  const [data, setData] = useState<SatelliteStreamData | undefined>(undefined);
+  const [status, setStatus] = useState<"connecting" | "connected" | "error">("connecting");
+  const [generation, setGeneration] = useState(0);
+  const satellitesRef = useRef(new Map<number, SatelliteSummary>());
+
+  useEffect(() => {
+    const satellites = satellitesRef.current;
+    const es = new EventSource("/api/satellites/stream");
+    setStatus("connecting");
+    es.onopen = () => setStatus("connected");
+    es.onerror = () => setStatus("error");
+    es.onmessage = (event) => {
+      let msg: SatelliteStreamMessage;
+      try {
+        msg = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (msg.type === "snapshot") {
+        satellites.clear();
+        for (const s of msg.satellites) satellites.set(s.id, s);
+        setData({ available: true, source: msg.source, timestamp: msg.timestamp, satellites: Array.from(satellites.values()) });
+      } else if (msg.type === "delta") {
+        for (const id of msg.removed) satellites.delete(id);
+        for (const s of msg.added) satellites.set(s.id, s);
+        for (const [id, latitude, longitude, altitude] of msg.moved) {
+          const s = satellites.get(id);
+          if (s) satellites.set(id, { ...s, latitude, longitude, altitude });
+        }
+        setData((prev) => prev && {
+          ...prev,
+          available: true,
+          timestamp: msg.timestamp,
+          satellites: Array.from(satellites.values()),
+        });
+      } else if (msg.type === "unavailable") {
+        satellites.clear();
+        setData({ available: false, source: msg.source, message: msg.message, satellites: [] });
+      }
+    };
+    return () => es.close();
+  }, [generation]);
+
+  // Drop the connection and start over from a new snapshot
+  const reconnect = useCallback(() => setGeneration((g) => g + 1), []);
+
+  return { data, isLoading: data === undefined, status, reconnect };
+}
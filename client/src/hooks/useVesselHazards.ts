@@ -0,0 +1,42 @@
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import type { VesselHazardEvent } from "@shared/hazards";
+
+const MAX_FEED_EVENTS = 10;
+
+/**
+ * Ships the server flags as near lightning, plus a poll of the hazard events
+ * raised since the page opened (newest first) for the Live Feed. Only runs
+ * while vessel tracking is shown. As with lightning alerts, `since` is the
+ * server's `time` from the previous poll, never the browser clock, and is
+ * read when each poll is made under one fixed query key.
+ */
+export function useVesselHazards(enabled: boolean) {
+  const utils = trpc.useUtils();
+  const sinceRef = useRef<number | null>(null);
+  const [events, setEvents] = useState<VesselHazardEvent[]>([]);
+
+  const { data: atRisk } = trpc.vessels.atRisk.useQuery(undefined, { enabled, refetchInterval: 15000 });
+  const { data: polled } = useQuery({
+    queryKey: ["vessels.hazardEvents", "poll"],
+    queryFn: () => utils.client.vessels.hazardEvents.query({ since: sinceRef.current ?? 0 }),
+    enabled,
+    refetchInterval: 15000,
+  });
+
+  useEffect(() => {
+    if (!polled) return;
+    const since = sinceRef.current;
+    sinceRef.current = Math.max(since ?? 0, polled.time);
+    if (since == null) return;  // the first poll only sets the starting point
+    const fresh = polled.events.filter((e) => e.time > since);
+    if (fresh.length === 0) return;
+    setEvents((prev) => [...fresh.reverse(), ...prev].slice(0, MAX_FEED_EVENTS));
+  }, [polled]);
+
+  const vessels = useMemo(() => (enabled ? atRisk?.vessels ?? [] : []), [enabled, atRisk]);
+  const atRiskIds = useMemo(() => new Set(vessels.map((v) => v.mmsi)), [vessels]);
+
+  return { vessels, atRiskIds, radiusKm: atRisk?.radiusKm ?? null, events: enabled ? events : [] };
+}
@@ -0,0 +1,75 @@
+import { useEffect, useRef, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import type { VesselPoint, VesselStreamMessage, VesselViewport } from "@shared/vessels";
+
+// Position reports arrive many times a second; the globe redraws at most this often
+const FLUSH_MS = 2000;
+
+/**
+ * Live ship positions from /api/vessels/stream while `enabled`. Reports are
+ * applied to a local map keyed by MMSI and published on a timer rather than
+ * per message. EventSource reconnects on its own and the server re-sends a
+ * snapshot.
+ *
+ * The server sends only ships within `viewport`; each new viewport is
+ * declared with vessels.setViewport and answered with a fresh snapshot.
+ */
+export function useVesselStream(enabled: boolean, viewport: VesselViewport | null) {
+  const [vessels, setVessels] = useState<VesselPoint[]>([]);
+  const [status, setStatus] = useState<"idle" | "connecting" | "connected" | "error">("idle");
+  const [clientId, setClientId] = useState<string | null>(null);
+  const vesselsRef = useRef(new Map<string, VesselPoint>());
+  const viewportRef = useRef(viewport);
+  viewportRef.current = viewport;
+  const setViewport = trpc.vessels.setViewport.useMutation();
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus("idle");
+      setClientId(null);
+      return;
+    }
+    const map = vesselsRef.current;
+    let dirty = false;
+    const initial = viewportRef.current;
+    const es = new EventSource(initial ? `/api/vessels/stream?lat=${initial.lat}&lon=${initial.lon}` : "/api/vessels/stream");
+    setStatus("connecting");
+    es.onopen = () => setStatus("connected");
+    es.onerror = () => setStatus("error");
+    es.onmessage = (event) => {
+      let msg: VesselStreamMessage;
+      try {
+        msg = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (msg.type === "connected") {
+        setClientId(msg.clientId);
+      } else if (msg.type === "snapshot") {
+        map.clear();
+        for (const v of msg.vessels) map.set(v.mmsi, v);
+        dirty = true;
+      } else if (msg.type === "vessel") {
+        map.set(msg.vessel.mmsi, msg.vessel);
+        dirty = true;
+      }
+    };
+    const timer = setInterval(() => {
+      if (!dirty) return;
+      dirty = false;
+      setVessels(Array.from(map.values()));
+    }, FLUSH_MS);
+    return () => {
+      es.close();
+      clearInterval(timer);
+    };
+  }, [enabled]);
+
+  // Also re-sent after a reconnect, which brings a new client id
+  useEffect(() => {
+    if (!clientId || !viewport) return;
+    setViewport.mutate({ clientId, lat: viewport.lat, lon: viewport.lon });
+  }, [clientId, viewport?.lat, viewport?.lon]);
+
+  return { vessels: enabled ? vessels : [], status };
+}
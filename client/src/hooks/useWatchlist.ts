@@ -0,0 +1,64 @@
+import { useMemo } from "react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc";
+import type { SatellitePoint } from "@/components/Globe";
+
+/**
+ * The signed-in user's satellite watchlist: saved NORAD IDs plus their
+ * high-accuracy positions. Queries stay disabled for anonymous visitors, since
+ * an unauthorized error would otherwise redirect to the login page.
+ */
+export function useWatchlist(enabled: boolean) {
+  const utils = trpc.useUtils();
+
+  const { data: entries } = trpc.watchlist.list.useQuery(undefined, { enabled });
+  const { data: positions } = trpc.watchlist.positions.useQuery(undefined, {
+    enabled,
+    refetchInterval: 30000,
+  });
+
+  const onSettled = (result: { success: boolean; message?: string } | undefined) => {
+    if (result && !result.success && result.message) toast.error(result.message);
+    utils.watchlist.list.invalidate();
+    utils.watchlist.positions.invalidate();
+  };
+  const addMutation = trpc.watchlist.add.useMutation({ onSuccess: onSettled });
+  const removeMutation = trpc.watchlist.remove.useMutation({
+    onSuccess: onSettled,
+    // NOT_FOUND: already removed elsewhere, so the list is refreshed as well
+    onError: (err) => onSettled({ success: false, message: err.message }),
+  });
+
+  const watchedIds = useMemo(
+    () => new Set((enabled ? entries ?? [] : []).map((e) => e.noradId)),
+    [enabled, entries]
+  );
+
+  // Custom labels replace the catalog name for display
+  const satellites: SatellitePoint[] = useMemo(
+    () =>
+      enabled && positions?.available
+        ? positions.satellites.map((s) => ({
+            id: s.id,
+            name: s.label ?? s.name,
+            latitude: s.latitude,
+            longitude: s.longitude,
+            altitude: s.altitude,
+            category: s.category,
+            watched: true,
+          }))
+        : [],
+    [enabled, positions]
+  );
+
+  return {
+    entries: enabled ? entries ?? [] : [],
+    satellites,
+    missing: positions?.missing ?? [],
+    watchedIds,
+    isWatched: (noradId: number) => watchedIds.has(noradId),
+    add: (noradId: number, label?: string) => addMutation.mutate({ noradId, label }),
+    remove: (noradId: number) => removeMutation.mutate({ noradId }),
+    pending: addMutation.isPending || removeMutation.isPending,
+  };
+}
@@ -1,18 +1,86 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { trpc } from "@/lib/trpc";
-import Globe, { type SatellitePoint, type LightningPoint } from "@/components/Globe";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
+import Globe, { DENSITY_COLORS, type SatellitePoint, type LightningPoint } from "@/components/Globe";
 import AstronautPanel from "@/components/AstronautPanel";
+import SatelliteSearch from "@/components/SatelliteSearch";
+import LightningStatsPanel from "@/components/LightningStatsPanel";
+import SatelliteDetailPanel from "@/components/SatelliteDetailPanel";
+import VesselDetailPanel from "@/components/VesselDetailPanel";
 import FuelBar from "@/components/FuelBar";
 import QuizModal from "@/components/QuizModal";
+import { useAuth } from "@/_core/hooks/useAuth";
 import { useAstronaut } from "@/hooks/useAstronaut";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import { useLightningAlerts } from "@/hooks/useLightningAlerts";
 import { useFuel } from "@/hooks/useFuel";
-import { Satellite, Zap, RefreshCw, Activity, Globe as GlobeIcon, X } from "lucide-react";
+import { useSatelliteStream } from "@/hooks/useSatelliteStream";
+import { useVesselStream } from "@/hooks/useVesselStream";
+import { useVesselHazards } from "@/hooks/useVesselHazards";
+import { REPLAY_SPEEDS, useLightningReplay } from "@/hooks/useLightningReplay";
+import { Slider } from "@/components/ui/slider";
+import { Satellite, Zap, CloudLightning, RefreshCw, Activity, Globe as GlobeIcon, X, Star, Plus, Search, History, Play, Pause, BellRing, LocateFixed, BarChart3, Ship, TriangleAlert } from "lucide-react";
+import { SATELLITE_CATEGORIES, SATELLITE_CATEGORY_INFO, type SatelliteCategory } from "@shared/satellites";
+import type { StormCell, StormCellsMessage } from "@shared/storms";
+import { DENSITY_WINDOWS, type DensityWindow } from "@shared/density";
+import { MAX_ZONE_RADIUS_KM, type QuietHours } from "@shared/alerts";
+import {
+  VESSEL_CATEGORIES,
+  VESSEL_CATEGORY_INFO,
+  type VesselCategory,
+  type VesselPoint,
+  type VesselViewport,
+} from "@shared/vessels";
 
-interface DetailPanel {
-  type: "satellite";
-  data: SatellitePoint;
+const WATCHLIST_COLOR = "#69F0AE";
+const HAZARD_COLOR = "#FF5252";
+const ALERT_ZONE_COLOR = "#FF8A80";
+
+const ZONE_FIELD_CLASS = "min-w-0 bg-secondary/40 border border-border/30 rounded px-2 py-0.5 font-mono";
+const EMPTY_ZONE_FORM = { name: "", lat: "", lon: "", radiusKm: "50", quietStart: "", quietEnd: "", notifyOwner: true };
+
+// "HH:MM" from <input type="time"> to minutes after midnight
+const minutesOfDay = (value: string) => {
+  const [h, m] = value.split(":").map(Number);
+  return h! * 60 + m!;
+};
+
+const SATELLITE_SOURCE_LABELS = { n2yo: "N2YO", tle: "SGP4", fixture: "FIXTURE" } as const;
+const LIGHTNING_SOURCE_LABELS = { blitzortung: "Blitzortung", file: "Capture replay", synthetic: "Synthetic" } as const;
+
+type LightningSourceState = inferRouterOutputs<AppRouter>["lightning"]["status"];
+
+// Header dot for the upstream lightning feed; the browser's own stream only adds a note
+function lightningStatusDot(source: LightningSourceState | undefined, stream: "connecting" | "connected" | "error") {
+  const label = source?.source ? LIGHTNING_SOURCE_LABELS[source.source] : "Lightning";
+  const state = source?.status === "connected" ? "active"
+    : source?.status === "connecting" || source?.health?.state === "backoff" ? "pending"
+    : "inactive";
+  const health = source?.health;
+  const details = health
+    ? [
+      health.server ?? (health.nextRetryAt ? `retrying ${new Date(health.nextRetryAt).toLocaleTimeString()}` : "no server"),
+      `${health.messagesPerMinute} msgs/min`,
+      `${health.strikesPerMinute} strikes/min`,
+      `${health.reconnects} reconnects`,
+    ]
+    : [source?.status ?? "unknown"];
+  if (stream === "error") details.push("stream to this browser interrupted");
+  return { label, state, title: details.join(" · ") };
 }
 
+// Replay presets; the server keeps up to a week but replays at most a day at a time
+const REPLAY_RANGES = [
+  { label: "1h", ms: 60 * 60 * 1000 },
+  { label: "6h", ms: 6 * 60 * 60 * 1000 },
+  { label: "24h", ms: 24 * 60 * 60 * 1000 },
+] as const;
+
+type DetailPanel =
+  | { type: "satellite"; data: SatellitePoint }
+  | { type: "vessel"; data: VesselPoint };
+
 function StatCard({
   icon: Icon, label, value, color, active, onClick,
 }: {
@@ -63,26 +131,86 @@ function EventFeedItem({
 export default function Home() {
   const [showSatellites, setShowSatellites] = useState(true);
   const [showLightning, setShowLightning] = useState(true);
-  const [showStarlink, setShowStarlink] = useState(false);
+  const [showVessels, setShowVessels] = useState(true);
+  // Starlink alone outnumbers everything else, so it starts hidden
+  const [hiddenCategories, setHiddenCategories] = useState(() => new Set<SatelliteCategory>(["starlink"]));
+  const [hiddenVesselCategories, setHiddenVesselCategories] = useState(() => new Set<VesselCategory>());
   const [rotationSpeed, setRotationSpeed] = useState(0.3); // default 0.3x (slower than original 1x)
   const [showAstronautPanel, setShowAstronautPanel] = useState(false);
   const [showQuizModal, setShowQuizModal] = useState(false);
   const [detail, setDetail] = useState<DetailPanel | null>(null);
   const astronaut = useAstronaut(showAstronautPanel);
   const [lightningStrikes, setLightningStrikes] = useState<LightningPoint[]>([]);
+  const [stormCells, setStormCells] = useState<StormCell[]>([]);
+  const [lightningMode, setLightningMode] = useState<"points" | "density">("points");
+  const [densityWindow, setDensityWindow] = useState<DensityWindow>("1h");
+  const replay = useLightningReplay();
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
   const [lightningTotal, setLightningTotal] = useState(0);
   const [lightningLastMin, setLightningLastMin] = useState(0);
   const [sseStatus, setSseStatus] = useState<"connecting" | "connected" | "error">("connecting");
+  const [watchInput, setWatchInput] = useState("");
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [flyTo, setFlyTo] = useState<{ lat: number; lon: number; key: number } | null>(null);
   const quizOpenedRef = useRef(false);
+  const { isAuthenticated } = useAuth();
+  const watchlist = useWatchlist(isAuthenticated);
+  const alerts = useLightningAlerts(isAuthenticated);
+  const [zoneForm, setZoneForm] = useState(EMPTY_ZONE_FORM);
+  const updateZoneForm = (key: keyof typeof EMPTY_ZONE_FORM) => (ev: React.ChangeEvent<HTMLInputElement>) =>
+    setZoneForm((f) => ({ ...f, [key]: ev.target.type === "checkbox" ? ev.target.checked : ev.target.value }));
+  const alertZoneShapes = useMemo(() => alerts.zones.map((z) => z.shape), [alerts.zones]);
 
-  const { data: satelliteData, isLoading: satLoading, refetch: refetchSat } =
-    trpc.satellites.tracked.useQuery(undefined, {
-      refetchInterval: 30000,
-      retry: 2,
-      retryDelay: (attempt: number) => Math.min(1000 * 2 ** attempt, 6000),
-    });
+  // Snapshot + deltas pushed by the server; one upstream fetch for all clients
+  const { data: satelliteData, isLoading: satLoading, reconnect: refetchSat } = useSatelliteStream();
+
+  const selectedSatId = detail?.type === "satellite" ? detail.data.id : null;
+  const { data: groundTrackData } = trpc.satellites.groundTrack.useQuery(
+    { satId: selectedSatId ?? 0 },
+    { enabled: selectedSatId != null, refetchInterval: 60000 }
+  );
+  const groundTrack = groundTrackData?.available && groundTrackData.satId === selectedSatId
+    ? groundTrackData
+    : null;
 
   const { data: lightningData } = trpc.lightning.recent.useQuery(undefined, { refetchInterval: 10000 });
+  const { data: lightningSource } = trpc.lightning.status.useQuery(undefined, { refetchInterval: 10000 });
+  const { data: aisStatus } = trpc.vessels.status.useQuery(undefined, { refetchInterval: 10000 });
+  const aisEnabled = aisStatus != null && aisStatus.status !== "disabled";
+  const [vesselViewport, setVesselViewport] = useState<VesselViewport | null>(null);
+  const vesselStream = useVesselStream(showVessels && aisEnabled, vesselViewport);
+  const hazards = useVesselHazards(showVessels && aisEnabled);
+  // The selected ship's latest report comes from the stream; its track from the server
+  const selectedVessel = detail?.type === "vessel"
+    ? vesselStream.vessels.find((v) => v.mmsi === detail.data.mmsi) ?? detail.data
+    : null;
+  const selectedMmsi = selectedVessel?.mmsi ?? null;
+  const { data: vesselTrackData } = trpc.vessels.track.useQuery(
+    { mmsi: selectedMmsi ?? "0" },
+    { enabled: selectedMmsi != null, refetchInterval: 30000 }
+  );
+  const vesselTrack = useMemo(
+    () => (selectedMmsi && vesselTrackData?.vessel?.mmsi === selectedMmsi ? { mmsi: selectedMmsi, points: vesselTrackData.track } : null),
+    [selectedMmsi, vesselTrackData]
+  );
+  const vessels = vesselStream.vessels.filter((v) => !hiddenVesselCategories.has(v.category));
+  const vesselCategoryCounts = new Map<VesselCategory, number>();
+  for (const v of vesselStream.vessels) {
+    vesselCategoryCounts.set(v.category, (vesselCategoryCounts.get(v.category) ?? 0) + 1);
+  }
+  const toggleVesselCategory = (category: VesselCategory) => {
+    setHiddenVesselCategories((prev) => {
+      const next = new Set(prev);
+      if (next.has(category)) next.delete(category);
+      else next.add(category);
+      return next;
+    });
+  };
+  const { data: densityData } = trpc.lightning.density.useQuery(
+    { window: densityWindow },
+    { enabled: lightningMode === "density", refetchInterval: densityWindow === "15m" ? 15000 : 60000 }
+  );
 
   // Lightning SSE
   useEffect(() => {
@@ -93,14 +221,22 @@ export default function Home() {
       try {
         const msg = JSON.parse(event.data);
         if (msg.type === "connected") { setSseStatus("connected"); }
-        else if (msg.type === 'history') {
+        else if (msg.type === 'history' || msg.type === "strikes") {
           const valid = (msg.strikes as LightningPoint[]).filter(
             (s) => s != null && typeof s.lat === 'number' && isFinite(s.lat) && typeof s.lon === 'number' && isFinite(s.lon)
           );
-          setLightningStrikes((prev) => [...prev, ...valid].slice(-500));
-        } else if (msg.lat !== undefined && typeof msg.lat === 'number' && isFinite(msg.lat) && typeof msg.lon === 'number' && isFinite(msg.lon)) {
-          setLightningStrikes((prev) => [...prev, msg as LightningPoint].slice(-500));
-          setLightningTotal((t) => t + 1);
+          // History is resent when a reconnect cannot resume; skip strikes already shown
+          setLightningStrikes((prev) => {
+            const seen = new Set(prev.map((s) => s.id));
+            return [...prev, ...valid.filter((s) => !seen.has(s.id))].slice(-500);
+          });
+          // Strikes dropped for backpressure or maxRate still happened
+          if (msg.type === "strikes") {
+            const dropped = typeof msg.dropped === "number" ? msg.dropped : 0;
+            setLightningTotal((t) => t + valid.length + dropped);
+          }
+        } else if (msg.type === "cells") {
+          setStormCells((msg as StormCellsMessage).cells);
         }
       } catch { /* ignore */ }
     };
@@ -114,18 +250,57 @@ export default function Home() {
     }
   }, [lightningData]);
 
+  // Watchlisted satellites bypass category filters and use their own
+  // high-accuracy positions in place of the bulk snapshot
   const satellites: SatellitePoint[] = (satelliteData?.satellites ?? [])
-    .filter((s: { latitude: number | null; longitude: number | null; name: string }) =>
-      s.latitude != null && s.longitude != null && isFinite(s.latitude) && isFinite(s.longitude) &&
-      (showStarlink || !s.name?.toUpperCase().startsWith("STARLINK"))
-    )
-    .map((s: { id: number; name: string; latitude: number | null; longitude: number | null; altitude: number | null }) => ({
-      id: s.id, name: s.name, latitude: s.latitude!, longitude: s.longitude!, altitude: s.altitude ?? 0,
-    }));
-
-  const starlinkCount = (satelliteData?.satellites ?? []).filter(
-    (s: { name: string }) => s.name?.toUpperCase().startsWith("STARLINK")
-  ).length;
+    .filter((s) => !hiddenCategories.has(s.category) && !watchlist.watchedIds.has(s.id))
+    .map((s): SatellitePoint => ({
+      id: s.id, name: s.name, latitude: s.latitude, longitude: s.longitude, altitude: s.altitude, category: s.category,
+    }))
+    .concat(watchlist.satellites);
+
+  const categoryCounts = new Map<SatelliteCategory, number>();
+  for (const s of satelliteData?.satellites ?? []) {
+    categoryCounts.set(s.category, (categoryCounts.get(s.category) ?? 0) + 1);
+  }
+
+  const toggleCategory = (category: SatelliteCategory) => {
+    setHiddenCategories((prev) => {
+      const next = new Set(prev);
+      if (next.has(category)) next.delete(category);
+      else next.add(category);
+      return next;
+    });
+  };
+
+  // Search covers every tracked satellite, including hidden categories
+  const searchable: SatellitePoint[] = (satelliteData?.satellites ?? [])
+    .filter((s) => !watchlist.watchedIds.has(s.id))
+    .map((s): SatellitePoint => ({
+      id: s.id, name: s.name, latitude: s.latitude, longitude: s.longitude, altitude: s.altitude, category: s.category,
+    }))
+    .concat(watchlist.satellites);
+
+  const selectSatellite = (sat: SatellitePoint) => {
+    setShowSatellites(true);
+    if (sat.category && hiddenCategories.has(sat.category)) toggleCategory(sat.category);
+    setDetail({ type: "satellite", data: sat });
+    setFlyTo({ lat: sat.latitude, lon: sat.longitude, key: Date.now() });
+  };
+
+  // Ctrl/Cmd+K or "/" opens satellite search
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      const typing = target?.tagName === "INPUT" || target?.tagName === "TEXTAREA" || target?.isContentEditable;
+      if ((e.key === "k" && (e.metaKey || e.ctrlKey)) || (e.key === "/" && !typing)) {
+        e.preventDefault();
+        setSearchOpen(true);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
 
   // Fuel system
   const astronautPos = isFinite(astronaut.lat) && isFinite(astronaut.lon)
@@ -134,7 +309,7 @@ export default function Home() {
 
   const { fuelState, refuelFromQuiz } = useFuel(
     astronautPos,
-    lightningStrikes,
+    stormCells,
     satellites,
     showAstronautPanel // pause fuel drain when panel is open
   );
@@ -160,9 +335,11 @@ export default function Home() {
   );
   const recentLightning = validStrikes.slice(-100);
   const recentStrikes = validStrikes.slice(-5).reverse();
+  // A strike stays on the globe for about three seconds of playback
+  const replayFadeMs = replay.speed * 3000;
   // Show up to 20 satellites in Live Feed, sorted by altitude (lower = more interesting)
   const recentSats = satellites
-    .slice()
+    .filter((s) => !s.watched)
     .sort((a, b) => (a.altitude ?? 0) - (b.altitude ?? 0))
     .slice(0, 20);
 
@@ -181,13 +358,27 @@ export default function Home() {
           </div>
         </div>
         <div className="flex items-center gap-4">
+          <button
+            onClick={() => setSearchOpen(true)}
+            className="flex items-center gap-2 px-2.5 py-1 rounded border border-border/40 bg-secondary/30 text-xs text-muted-foreground hover:text-foreground transition-colors"
+            title="Search satellites (Ctrl+K)"
+          >
+            <Search size={12} />
+            <span className="hidden sm:inline">Find satellite</span>
+            <kbd className="hidden md:inline font-mono text-[10px] text-muted-foreground/70">⌘K</kbd>
+          </button>
           <div className="hidden md:flex items-center gap-3 text-xs">
             {[
-              { label: "N2YO", ok: !satLoading },
-              { label: "Blitzortung", ok: sseStatus === "connected" },
-            ].map(({ label, ok }) => (
-              <div key={label} className="flex items-center gap-1.5">
-                <span className={`status-dot ${ok ? "active" : "inactive"}`} />
+              { label: SATELLITE_SOURCE_LABELS[satelliteData?.source ?? "n2yo"], state: satLoading ? "inactive" : "active", title: undefined },
+              lightningStatusDot(lightningSource, sseStatus),
+              {
+                label: "AISStream",
+                state: aisStatus?.status === "connected" ? "active" : "inactive",
+                title: aisEnabled ? `${aisStatus.status} · ${aisStatus.count} vessels` : "Set AISSTREAM_API_KEY to enable vessel tracking",
+              },
+            ].map(({ label, state, title }) => (
+              <div key={label} className="flex items-center gap-1.5" title={title}>
+                <span className={`status-dot ${state}`} />
                 <span className="text-muted-foreground">{label}</span>
               </div>
             ))}
@@ -247,6 +438,14 @@ export default function Home() {
                 active={showLightning}
                 onClick={() => setShowLightning((v) => !v)}
               />
+              <StatCard
+                icon={Ship}
+                label="Vessels"
+                value={aisEnabled ? aisStatus.count : "N/A"}
+                color="#4DD0E1"
+                active={showVessels && aisEnabled}
+                onClick={() => setShowVessels((v) => !v)}
+              />
             </div>
           </div>
 
@@ -259,8 +458,109 @@ export default function Home() {
               </div>
               <span className="counter-value text-sm font-bold" style={{ color: "#FFF176" }}>{lightningLastMin}</span>
             </div>
+            <div className="data-card p-2 mt-1 flex items-center justify-between">
+              <div className="flex items-center gap-1.5">
+                <CloudLightning size={10} style={{ color: "#FFB74D" }} />
+                <span className="text-xs text-muted-foreground">Storm cells</span>
+              </div>
+              <span className="counter-value text-sm font-bold" style={{ color: "#FFB74D" }}>{stormCells.length}</span>
+            </div>
+            {showVessels && aisEnabled && (
+              <div
+                className="data-card p-2 mt-1 flex items-center justify-between"
+                title={hazards.radiusKm != null ? `Ships within ${hazards.radiusKm} km of recent lightning or a storm cell` : undefined}
+              >
+                <div className="flex items-center gap-1.5">
+                  <TriangleAlert size={10} style={{ color: HAZARD_COLOR }} />
+                  <span className="text-xs text-muted-foreground">Vessels at risk</span>
+                </div>
+                <span className="counter-value text-sm font-bold" style={{ color: HAZARD_COLOR }}>{hazards.vessels.length}</span>
+              </div>
+            )}
           </div>
 
+          {/* Lightning display: individual strikes or a density heatmap */}
+          <div>
+            <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1 font-medium">Lightning Display</p>
+            <div className="grid grid-cols-2 gap-1">
+              {(["points", "density"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setLightningMode(mode)}
+                  className={`px-2 py-1 rounded text-xs capitalize transition-all ${
+                    lightningMode === mode
+                      ? "bg-yellow-500/15 border border-yellow-300/40 text-yellow-200"
+                      : "bg-secondary/40 border border-border/30 text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  {mode === "points" ? "Strikes" : "Density"}
+                </button>
+              ))}
+            </div>
+            {lightningMode === "density" && (
+              <div className="mt-1.5 space-y-1.5">
+                <div className="flex gap-1">
+                  {(Object.keys(DENSITY_WINDOWS) as DensityWindow[]).map((w) => (
+                    <button
+                      key={w}
+                      onClick={() => setDensityWindow(w)}
+                      className={`flex-1 px-1 py-0.5 rounded font-mono text-xs transition-all ${
+                        densityWindow === w ? "bg-secondary text-foreground" : "text-muted-foreground hover:bg-secondary/40"
+                      }`}
+                    >
+                      {w}
+                    </button>
+                  ))}
+                </div>
+                <div>
+                  <div
+                    className="h-1.5 rounded-full"
+                    style={{ background: `linear-gradient(90deg, ${DENSITY_COLORS.join(", ")})` }}
+                  />
+                  <div className="flex justify-between text-xs text-muted-foreground/70 mt-0.5 font-mono">
+                    <span>1</span>
+                    <span>strikes / ~111 km cell</span>
+                    <span>{densityData ? densityData.maxCount.toLocaleString() : "—"}</span>
+                  </div>
+                  {densityData && (
+                    <p className="text-xs text-muted-foreground/60 mt-0.5">
+                      {densityData.total.toLocaleString()} strikes in {densityData.cells.length.toLocaleString()} cells
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Time-lapse replay of stored strikes */}
+          <div>
+            <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1 font-medium">Replay</p>
+            <div className="grid grid-cols-3 gap-1">
+              {REPLAY_RANGES.map(({ label, ms }) => (
+                <button
+                  key={label}
+                  onClick={() => { const now = Date.now(); replay.start(now - ms, now); }}
+                  className="flex items-center justify-center gap-1 px-1 py-1 rounded text-xs bg-secondary/40 border border-border/30 text-muted-foreground hover:text-foreground transition-all"
+                  title={`Replay the last ${label} of lightning`}
+                >
+                  <History size={10} />
+                  {label}
+                </button>
+              ))}
+            </div>
+            {replay.active && (
+              <p className="text-xs text-muted-foreground/60 mt-1">Storm cells and density are hidden during replay</p>
+            )}
+          </div>
+
+          <button
+            onClick={() => setStatsOpen(true)}
+            className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded text-xs bg-secondary/40 border border-border/30 text-muted-foreground hover:text-foreground transition-all"
+          >
+            <BarChart3 size={12} />
+            Lightning statistics
+          </button>
+
           {/* Fuel Bar */}
           <div>
             <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1.5 font-medium">Astronaut Fuel</p>
@@ -270,17 +570,178 @@ export default function Home() {
             />
           </div>
 
+          {isAuthenticated && (
+            <div>
+              <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1.5 font-medium">Watchlist</p>
+              <div className="flex flex-col gap-0.5">
+                {watchlist.entries.map((e) => {
+                  const live = watchlist.satellites.find((s) => s.id === e.noradId);
+                  return (
+                    <div key={e.noradId} className="flex items-center justify-between gap-1 px-2 py-0.5 rounded text-xs hover:bg-secondary/40">
+                      <button
+                        onClick={() => live && selectSatellite(live)}
+                        className="flex items-center gap-1.5 truncate text-left"
+                        style={{ color: live ? WATCHLIST_COLOR : undefined }}
+                      >
+                        <Star size={9} className="flex-shrink-0" />
+                        <span className="truncate">{live?.name ?? e.label ?? `#${e.noradId}`}</span>
+                      </button>
+                      <button
+                        onClick={() => watchlist.remove(e.noradId)}
+                        disabled={watchlist.pending}
+                        className="p-0.5 text-muted-foreground hover:text-foreground"
+                        title="Remove from watchlist"
+                      >
+                        <X size={10} />
+                      </button>
+                    </div>
+                  );
+                })}
+                {watchlist.entries.length === 0 && (
+                  <p className="px-2 text-xs text-muted-foreground/60">Star a satellite to pin it here</p>
+                )}
+              </div>
+              <form
+                className="mt-1.5 flex items-center gap-1"
+                onSubmit={(ev) => {
+                  ev.preventDefault();
+                  const noradId = parseInt(watchInput, 10);
+                  if (noradId > 0) {
+                    watchlist.add(noradId);
+                    setWatchInput("");
+                  }
+                }}
+              >
+                <input
+                  value={watchInput}
+                  onChange={(ev) => setWatchInput(ev.target.value.replace(/\D/g, ""))}
+                  placeholder="NORAD ID"
+                  inputMode="numeric"
+                  className="flex-1 min-w-0 bg-secondary/40 border border-border/30 rounded px-2 py-0.5 text-xs font-mono"
+                />
+                <button
+                  type="submit"
+                  disabled={watchlist.pending || !watchInput}
+                  className="p-1 rounded border border-border/30 text-muted-foreground hover:text-foreground disabled:opacity-40"
+                  title="Add to watchlist"
+                >
+                  <Plus size={10} />
+                </button>
+              </form>
+            </div>
+          )}
+
+          {isAuthenticated && (
+            <div>
+              <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1.5 font-medium">Lightning Alerts</p>
+              <div className="flex flex-col gap-0.5">
+                {alerts.zones.map((z) => (
+                  <div key={z.id} className="flex items-center justify-between gap-1 px-2 py-0.5 rounded text-xs hover:bg-secondary/40">
+                    <button
+                      onClick={() => {
+                        const [lon, lat] = z.shape.kind === "circle" ? [z.shape.center.lon, z.shape.center.lat] : z.shape.ring[0]!;
+                        setFlyTo({ lat, lon, key: Date.now() });
+                      }}
+                      className="flex items-center gap-1.5 truncate text-left"
+                      style={{ color: ALERT_ZONE_COLOR }}
+                    >
+                      <BellRing size={9} className="flex-shrink-0" />
+                      <span className="truncate">{z.name}</span>
+                    </button>
+                    <span className="ml-auto font-mono text-muted-foreground/70">
+                      {z.shape.kind === "circle" ? `${z.shape.radiusKm} km` : `${z.shape.ring.length} pts`}
+                    </span>
+                    <button
+                      onClick={() => alerts.remove(z.id)}
+                      disabled={alerts.pending}
+                      className="p-0.5 text-muted-foreground hover:text-foreground"
+                      title="Remove alert zone"
+                    >
+                      <X size={10} />
+                    </button>
+                  </div>
+                ))}
+                {alerts.zones.length === 0 && (
+                  <p className="px-2 text-xs text-muted-foreground/60">Get a toast when lightning strikes near a place</p>
+                )}
+              </div>
+              <form
+                className="mt-1.5 grid grid-cols-2 gap-1 text-xs"
+                onSubmit={(ev) => {
+                  ev.preventDefault();
+                  const lat = Number(zoneForm.lat);
+                  const lon = Number(zoneForm.lon);
+                  const radiusKm = Number(zoneForm.radiusKm);
+                  if (!zoneForm.name.trim() || !zoneForm.lat || !zoneForm.lon || !(radiusKm > 0)) return;
+                  const quietHours: QuietHours | null = zoneForm.quietStart && zoneForm.quietEnd
+                    ? {
+                        start: minutesOfDay(zoneForm.quietStart),
+                        end: minutesOfDay(zoneForm.quietEnd),
+                        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                      }
+                    : null;
+                  alerts.add({
+                    name: zoneForm.name.trim(),
+                    shape: { kind: "circle", center: { lat, lon }, radiusKm },
+                    notifyOwner: zoneForm.notifyOwner,
+                    quietHours,
+                  });
+                  setZoneForm(EMPTY_ZONE_FORM);
+                }}
+              >
+                <input value={zoneForm.name} onChange={updateZoneForm("name")} placeholder="Name" maxLength={64} className={`col-span-2 ${ZONE_FIELD_CLASS}`} />
+                <input value={zoneForm.lat} onChange={updateZoneForm("lat")} placeholder="Lat" type="number" min={-90} max={90} step="any" className={ZONE_FIELD_CLASS} />
+                <input value={zoneForm.lon} onChange={updateZoneForm("lon")} placeholder="Lon" type="number" min={-180} max={180} step="any" className={ZONE_FIELD_CLASS} />
+                <input value={zoneForm.radiusKm} onChange={updateZoneForm("radiusKm")} placeholder="km" type="number" min={1} max={MAX_ZONE_RADIUS_KM} className={ZONE_FIELD_CLASS} title="Radius (km)" />
+                <button
+                  type="button"
+                  onClick={() =>
+                    navigator.geolocation?.getCurrentPosition((pos) =>
+                      setZoneForm((f) => ({
+                        ...f,
+                        lat: pos.coords.latitude.toFixed(4),
+                        lon: pos.coords.longitude.toFixed(4),
+                      }))
+                    )
+                  }
+                  className="flex items-center justify-center gap-1 rounded border border-border/30 text-muted-foreground hover:text-foreground"
+                  title="Use my location"
+                >
+                  <LocateFixed size={10} />
+                  Here
+                </button>
+                <input value={zoneForm.quietStart} onChange={updateZoneForm("quietStart")} type="time" className={ZONE_FIELD_CLASS} title="Quiet hours start" />
+                <input value={zoneForm.quietEnd} onChange={updateZoneForm("quietEnd")} type="time" className={ZONE_FIELD_CLASS} title="Quiet hours end" />
+                <label className="flex items-center gap-1 text-muted-foreground" title="Also notify the site owner">
+                  <input type="checkbox" checked={zoneForm.notifyOwner} onChange={updateZoneForm("notifyOwner")} />
+                  Notify
+                </label>
+                <button
+                  type="submit"
+                  disabled={alerts.pending || !zoneForm.name.trim() || !zoneForm.lat || !zoneForm.lon}
+                  className="flex items-center justify-center gap-1 rounded border border-border/30 text-muted-foreground hover:text-foreground disabled:opacity-40"
+                  title="Add alert zone"
+                >
+                  <Plus size={10} />
+                  Add
+                </button>
+              </form>
+            </div>
+          )}
+
           {!satelliteData?.available && (
             <div className="data-card p-2" style={{ borderColor: "rgba(255,241,118,0.2)" }}>
-              <p className="text-xs leading-relaxed" style={{ color: "rgba(255,241,118,0.8)" }}>N2YO API key not set. Satellite tracking disabled.</p>
+              <p className="text-xs leading-relaxed" style={{ color: "rgba(255,241,118,0.8)" }}>{satelliteData?.message ?? "Satellite data unavailable"}. Satellite tracking disabled.</p>
             </div>
           )}
 
           <div className="mt-auto">
             <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1.5 font-medium">Legend</p>
             {[
-              { color: "#CE93D8", label: "Satellites (N2YO)" },
               { color: "#FFF176", label: "Lightning (Blitzortung)" },
+              { color: "#FFB74D", label: "Storm cell (arrow: 30 min motion)" },
+              { color: "#4DD0E1", label: "Vessel (arrow: heading, color: type)" },
+              { color: HAZARD_COLOR, label: "Vessel near lightning (ring)" },
               { color: "#FFD700", label: "Astronaut Tracker" },
             ].map(({ color, label }) => (
               <div key={label} className="flex items-center gap-2 mb-1.5">
@@ -311,29 +772,55 @@ export default function Home() {
                 {showSatellites ? "ON" : "OFF"}
               </span>
             </button>
-            {/* Starlink toggle */}
-            <button
-              onClick={() => setShowStarlink((v) => !v)}
-              className={`mt-1.5 w-full flex items-center justify-between px-2 py-1 rounded text-xs transition-all ${
-                showStarlink
-                  ? "bg-purple-500/20 border border-purple-400/40 text-purple-300"
-                  : "bg-secondary/40 border border-border/30 text-muted-foreground hover:text-foreground"
-              }`}
-            >
-              <span className="flex items-center gap-1.5">
-                <span
-                  className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${
-                    showStarlink ? "bg-purple-400" : "bg-muted-foreground/40"
-                  }`}
-                />
-                Starlink ({starlinkCount.toLocaleString()})
-              </span>
-              <span className={`font-mono text-xs ${
-                showStarlink ? "text-purple-300" : "text-muted-foreground/60"
-              }`}>
-                {showStarlink ? "ON" : "OFF"}
-              </span>
-            </button>
+            {/* Category toggles */}
+            <div className="mt-1.5 flex flex-col gap-0.5">
+              {SATELLITE_CATEGORIES.filter((c) => categoryCounts.has(c)).map((c) => {
+                const { label, color } = SATELLITE_CATEGORY_INFO[c];
+                const visible = !hiddenCategories.has(c);
+                return (
+                  <button
+                    key={c}
+                    onClick={() => toggleCategory(c)}
+                    className={`w-full flex items-center justify-between px-2 py-0.5 rounded text-xs transition-all hover:bg-secondary/40 ${
+                      visible ? "text-foreground/90" : "text-muted-foreground/50"
+                    }`}
+                  >
+                    <span className="flex items-center gap-1.5 truncate">
+                      <span
+                        className="w-2 h-2 rounded-full flex-shrink-0"
+                        style={{ background: visible ? color : "transparent", border: `1px solid ${color}` }}
+                      />
+                      {label}
+                    </span>
+                    <span className="font-mono text-xs">{categoryCounts.get(c)!.toLocaleString()}</span>
+                  </button>
+                );
+              })}
+            </div>
+            {/* Vessel type toggles */}
+            {vesselCategoryCounts.size > 0 && (
+              <div className="mt-1.5 pt-1.5 border-t border-border/20 flex flex-col gap-0.5">
+                {VESSEL_CATEGORIES.filter((c) => vesselCategoryCounts.has(c)).map((c) => {
+                  const { label, color } = VESSEL_CATEGORY_INFO[c];
+                  const visible = !hiddenVesselCategories.has(c);
+                  return (
+                    <button
+                      key={c}
+                      onClick={() => toggleVesselCategory(c)}
+                      className={`w-full flex items-center justify-between px-2 py-0.5 rounded text-xs transition-all hover:bg-secondary/40 ${
+                        visible ? "text-foreground/90" : "text-muted-foreground/50"
+                      }`}
+                    >
+                      <span className="flex items-center gap-1.5 truncate">
+                        <Ship size={10} className="flex-shrink-0" style={{ color: visible ? color : undefined }} />
+                        {label}
+                      </span>
+                      <span className="font-mono text-xs">{vesselCategoryCounts.get(c)!.toLocaleString()}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
             {/* Rotation speed slider */}
             <div className="mt-2 pt-2 border-t border-border/20">
               <div className="flex items-center justify-between mb-1">
@@ -384,12 +871,25 @@ export default function Home() {
         <main className="flex-1 relative overflow-hidden">
           <Globe
             satellites={satellites}
-            lightning={recentLightning}
+            lightning={replay.active ? replay.strikes : recentLightning}
+            stormCells={replay.active ? [] : stormCells}
+            alertZones={alertZoneShapes}
+            density={!replay.active && lightningMode === "density" ? densityData ?? null : null}
+            lightningTime={replay.active ? replay.position : null}
+            lightningFadeMs={replay.active ? replayFadeMs : undefined}
             astronaut={astronaut}
             showSatellites={showSatellites}
             showLightning={showLightning}
+            vessels={vessels}
+            showVessels={showVessels}
+            vesselTrack={vesselTrack}
+            onVesselClick={(v) => setDetail({ type: "vessel", data: v })}
+            onViewChange={setVesselViewport}
+            atRiskVessels={hazards.atRiskIds}
             onSatelliteClick={(s) => setDetail({ type: "satellite", data: s })}
             onAstronautClick={() => setShowAstronautPanel(true)}
+            groundTrack={groundTrack?.points}
+            flyTo={flyTo}
             nearestLightningPos={fuelState.nearestLightningPos}
             nearestSatellitePos={fuelState.nearestSatellitePos}
             nearLightning={fuelState.nearLightning}
@@ -441,15 +941,83 @@ export default function Home() {
             )}
           </div>
 
-          <div className="absolute bottom-3 left-1/2 -translate-x-1/2 text-xs text-muted-foreground/40 font-mono pointer-events-none">
-            Drag to rotate · Click to inspect
-          </div>
+          {replay.active && replay.range ? (
+            <div
+              className="absolute bottom-3 left-1/2 -translate-x-1/2 w-[min(36rem,90%)] px-3 py-2 rounded-lg text-xs"
+              style={{ background: "rgba(10,14,26,0.85)", border: "1px solid rgba(255,241,118,0.25)" }}
+            >
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => (replay.playing ? replay.pause() : replay.play())}
+                  className="p-1 rounded hover:bg-secondary transition-colors"
+                  title={replay.playing ? "Pause" : "Play"}
+                >
+                  {replay.playing ? <Pause size={14} className="text-yellow-200" /> : <Play size={14} className="text-yellow-200" />}
+                </button>
+                <Slider
+                  min={replay.range.from}
+                  max={replay.range.to}
+                  step={1000}
+                  value={[scrubTime ?? replay.position]}
+                  onValueChange={([t]) => setScrubTime(t!)}
+                  onValueCommit={([t]) => { replay.seek(t!); setScrubTime(null); }}
+                  className="flex-1"
+                />
+                <span className="font-mono text-yellow-200 w-36 text-right">
+                  {new Date(scrubTime ?? replay.position).toLocaleString([], {
+                    month: "short", day: "numeric", hour: "2-digit", minute: "2-digit", second: "2-digit",
+                  })}
+                </span>
+                <button onClick={replay.stop} className="p-1 rounded hover:bg-secondary transition-colors" title="Back to live">
+                  <X size={14} className="text-muted-foreground" />
+                </button>
+              </div>
+              <div className="flex items-center justify-between mt-1.5 text-muted-foreground">
+                <div className="flex gap-1">
+                  {REPLAY_SPEEDS.map((x) => (
+                    <button
+                      key={x}
+                      onClick={() => replay.setSpeed(x)}
+                      className={`px-1.5 py-0.5 rounded font-mono transition-all ${
+                        replay.speed === x ? "bg-secondary text-foreground" : "hover:bg-secondary/40"
+                      }`}
+                    >
+                      {x}×
+                    </button>
+                  ))}
+                </div>
+                <span className="font-mono">
+                  {replay.status === "error"
+                    ? <span className="text-red-400">{replay.message}</span>
+                    : replay.status === "ended"
+                    ? "End of range"
+                    : `${replay.strikes.filter((s) => s.time <= replay.position && replay.position - s.time < replayFadeMs).length} strikes on screen`}
+                </span>
+              </div>
+            </div>
+          ) : (
+            <div className="absolute bottom-3 left-1/2 -translate-x-1/2 text-xs text-muted-foreground/40 font-mono pointer-events-none">
+              Drag to rotate · Click to inspect
+            </div>
+          )}
         </main>
 
         {/* Right Panel */}
         <aside className="w-60 flex-shrink-0 border-l border-border/40 flex flex-col overflow-hidden">
           <div className="flex-1 overflow-y-auto p-3">
             <p className="text-xs text-muted-foreground uppercase tracking-wider mb-2 font-medium">Live Feed</p>
+            {hazards.events.map((e) => (
+              <EventFeedItem
+                key={e.id}
+                icon={e.kind === "entered" ? TriangleAlert : Ship}
+                color={e.kind === "entered" ? HAZARD_COLOR : VESSEL_CATEGORY_INFO[e.category].color}
+                title={e.name}
+                subtitle={e.kind === "entered"
+                  ? `${e.source === "cell" ? "Storm cell" : "Lightning"} ${e.distanceKm!.toFixed(1)} km away`
+                  : "Clear of lightning"}
+                time={formatTime(e.time)}
+              />
+            ))}
             {showLightning && recentStrikes.map((s) => (
               <EventFeedItem
                 key={s.id}
@@ -460,11 +1028,21 @@ export default function Home() {
                 time={formatTime(s.time)}
               />
             ))}
+            {showSatellites && watchlist.satellites.map((s) => (
+              <EventFeedItem
+                key={`watch-${s.id}`}
+                icon={Star}
+                color={WATCHLIST_COLOR}
+                title={s.name}
+                subtitle={`${s.latitude.toFixed(1)}°, ${s.longitude.toFixed(1)}°`}
+                time={`${Math.round(s.altitude)}km`}
+              />
+            ))}
             {showSatellites && recentSats.map((s) => (
               <EventFeedItem
                 key={s.id}
                 icon={Satellite}
-                color="#CE93D8"
+                color={s.category ? SATELLITE_CATEGORY_INFO[s.category].color : "#CE93D8"}
                 title={s.name}
                 subtitle={`${(s.latitude ?? 0).toFixed(1)}°, ${(s.longitude ?? 0).toFixed(1)}°`}
                 time={`${Math.round(s.altitude ?? 0)}km`}
@@ -473,32 +1051,29 @@ export default function Home() {
           </div>
 
           {detail?.type === "satellite" && (
-            <div className="border-t border-border/40 p-3 bg-card/50">
-              <div className="flex items-center justify-between mb-2">
-                <p className="text-xs text-muted-foreground uppercase tracking-wider font-medium">Satellite Detail</p>
-                <button onClick={() => setDetail(null)} className="p-0.5 hover:bg-secondary rounded transition-colors">
-                  <X size={12} className="text-muted-foreground" />
-                </button>
-              </div>
-              {(() => {
-                const s = detail.data as SatellitePoint;
-                return (
-                  <div className="space-y-1 text-xs">
-                    {[
-                      { l: "Name", v: s.name, c: "font-mono text-accent truncate max-w-28" },
-                      { l: "NORAD ID", v: String(s.id), c: "font-mono text-foreground" },
-                      { l: "Altitude", v: `${Math.round(s.altitude ?? 0)} km`, c: "font-mono text-foreground" },
-                      { l: "Position", v: `${(s.latitude ?? 0).toFixed(2)}°, ${(s.longitude ?? 0).toFixed(2)}°`, c: "font-mono text-foreground" },
-                    ].map(({ l, v, c }) => (
-                      <div key={l} className="flex justify-between gap-2">
-                        <span className="text-muted-foreground">{l}</span>
-                        <span className={c}>{v}</span>
-                      </div>
-                    ))}
-                  </div>
-                );
-              })()}
-            </div>
+            <SatelliteDetailPanel
+              satellite={detail.data}
+              groundTrack={groundTrack}
+              groundTrackUnavailable={!!groundTrackData && !groundTrackData.available}
+              watch={isAuthenticated ? {
+                watched: watchlist.isWatched(detail.data.id),
+                pending: watchlist.pending,
+                toggle: () =>
+                  watchlist.isWatched(detail.data.id)
+                    ? watchlist.remove(detail.data.id)
+                    : watchlist.add(detail.data.id),
+              } : null}
+              onClose={() => { setDetail(null); setFlyTo(null); }}
+            />
+          )}
+
+          {selectedVessel && (
+            <VesselDetailPanel
+              vessel={selectedVessel}
+              trackPoints={vesselTrack?.points.length ?? 0}
+              trackSince={vesselTrack?.points[0]?.[0] ?? null}
+              onClose={() => setDetail(null)}
+            />
           )}
 
           <div className="border-t border-border/40 p-2 flex items-center justify-between text-xs font-mono">
@@ -516,6 +1091,19 @@ export default function Home() {
         />
       )}
 
+      <SatelliteSearch
+        open={searchOpen}
+        onOpenChange={setSearchOpen}
+        satellites={searchable}
+        onSelect={selectSatellite}
+      />
+
+      <LightningStatsPanel
+        open={statsOpen}
+        onOpenChange={setStatsOpen}
+        onFlyTo={(lat, lon) => { setStatsOpen(false); setFlyTo({ lat, lon, key: Date.now() }); }}
+      />
+
       {/* Quiz Modal */}
       {showQuizModal && (
         <QuizModal
@@ -0,0 +1,9 @@
+CREATE TABLE `watchlist` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`noradId` int NOT NULL,
+	`label` varchar(64),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `watchlist_id` PRIMARY KEY(`id`),
+	CONSTRAINT `watchlist_user_norad_idx` UNIQUE(`userId`,`noradId`)
+);
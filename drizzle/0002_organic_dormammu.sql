@@ -0,0 +1,10 @@
+CREATE TABLE `lightning_strikes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`strikeId` varchar(16) NOT NULL,
+	`time` bigint NOT NULL,
+	`lat` double NOT NULL,
+	`lon` double NOT NULL,
+	CONSTRAINT `lightning_strikes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `lightning_time_idx` ON `lightning_strikes` (`time`,`strikeId`);
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE `lightning_strikes` ADD `alt` double;--> statement-breakpoint
+ALTER TABLE `lightning_strikes` ADD `polarity` int;--> statement-breakpoint
+ALTER TABLE `lightning_strikes` ADD `mds` int;--> statement-breakpoint
+ALTER TABLE `lightning_strikes` ADD `mcg` int;--> statement-breakpoint
+ALTER TABLE `lightning_strikes` ADD `delay` double;--> statement-breakpoint
+ALTER TABLE `lightning_strikes` ADD `region` int;--> statement-breakpoint
+ALTER TABLE `lightning_strikes` ADD `stations` int;
\ No newline at end of file
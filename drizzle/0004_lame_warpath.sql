@@ -0,0 +1,18 @@
+CREATE TABLE `alert_zones` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`kind` enum('circle','polygon') NOT NULL,
+	`centerLat` double,
+	`centerLon` double,
+	`radiusKm` double,
+	`polygon` json,
+	`notifyOwner` boolean NOT NULL DEFAULT true,
+	`quietStart` int,
+	`quietEnd` int,
+	`timeZone` varchar(64) NOT NULL DEFAULT 'UTC',
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `alert_zones_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `alert_zones_user_idx` ON `alert_zones` (`userId`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `lightning_strikes` MODIFY COLUMN `strikeId` varbinary(16) NOT NULL;
\ No newline at end of file
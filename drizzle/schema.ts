@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import { bigint, boolean, double, index, int, json, mysqlEnum, mysqlTable, text, timestamp, uniqueIndex, varbinary, varchar } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -25,4 +25,86 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
-// TODO: Add your tables here
\ No newline at end of file
+/**
+ * Per-user satellite watchlist. Each row pins one NORAD ID for one user; the
+ * dashboard fetches these with high-accuracy position lookups and highlights
+ * them on the globe.
+ */
+export const watchlist = mysqlTable(
+  "watchlist",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    /** References users.id. */
+    userId: int("userId").notNull(),
+    noradId: int("noradId").notNull(),
+    /** Optional display name chosen by the user; falls back to the catalog name. */
+    label: varchar("label", { length: 64 }),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("watchlist_user_norad_idx").on(table.userId, table.noradId)]
+);
+
+export type WatchlistEntry = typeof watchlist.$inferSelect;
+export type InsertWatchlistEntry = typeof watchlist.$inferInsert;
+
+/**
+ * Lightning strike history. Rows are written in batches by the lightning store
+ * and deleted after LIGHTNING_RETENTION_HOURS; range queries page through them
+ * by (time, strikeId).
+ */
+export const lightningStrikes = mysqlTable(
+  "lightning_strikes",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    /**
+     * Id assigned when the strike was received; shared with the SSE stream.
+     * Binary, so pages sort and compare ids byte-wise like the in-memory store.
+     */
+    strikeId: varbinary("strikeId", { length: 16 }).notNull(),
+    /** Strike time in epoch milliseconds. */
+    time: bigint("time", { mode: "number" }).notNull(),
+    lat: double("lat").notNull(),
+    lon: double("lon").notNull(),
+    /** Blitzortung metadata; null for synthetic strikes. Per-station signals are not kept. */
+    alt: double("alt"),
+    polarity: int("polarity"),
+    mds: int("mds"),
+    mcg: int("mcg"),
+    delay: double("delay"),
+    region: int("region"),
+    stations: int("stations"),
+  },
+  (table) => [index("lightning_time_idx").on(table.time, table.strikeId)]
+);
+
+export type LightningStrikeRow = typeof lightningStrikes.$inferSelect;
+export type InsertLightningStrikeRow = typeof lightningStrikes.$inferInsert;
+
+/**
+ * Per-user lightning alert zones: a circle (center + radius) or a polygon.
+ * Quiet hours are minutes after midnight in `timeZone`; both null means none.
+ */
+export const alertZones = mysqlTable(
+  "alert_zones",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    /** References users.id. */
+    userId: int("userId").notNull(),
+    name: varchar("name", { length: 64 }).notNull(),
+    kind: mysqlEnum("kind", ["circle", "polygon"]).notNull(),
+    centerLat: double("centerLat"),
+    centerLon: double("centerLon"),
+    radiusKm: double("radiusKm"),
+    /** [lon, lat] vertices for polygon zones. */
+    polygon: json("polygon").$type<Array<[number, number]>>(),
+    notifyOwner: boolean("notifyOwner").default(true).notNull(),
+    quietStart: int("quietStart"),
+    quietEnd: int("quietEnd"),
+    timeZone: varchar("timeZone", { length: 64 }).default("UTC").notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [index("alert_zones_user_idx").on(table.userId)]
+);
+
+export type AlertZoneRow = typeof alertZones.$inferSelect;
+export type InsertAlertZoneRow = typeof alertZones.$inferInsert;
@@ -7,7 +7,10 @@ import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
-import { connectBlitzortung, handleLightningSSE } from "../lightning-ws";
+import { handleLightningSSE, startLightningSource } from "../lightning-ws";
+import { handleLightningReplaySSE } from "../lightning-replay";
+import { handleSatelliteSSE } from "../satellite-stream";
+import { connectAISStream, handleVesselSSE } from "../vessel-ws";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -36,8 +39,13 @@ async function startServer() {
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
-  // Lightning SSE stream
+  // Lightning SSE streams (live and historic replay)
   app.get("/api/lightning/stream", handleLightningSSE);
+  app.get("/api/lightning/replay", handleLightningReplaySSE);
+  // Satellite position stream (snapshot + deltas)
+  app.get("/api/satellites/stream", handleSatelliteSSE);
+  // AIS vessel positions (snapshot + position reports)
+  app.get("/api/vessels/stream", handleVesselSSE);
 
   // tRPC API
   app.use(
@@ -63,8 +71,10 @@ async function startServer() {
 
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
-    // Start Blitzortung WebSocket connection after server is up
-    setTimeout(() => connectBlitzortung(), 1000);
+    // Start the configured lightning source after server is up
+    setTimeout(() => startLightningSource(), 1000);
+    // AIS tracking stays off unless AISSTREAM_API_KEY is set
+    connectAISStream();
   });
 }
 
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+import type { StoredAlertZone } from "./db";
+
+// In-memory stand-in for the alert_zones table and the notification service
+const store = vi.hoisted(() => ({ zones: [] as StoredAlertZone[], nextId: 1, notified: [] as Array<{ title: string }> }));
+
+vi.mock("./db", () => ({
+  getAlertZones: async (userId?: number) => store.zones.filter((z) => userId === undefined || z.userId === userId),
+  addAlertZone: async (userId: number, zone: Omit<StoredAlertZone, "id" | "userId">) => {
+    const id = store.nextId++;
+    store.zones.push({ ...zone, id, userId });
+    return id;
+  },
+  removeAlertZone: async (userId: number, id: number) => {
+    const before = store.zones.length;
+    store.zones = store.zones.filter((z) => !(z.userId === userId && z.id === id));
+    return before - store.zones.length;
+  },
+}));
+
+vi.mock("./_core/notification", () => ({
+  notifyOwner: async (payload: { title: string }) => {
+    store.notified.push(payload);
+    return true;
+  },
+}));
+
+const { appRouter } = await import("./routers");
+const { inQuietHours, LightningAlerts, zoneBounds, zoneHit } = await import("./lightning-alerts");
+
+const T0 = Date.UTC(2026, 6, 1, 12);  // 12:00 UTC
+const MIN = 60_000;
+
+function zone(overrides: Partial<StoredAlertZone> = {}): StoredAlertZone {
+  return {
+    id: 1,
+    userId: 7,
+    name: "Office",
+    shape: { kind: "circle", center: { lat: 52.52, lon: 13.405 }, radiusKm: 50 },
+    notifyOwner: true,
+    quietHours: null,
+    ...overrides,
+  };
+}
+
+let seq = 0;
+const strike = (lat: number, lon: number, time = T0) => ({ lat, lon, time, id: `s${seq++}` });
+
+function createCtx(userId: number): TrpcContext {
+  return {
+    user: {
+      id: userId,
+      openId: `user-${userId}`,
+      email: "sample@example.com",
+      name: "Sample User",
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as unknown as TrpcContext["res"],
+  };
+}
+
+beforeEach(() => {
+  store.zones = [];
+  store.nextId = 1;
+  store.notified = [];
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ─── Geometry ─────────────────────────────────────────────────────────────────
+
+describe("alert zone geometry", () => {
+  it("measures circle hits from the center", () => {
+    const circle = zone().shape;
+    expect(zoneHit(circle, { lat: 52.52, lon: 13.9 })?.distanceKm).toBeCloseTo(33.5, 0);
+    expect(zoneHit(circle, { lat: 52.52, lon: 14.5 })).toBeNull();
+  });
+
+  it("tests polygons by ray casting", () => {
+    const square = { kind: "polygon" as const, ring: [[0, 0], [10, 0], [10, 10], [0, 10]] as Array<[number, number]> };
+    expect(zoneHit(square, { lat: 5, lon: 5 })).toEqual({ distanceKm: null });
+    expect(zoneHit(square, { lat: 5, lon: 11 })).toBeNull();
+  });
+
+  it("wraps circle bounds across the antimeridian and opens them near the poles", () => {
+    const pacific = zoneBounds({ kind: "circle", center: { lat: 0, lon: 179.9 }, radiusKm: 50 });
+    expect(pacific.west).toBeGreaterThan(pacific.east);
+    const polar = zoneBounds({ kind: "circle", center: { lat: 89.9, lon: 0 }, radiusKm: 50 });
+    expect(polar).toMatchObject({ west: -180, east: 180, north: 90 });
+  });
+
+  it("evaluates quiet hours in the zone's time zone, wrapping past midnight", () => {
+    const night = { start: 22 * 60, end: 7 * 60, timeZone: "Asia/Tokyo" };
+    expect(inQuietHours(night, T0)).toBe(false);                 // 21:00 in Tokyo
+    expect(inQuietHours(night, T0 + 90 * MIN)).toBe(true);       // 22:30
+    expect(inQuietHours({ ...night, timeZone: "UTC" }, T0)).toBe(false);
+  });
+});
+
+// ─── Alerts ───────────────────────────────────────────────────────────────────
+
+describe("LightningAlerts", () => {
+  it("raises one alert per cooldown and counts the strikes in between", () => {
+    let now = T0;
+    const alerts = new LightningAlerts(() => now);
+    alerts.setZones([zone()]);
+
+    expect(alerts.check(strike(52.6, 13.4))).toHaveLength(1);
+    now += MIN;
+    expect(alerts.check(strike(52.5, 13.5))).toHaveLength(0);
+    expect(alerts.check(strike(40, 0))).toHaveLength(0);
+    now += 10 * MIN;
+    const [next] = alerts.check(strike(52.5, 13.3));
+    expect(next?.strikeCount).toBe(2);
+    expect(alerts.eventsSince(7, 0)).toHaveLength(2);
+    expect(alerts.eventsSince(7, T0)).toEqual([next]);
+    expect(alerts.eventsSince(8, 0)).toEqual([]);
+  });
+
+  it("holds owner notifications during quiet hours and past the hourly budget", async () => {
+    let now = T0;
+    const alerts = new LightningAlerts(() => now);
+    alerts.setZones([
+      zone(),
+      zone({ id: 2, quietHours: { start: 11 * 60, end: 13 * 60, timeZone: "UTC" } }),
+      zone({ id: 3, notifyOwner: false }),
+    ]);
+    alerts.check(strike(52.52, 13.405));
+    await Promise.resolve();
+    expect(store.notified.map((n) => n.title)).toEqual(["Lightning in Office"]);
+
+    // One zone alone is held to one alert per cooldown; many zones share the budget
+    alerts.setZones(Array.from({ length: 20 }, (_, i) => zone({ id: 100 + i })));
+    alerts.check(strike(52.52, 13.405));
+    await Promise.resolve();
+    expect(store.notified).toHaveLength(12);
+    now += 61 * MIN;
+    alerts.check(strike(52.52, 13.405));
+    await Promise.resolve();
+    expect(store.notified).toHaveLength(24);
+  });
+});
+
+// ─── Router ───────────────────────────────────────────────────────────────────
+
+describe("alerts router", () => {
+  it("adds, lists and removes a user's zones", async () => {
+    const caller = appRouter.createCaller(createCtx(7));
+    const added = await caller.alerts.addZone({
+      name: "Office",
+      shape: { kind: "circle", center: { lat: 52.52, lon: 13.405 }, radiusKm: 50 },
+    });
+    expect(added).toEqual({ success: true, id: 1 });
+    expect(await caller.alerts.zones()).toMatchObject([{ name: "Office", notifyOwner: true, quietHours: null }]);
+    expect(await appRouter.createCaller(createCtx(8)).alerts.zones()).toEqual([]);
+
+    await expect(appRouter.createCaller(createCtx(8)).alerts.removeZone({ id: 1 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(await caller.alerts.removeZone({ id: 1 })).toEqual({ success: true });
+    expect(await caller.alerts.zones()).toEqual([]);
+    await expect(caller.alerts.removeZone({ id: 1 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("rejects bad shapes, unknown time zones and too many zones", async () => {
+    const caller = appRouter.createCaller(createCtx(7));
+    const circle = { kind: "circle" as const, center: { lat: 0, lon: 0 }, radiusKm: 10 };
+    await expect(caller.alerts.addZone({ name: "Huge", shape: { ...circle, radiusKm: 5000 } })).rejects.toThrow();
+    await expect(caller.alerts.addZone({ name: "Line", shape: { kind: "polygon", ring: [[0, 0], [1, 1]] } })).rejects.toThrow();
+    await expect(caller.alerts.addZone({
+      name: "Mars", shape: circle, quietHours: { start: 0, end: 60, timeZone: "Mars/Olympus" },
+    })).rejects.toThrow(/time zone/);
+
+    for (let i = 0; i < 10; i++) await caller.alerts.addZone({ name: `Z${i}`, shape: circle });
+    expect(await caller.alerts.addZone({ name: "One more", shape: circle })).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Blitzortung Connection Health
+ *
+ * Bookkeeping behind the live source's failover (lightning-source.ts):
+ *
+ * - Server choice: each server keeps a score, an exponentially weighted
+ *   average of its recent sessions (1 for a session that delivered messages,
+ *   0 for one that errored, closed before its first message or stalled).
+ *   Unknown servers start at 1. The highest score wins; ties go to the server
+ *   tried least recently, so equal servers are rotated.
+ * - Backoff: reconnects wait 1 s doubling to 60 s, scaled by a random 50–100%
+ *   so many dashboards do not reconnect in lockstep. A session that delivers
+ *   a message resets it.
+ * - Stalls: a connection that goes 30 s without a message counts as a failed
+ *   session and is dropped, and the next server is tried.
+ * - Rates: messages, and how many decoded to strikes, over the last minute.
+ */
+
+const SCORE_WEIGHT = 0.3;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60_000;
+export const STALL_TIMEOUT_MS = 30_000;
+const RATE_WINDOW_S = 60;
+
+export type BlitzortungState = "stopped" | "connecting" | "connected" | "backoff";
+
+export interface BlitzortungServerHealth {
+  url: string;
+  score: number;
+  sessions: number;
+  failures: number;
+  stalls: number;
+  lastAttemptAt: number | null;
+  lastMessageAt: number | null;
+  lastError: string | null;
+}
+
+export interface BlitzortungHealthSnapshot {
+  state: BlitzortungState;
+  server: string | null;
+  connectedSince: number | null;
+  lastMessageAt: number | null;
+  nextRetryAt: number | null;
+  reconnects: number;
+  messagesPerMinute: number;
+  strikesPerMinute: number;
+  rejectedPerMinute: number;    // frames that were not valid strikes
+  servers: BlitzortungServerHealth[];
+}
+
+/** Counts per second over a sliding one-minute window. */
+class RateMeter {
+  private buckets = new Array<number>(RATE_WINDOW_S).fill(0);
+  private second = 0;
+
+  constructor(private readonly now: () => number) {}
+
+  add() {
+    this.advance();
+    this.buckets[this.second % RATE_WINDOW_S]!++;
+  }
+
+  perMinute(): number {
+    this.advance();
+    return this.buckets.reduce((a, b) => a + b, 0);
+  }
+
+  // Zero the buckets for the seconds that passed since the last call
+  private advance() {
+    const second = Math.floor(this.now() / 1000);
+    for (let s = Math.max(this.second + 1, second - RATE_WINDOW_S + 1); s <= second; s++) {
+      this.buckets[s % RATE_WINDOW_S] = 0;
+    }
+    this.second = Math.max(this.second, second);
+  }
+}
+
+export class BlitzortungHealth {
+  private servers: BlitzortungServerHealth[];
+  private current: BlitzortungServerHealth | null = null;
+  private state: BlitzortungState = "stopped";
+  private connectedSince: number | null = null;
+  private sessionHasMessages = false;
+  private consecutiveFailures = 0;
+  private nextRetryAt: number | null = null;
+  private reconnects = 0;
+  private messages: RateMeter;
+  private strikes: RateMeter;
+  private rejected: RateMeter;
+
+  constructor(
+    urls: string[],
+    private readonly now: () => number = Date.now,
+    private readonly random: () => number = Math.random
+  ) {
+    this.servers = urls.map((url) => ({
+      url, score: 1, sessions: 0, failures: 0, stalls: 0, lastAttemptAt: null, lastMessageAt: null, lastError: null,
+    }));
+    this.messages = new RateMeter(now);
+    this.strikes = new RateMeter(now);
+    this.rejected = new RateMeter(now);
+  }
+
+  /** Choose the server for the next attempt and mark the attempt as started. */
+  pickServer(): string {
+    const best = [...this.servers].sort(
+      (a, b) => b.score - a.score || (a.lastAttemptAt ?? -Infinity) - (b.lastAttemptAt ?? -Infinity)
+    )[0]!;
+    if (this.state !== "stopped") this.reconnects++;
+    best.lastAttemptAt = this.now();
+    this.current = best;
+    this.state = "connecting";
+    this.connectedSince = null;
+    this.sessionHasMessages = false;
+    this.nextRetryAt = null;
+    return best.url;
+  }
+
+  opened() {
+    this.state = "connected";
+    this.connectedSince = this.now();
+  }
+
+  message(isStrike: boolean) {
+    const now = this.now();
+    this.messages.add();
+    if (isStrike) this.strikes.add();
+    else this.rejected.add();
+    if (this.current) this.current.lastMessageAt = now;
+    if (!this.sessionHasMessages) {
+      this.sessionHasMessages = true;
+      this.consecutiveFailures = 0;
+    }
+  }
+
+  /** True once an open connection has gone STALL_TIMEOUT_MS without a message. */
+  isStalled(): boolean {
+    if (this.state !== "connected" || this.connectedSince === null) return false;
+    const last = Math.max(this.connectedSince, this.current?.lastMessageAt ?? 0);
+    return this.now() - last >= STALL_TIMEOUT_MS;
+  }
+
+  /**
+   * The session ended; scores it and returns how long to wait before the
+   * next attempt. `reason` is recorded as the server's last error.
+   */
+  closed(reason: string | null, stalled = false): number {
+    const server = this.current;
+    const ok = this.sessionHasMessages && !stalled;
+    if (server) {
+      server.sessions++;
+      server.score = (1 - SCORE_WEIGHT) * server.score + SCORE_WEIGHT * (ok ? 1 : 0);
+      if (!ok) server.failures++;
+      if (stalled) server.stalls++;
+      if (reason) server.lastError = reason;
+    }
+    if (!ok) this.consecutiveFailures++;
+
+    const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** this.consecutiveFailures);
+    const delay = Math.round(ceiling * (0.5 + this.random() * 0.5));
+    this.current = null;
+    this.state = "backoff";
+    this.connectedSince = null;
+    this.nextRetryAt = this.now() + delay;
+    return delay;
+  }
+
+  stopped() {
+    this.current = null;
+    this.state = "stopped";
+    this.connectedSince = null;
+    this.nextRetryAt = null;
+  }
+
+  snapshot(): BlitzortungHealthSnapshot {
+    const lastMessageAt = this.servers.reduce<number | null>(
+      (latest, s) => (s.lastMessageAt !== null && (latest === null || s.lastMessageAt > latest) ? s.lastMessageAt : latest),
+      null
+    );
+    return {
+      state: this.state,
+      server: this.current?.url ?? null,
+      connectedSince: this.connectedSince,
+      lastMessageAt,
+      nextRetryAt: this.nextRetryAt,
+      reconnects: this.reconnects,
+      messagesPerMinute: this.messages.perMinute(),
+      strikesPerMinute: this.strikes.perMinute(),
+      rejectedPerMinute: this.rejected.perMinute(),
+      servers: this.servers.map((s) => ({ ...s, score: Number(s.score.toFixed(3)) })),
+    };
+  }
+}
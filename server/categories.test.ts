@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { classifySatellite, SATELLITE_CATEGORIES, SATELLITE_CATEGORY_INFO, satelliteOwner } from "@shared/satellites";
+import fs from "fs";
+import { DEFAULT_TLE_FILE, OrbitCatalog } from "./orbit-propagator";
+
+// ─── Name / NORAD Rules ───────────────────────────────────────────────────────
+
+describe("classifySatellite", () => {
+  it("classifies constellations by name", () => {
+    expect(classifySatellite({ id: 44713, name: "STARLINK-1007" })).toBe("starlink");
+    expect(classifySatellite({ id: 44057, name: "ONEWEB-0012" })).toBe("oneweb");
+    expect(classifySatellite({ id: 48859, name: "GPS BIIIA-5 (PRN 11)" })).toBe("gps");
+    expect(classifySatellite({ id: 41859, name: "GSAT0207 (GALILEO 15)" })).toBe("galileo");
+    expect(classifySatellite({ id: 54377, name: "COSMOS 2559 (GLONASS-K1)" })).toBe("glonass");
+    expect(classifySatellite({ id: 41917, name: "IRIDIUM 106" })).toBe("iridium");
+    expect(classifySatellite({ id: 43689, name: "METOP-C" })).toBe("weather");
+    expect(classifySatellite({ id: 33591, name: "NOAA 19" })).toBe("weather");
+  });
+
+  it("recognises stations by NORAD ID regardless of name", () => {
+    expect(classifySatellite({ id: 25544, name: "ISS (ZARYA)" })).toBe("station");
+    expect(classifySatellite({ id: 48274, name: "CSS (TIANHE)" })).toBe("station");
+    expect(classifySatellite({ id: 25544, name: "25544" })).toBe("station");
+  });
+
+  it("puts debris and rocket bodies ahead of the parent constellation", () => {
+    expect(classifySatellite({ id: 33774, name: "IRIDIUM 33 DEB" })).toBe("debris");
+    expect(classifySatellite({ id: 39000, name: "TIANGONG-1 DEB" })).toBe("debris");
+    expect(classifySatellite({ id: 22285, name: "SL-16 R/B" })).toBe("rocket-body");
+    expect(classifySatellite({ id: 33774, name: "IRIDIUM 33 DEB", n2yoCategoryId: 15 })).toBe("debris");
+  });
+
+  it("uses the N2YO category when the name is not recognised", () => {
+    expect(classifySatellite({ id: 99999, name: "OBJECT A", n2yoCategoryId: 52 })).toBe("starlink");
+    expect(classifySatellite({ id: 99999, name: "OBJECT A", n2yoCategoryId: 0 })).toBe("other");
+    expect(classifySatellite({ id: 99999, name: "OBJECT A" })).toBe("other");
+  });
+
+  it("has display info for every category", () => {
+    for (const c of SATELLITE_CATEGORIES) {
+      expect(SATELLITE_CATEGORY_INFO[c].label).toBeTruthy();
+      expect(SATELLITE_CATEGORY_INFO[c].color).toMatch(/^#[0-9A-F]{6}$/i);
+    }
+  });
+
+  it("classifies every object in the bundled fixture", () => {
+    const catalog = new OrbitCatalog();
+    catalog.loadFrom(fs.readFileSync(DEFAULT_TLE_FILE, "utf8"));
+    const counts = new Map<string, number>();
+    for (const obj of catalog.getAll()) {
+      const c = classifySatellite(obj);
+      counts.set(c, (counts.get(c) ?? 0) + 1);
+    }
+    expect(counts.get("starlink")).toBe(10);
+    expect(counts.get("debris")).toBe(4);
+    expect(counts.get("rocket-body")).toBe(2);
+    expect(counts.get("station")).toBe(2);
+  });
+});
+
+// ─── Owner Rules ──────────────────────────────────────────────────────────────
+
+describe("satelliteOwner", () => {
+  it("infers operators and countries from well-known names", () => {
+    expect(satelliteOwner({ id: 25544, name: "ISS (ZARYA)" })).toBe("International (ISS partners)");
+    expect(satelliteOwner({ id: 48274, name: "CSS (TIANHE)" })).toBe("China");
+    expect(satelliteOwner({ id: 44713, name: "STARLINK-1007" })).toBe("SpaceX (United States)");
+    expect(satelliteOwner({ id: 54377, name: "COSMOS 2559 (GLONASS-K1)" })).toBe("Russia");
+    expect(satelliteOwner({ id: 43689, name: "METOP-C" })).toBe("EUMETSAT");
+    expect(satelliteOwner({ id: 22285, name: "SL-16 R/B" })).toBe("Russia");
+  });
+
+  it("returns null for unknown objects", () => {
+    expect(satelliteOwner({ id: 99999, name: "OBJECT A" })).toBeNull();
+  });
+});
@@ -1,7 +1,9 @@
-import { eq } from "drizzle-orm";
+import { and, asc, eq, gt, gte, lt, lte, or, type SQL } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users } from "../drizzle/schema";
+import { AlertZoneRow, alertZones, InsertUser, lightningStrikes, LightningStrikeRow, users, watchlist, WatchlistEntry } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import type { AlertZone } from "@shared/alerts";
+import type { LightningStrike } from "./lightning-store";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -89,4 +91,189 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function getWatchlist(userId: number): Promise<WatchlistEntry[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get watchlist: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(watchlist)
+    .where(eq(watchlist.userId, userId))
+    .orderBy(asc(watchlist.createdAt), asc(watchlist.id));
+}
+
+/** Returns false when the database is unavailable. Re-adding updates the label. */
+export async function addWatchlistEntry(userId: number, noradId: number, label: string | null): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot add watchlist entry: database not available");
+    return false;
+  }
+
+  await db
+    .insert(watchlist)
+    .values({ userId, noradId, label })
+    .onDuplicateKeyUpdate({ set: { label } });
+  return true;
+}
+
+/** Returns the number of entries removed, or null when the database is unavailable. */
+export async function removeWatchlistEntry(userId: number, noradId: number): Promise<number | null> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot remove watchlist entry: database not available");
+    return null;
+  }
+
+  const [result] = await db
+    .delete(watchlist)
+    .where(and(eq(watchlist.userId, userId), eq(watchlist.noradId, noradId)));
+  return result.affectedRows;
+}
+
+/**
+ * Returns false when the database is unavailable. Called every few seconds by
+ * the lightning store, so a missing database is not logged here.
+ */
+export async function insertLightningStrikes(strikes: LightningStrike[]): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  if (strikes.length === 0) return true;
+
+  await db.insert(lightningStrikes).values(strikes.map((s) => ({
+    strikeId: s.id, time: s.time, lat: s.lat, lon: s.lon,
+    alt: s.alt ?? null, polarity: s.polarity ?? null, mds: s.mds ?? null, mcg: s.mcg ?? null,
+    delay: s.delay ?? null, region: s.region ?? null, stations: s.stations ?? null,
+  })));
+  return true;
+}
+
+// Null metadata columns are left off rather than returned as null
+function toLightningStrike(row: LightningStrikeRow): LightningStrike {
+  const { id: _id, strikeId, ...rest } = row;
+  const strike: LightningStrike = { id: strikeId, time: row.time, lat: row.lat, lon: row.lon };
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== null) Object.assign(strike, { [key]: value });
+  }
+  return strike;
+}
+
+/**
+ * Strikes in [from, to] ordered by (time, strikeId), starting after `after`.
+ * A bounding box with west > east wraps across the antimeridian.
+ */
+export async function getLightningStrikesInRange(query: {
+  from: number;
+  to: number;
+  bbox?: { south: number; west: number; north: number; east: number };
+  after: { time: number; id: string } | null;
+  limit: number;
+}): Promise<LightningStrike[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get lightning strikes: database not available");
+    return [];
+  }
+
+  const conditions: Array<SQL | undefined> = [gte(lightningStrikes.time, query.from), lte(lightningStrikes.time, query.to)];
+  if (query.after) {
+    conditions.push(or(
+      gt(lightningStrikes.time, query.after.time),
+      and(eq(lightningStrikes.time, query.after.time), gt(lightningStrikes.strikeId, query.after.id))
+    ));
+  }
+  const { bbox } = query;
+  if (bbox) {
+    conditions.push(gte(lightningStrikes.lat, bbox.south), lte(lightningStrikes.lat, bbox.north));
+    conditions.push(bbox.west <= bbox.east
+      ? and(gte(lightningStrikes.lon, bbox.west), lte(lightningStrikes.lon, bbox.east))
+      : or(gte(lightningStrikes.lon, bbox.west), lte(lightningStrikes.lon, bbox.east)));
+  }
+
+  const rows = await db
+    .select()
+    .from(lightningStrikes)
+    .where(and(...conditions))
+    .orderBy(asc(lightningStrikes.time), asc(lightningStrikes.strikeId))
+    .limit(query.limit);
+  return rows.map(toLightningStrike);
+}
+
+/** Deletes strikes older than `before` (epoch ms). Returns the number removed. */
+export async function deleteLightningStrikesBefore(before: number): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const [result] = await db.delete(lightningStrikes).where(lt(lightningStrikes.time, before));
+  return result.affectedRows;
+}
+
+export type StoredAlertZone = AlertZone & { userId: number };
+
+function toAlertZone(row: AlertZoneRow): StoredAlertZone {
+  const shape: AlertZone["shape"] = row.kind === "circle"
+    ? { kind: "circle", center: { lat: row.centerLat ?? 0, lon: row.centerLon ?? 0 }, radiusKm: row.radiusKm ?? 0 }
+    : { kind: "polygon", ring: row.polygon ?? [] };
+  const quietHours = row.quietStart != null && row.quietEnd != null
+    ? { start: row.quietStart, end: row.quietEnd, timeZone: row.timeZone }
+    : null;
+  return { id: row.id, userId: row.userId, name: row.name, shape, notifyOwner: row.notifyOwner, quietHours };
+}
+
+/** A user's alert zones, or every user's when `userId` is omitted. */
+export async function getAlertZones(userId?: number): Promise<StoredAlertZone[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get alert zones: database not available");
+    return [];
+  }
+
+  const rows = await db
+    .select()
+    .from(alertZones)
+    .where(userId === undefined ? undefined : eq(alertZones.userId, userId))
+    .orderBy(asc(alertZones.createdAt), asc(alertZones.id));
+  return rows.map(toAlertZone);
+}
+
+/** Returns the new zone's id, or null when the database is unavailable. */
+export async function addAlertZone(userId: number, zone: Omit<AlertZone, "id">): Promise<number | null> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot add alert zone: database not available");
+    return null;
+  }
+
+  const { shape, quietHours } = zone;
+  const [result] = await db.insert(alertZones).values({
+    userId,
+    name: zone.name,
+    kind: shape.kind,
+    centerLat: shape.kind === "circle" ? shape.center.lat : null,
+    centerLon: shape.kind === "circle" ? shape.center.lon : null,
+    radiusKm: shape.kind === "circle" ? shape.radiusKm : null,
+    polygon: shape.kind === "polygon" ? shape.ring : null,
+    notifyOwner: zone.notifyOwner,
+    quietStart: quietHours?.start ?? null,
+    quietEnd: quietHours?.end ?? null,
+    timeZone: quietHours?.timeZone ?? "UTC",
+  });
+  return result.insertId;
+}
+
+/** Returns the number of zones removed, or null when the database is unavailable. */
+export async function removeAlertZone(userId: number, zoneId: number): Promise<number | null> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot remove alert zone: database not available");
+    return null;
+  }
+
+  const [result] = await db.delete(alertZones).where(and(eq(alertZones.userId, userId), eq(alertZones.id, zoneId)));
+  return result.affectedRows;
+}
+
 // TODO: add feature queries here as your schema grows.
@@ -1,5 +1,6 @@
 import { describe, expect, it, vi, beforeEach } from "vitest";
-import { appRouter, lightningStore } from "./routers";
+import { appRouter } from "./routers";
+import { lightningStore } from "./lightning-store";
 import type { TrpcContext } from "./_core/context";
 
 function createCtx(): TrpcContext {
@@ -53,24 +54,35 @@ describe("lightning.recent", () => {
 
 // ─── Satellites Router Tests ──────────────────────────────────────────────────
 
-describe("satellites.tracked (no API key)", () => {
-  it("returns available: false when N2YO_API_KEY is not set", async () => {
+describe("satellites.tracked (SATELLITE_PROVIDER=n2yo, no API key)", () => {
+  function withN2yoNoKey() {
     const originalKey = process.env.N2YO_API_KEY;
+    const originalProvider = process.env.SATELLITE_PROVIDER;
     delete process.env.N2YO_API_KEY;
+    process.env.SATELLITE_PROVIDER = "n2yo";
+    return () => {
+      if (originalKey) process.env.N2YO_API_KEY = originalKey;
+      if (originalProvider) process.env.SATELLITE_PROVIDER = originalProvider;
+      else delete process.env.SATELLITE_PROVIDER;
+    };
+  }
+
+  it("returns available: false when N2YO_API_KEY is not set", async () => {
+    const restore = withN2yoNoKey();
 
     const ctx = createCtx();
     const caller = appRouter.createCaller(ctx);
     const result = await caller.satellites.tracked();
 
     expect(result.available).toBe(false);
+    expect(result.source).toBe("n2yo");
     expect(result.satellites).toEqual([]);
 
-    if (originalKey) process.env.N2YO_API_KEY = originalKey;
+    restore();
   });
 
   it("returns available: false and empty array when N2YO_API_KEY is not set (tracked)", async () => {
-    const originalKey = process.env.N2YO_API_KEY;
-    delete process.env.N2YO_API_KEY;
+    const restore = withN2yoNoKey();
 
     const ctx = createCtx();
     const caller = appRouter.createCaller(ctx);
@@ -80,7 +92,7 @@ describe("satellites.tracked (no API key)", () => {
     expect(Array.isArray(result.satellites)).toBe(true);
     expect(result.satellites.length).toBe(0);
 
-    if (originalKey) process.env.N2YO_API_KEY = originalKey;
+    restore();
   });
 });
 
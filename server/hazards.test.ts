@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import { VesselHazards } from "./vessel-hazards";
+import type { StormCell } from "@shared/storms";
+import type { VesselPoint } from "@shared/vessels";
+import type { TrpcContext } from "./_core/context";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+const T0 = Date.UTC(2026, 6, 1, 12);
+const MIN = 60_000;
+const KM_LON = 111.2;  // km per degree of longitude at the equator
+
+const ship = (overrides: Partial<VesselPoint> = {}): VesselPoint => ({
+  mmsi: "244660000", name: "TEST SHIP", lat: 0, lon: 0, cog: 0, sog: 0, heading: 0, time: T0, category: "cargo", ...overrides,
+});
+
+const cell = (overrides: Partial<StormCell> = {}): StormCell => ({
+  id: "c1", centroid: { lat: 0, lon: 1 }, polygon: [], radiusKm: 30, strikeCount: 40, ratePerMin: 5,
+  velocity: null, firstSeen: T0 - 10 * MIN, lastStrikeAt: T0, ...overrides,
+});
+
+describe("VesselHazards", () => {
+  it("flags ships near recent strikes and ignores old ones", () => {
+    let now = T0;
+    const hazards = new VesselHazards(() => now);
+    hazards.addStrike({ lat: 0, lon: 10 / KM_LON, time: T0 - 11 * MIN });  // outside the 10-minute window
+    expect(hazards.check([ship()], [])).toEqual([]);
+
+    hazards.addStrike({ lat: 0, lon: 10 / KM_LON, time: T0 });
+    hazards.addStrike({ lat: 0, lon: -15 / KM_LON, time: T0 });
+    hazards.addStrike({ lat: 0, lon: 40 / KM_LON, time: T0 });  // beyond the default 20 km
+    const [event] = hazards.check([ship()], []);
+    expect(event).toMatchObject({ kind: "entered", mmsi: "244660000", source: "strikes", distanceKm: 10 });
+    expect(hazards.atRisk()).toMatchObject({ radiusKm: 20, vessels: [{ strikeCount: 2, cellId: null, since: T0 }] });
+
+    // Strikes age out, but the ship stays flagged for five more minutes
+    now += 9 * MIN;
+    expect(hazards.check([ship({ time: now })], [])).toEqual([]);
+    now += 2 * MIN;
+    expect(hazards.check([ship({ time: now })], [])).toEqual([]);
+    expect(hazards.atRisk().vessels).toHaveLength(1);
+    now += 3 * MIN;
+    expect(hazards.check([ship({ time: now })], [])).toEqual([expect.objectContaining({ kind: "cleared", distanceKm: null })]);
+    expect(hazards.atRisk().vessels).toEqual([]);
+    expect(hazards.eventsSince(T0 - 1).map((e) => e.kind)).toEqual(["entered", "cleared"]);
+  });
+
+  it("measures storm cells from their edge and checks dead-reckoned positions", () => {
+    const hazards = new VesselHazards(() => T0 + 15 * MIN);
+    // Reported 25 km outside the cell's 30 km edge, then 20 kn due east for 15 minutes ≈ 9.3 km
+    const moving = ship({ lon: 1 - 55 / KM_LON, cog: 90, sog: 20 });
+    const [event] = hazards.check([moving], [cell()]);
+    expect(event).toMatchObject({ kind: "entered", source: "cell", distanceKm: 15.7 });
+    expect(hazards.atRisk().vessels[0]).toMatchObject({ cellId: "c1", strikeCount: 0 });
+    expect(hazards.check([{ ...moving, sog: 0 }], [cell({ id: "c2" })])).toEqual([]);  // still flagged, no new event
+  });
+
+  it("reads the radius from the environment", () => {
+    vi.stubEnv("VESSEL_HAZARD_RADIUS_KM", "5");
+    const hazards = new VesselHazards(() => T0);
+    hazards.addStrike({ lat: 0, lon: 10 / KM_LON, time: T0 });
+    expect(hazards.check([ship()], [cell({ centroid: { lat: 0, lon: 34 / KM_LON } })])).toMatchObject([
+      { source: "cell", distanceKm: 4 },
+    ]);
+    expect(hazards.atRisk().radiusKm).toBe(5);
+
+    vi.stubEnv("VESSEL_HAZARD_RADIUS_KM", "5000");
+    expect(hazards.atRisk().radiusKm).toBe(100);
+  });
+});
+
+describe("vessels hazard procedures", () => {
+  it("lists ships at risk and hazard events", async () => {
+    const caller = appRouter.createCaller({
+      user: null,
+      req: { protocol: "https", headers: {} } as TrpcContext["req"],
+      res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+    });
+    expect(await caller.vessels.atRisk()).toMatchObject({ radiusKm: 20, vessels: [] });
+    expect(await caller.vessels.hazardEvents({ since: 0 })).toMatchObject({ events: [] });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Lightning Alerts
+ *
+ * Checks every incoming strike against the users' alert zones
+ * (shared/alerts.ts). A zone raises at most one alert per cooldown; strikes
+ * that land during the cooldown are counted into the next alert instead of
+ * raising their own. Alerts are kept per user for the dashboard to poll
+ * (`alerts.events`, shown as toasts) and, for zones that opt in, forwarded to
+ * the project owner with notifyOwner — unless the zone is in its quiet hours
+ * or the hourly owner-notification budget is spent.
+ *
+ * Zones are loaded from the database on start, after every change and every
+ * few minutes. Polygon zones are tested on a plain lon/lat grid, so they must
+ * not cross the antimeridian.
+ */
+
+import { nanoid } from "nanoid";
+import type { AlertZone, AlertZoneShape, LightningAlert, QuietHours } from "@shared/alerts";
+import { notifyOwner } from "./_core/notification";
+import { getAlertZones, type StoredAlertZone } from "./db";
+import { inBoundingBox, type BoundingBox, type LightningStrike } from "./lightning-store";
+import { distanceKm } from "./storm-cells";
+
+const ALERT_COOLDOWN_MS = 10 * 60 * 1000;
+const MAX_EVENTS_PER_USER = 50;
+const MAX_OWNER_NOTIFICATIONS_PER_HOUR = 12;
+const RELOAD_INTERVAL_MS = 5 * 60 * 1000;
+const KM_PER_DEGREE = 111.2;
+
+// ─── Geometry ─────────────────────────────────────────────────────────────────
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const wrapLon = (lon: number) => ((((lon + 180) % 360) + 360) % 360) - 180;
+
+/** Box around a zone, so most strikes are rejected without any trigonometry. */
+export function zoneBounds(shape: AlertZoneShape): BoundingBox {
+  if (shape.kind === "polygon") {
+    const lons = shape.ring.map(([lon]) => lon);
+    const lats = shape.ring.map(([, lat]) => lat);
+    return { south: Math.min(...lats), west: Math.min(...lons), north: Math.max(...lats), east: Math.max(...lons) };
+  }
+  const { center, radiusKm } = shape;
+  const dLat = radiusKm / KM_PER_DEGREE;
+  const south = Math.max(-90, center.lat - dLat);
+  const north = Math.min(90, center.lat + dLat);
+  // Longitude degrees shrink towards the poles; size the box for the widest latitude
+  const dLon = dLat / Math.cos(toRad(Math.max(Math.abs(south), Math.abs(north))));
+  if (!Number.isFinite(dLon) || dLon >= 180) return { south, west: -180, north, east: 180 };
+  return { south, west: wrapLon(center.lon - dLon), north, east: wrapLon(center.lon + dLon) };
+}
+
+// Ray casting; the ring may be open or closed
+function inPolygon(p: { lat: number; lon: number }, ring: Array<[number, number]>): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]!;
+    const [xj, yj] = ring[j]!;
+    if (yi > p.lat !== yj > p.lat && p.lon < ((xj - xi) * (p.lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Whether the point lies in the zone. Circle hits report their distance from
+ * the center; polygon hits report null.
+ */
+export function zoneHit(shape: AlertZoneShape, p: { lat: number; lon: number }): { distanceKm: number | null } | null {
+  if (shape.kind === "polygon") return inPolygon(p, shape.ring) ? { distanceKm: null } : null;
+  const d = distanceKm(shape.center, p);
+  return d <= shape.radiusKm ? { distanceKm: d } : null;
+}
+
+/** Whether `time` falls inside the quiet window, in the window's own time zone. */
+export function inQuietHours(quiet: QuietHours, time: number): boolean {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: quiet.timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23",
+  }).formatToParts(time);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const minute = part("hour") * 60 + part("minute");
+  return quiet.start <= quiet.end
+    ? minute >= quiet.start && minute < quiet.end
+    : minute >= quiet.start || minute < quiet.end;
+}
+
+export function formatAlert(zone: Pick<AlertZone, "name">, alert: LightningAlert): { title: string; content: string } {
+  const { strike } = alert;
+  const where = `${strike.lat.toFixed(3)}°, ${strike.lon.toFixed(3)}°`;
+  const distance = alert.distanceKm != null ? ` (${alert.distanceKm.toFixed(1)} km from the center)` : "";
+  const count = alert.strikeCount === 1 ? "1 strike" : `${alert.strikeCount} strikes`;
+  return {
+    title: `Lightning in ${zone.name}`,
+    content: `${count} since the last alert. Latest at ${where}${distance}, ${new Date(strike.time).toISOString()}.`,
+  };
+}
+
+// ─── Alerts ───────────────────────────────────────────────────────────────────
+
+interface ZoneState {
+  lastAlertAt: number;
+  pending: number;  // strikes since lastAlertAt that raised no alert
+}
+
+export class LightningAlerts {
+  private zones: Array<{ zone: StoredAlertZone; bounds: BoundingBox }> = [];
+  private state = new Map<number, ZoneState>();
+  private events = new Map<number, LightningAlert[]>();  // per user, oldest first
+  private ownerSent: number[] = [];                      // owner notification times in the last hour
+  private notifyFailed = false;
+  private reloadTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  start() {
+    if (this.reloadTimer) return;
+    void this.reload();
+    this.reloadTimer = setInterval(() => void this.reload(), RELOAD_INTERVAL_MS);
+    this.reloadTimer.unref?.();
+  }
+
+  async reload() {
+    try {
+      this.setZones(await getAlertZones());
+    } catch (err) {
+      console.error("[Alerts] Failed to load alert zones:", err);
+    }
+  }
+
+  setZones(zones: StoredAlertZone[]) {
+    this.zones = zones.map((zone) => ({ zone, bounds: zoneBounds(zone.shape) }));
+    const ids = new Set(zones.map((z) => z.id));
+    this.state.forEach((_, id) => {
+      if (!ids.has(id)) this.state.delete(id);
+    });
+  }
+
+  /** Evaluate one strike; returns the alerts it raised. */
+  check(strike: LightningStrike): LightningAlert[] {
+    const raised: LightningAlert[] = [];
+    for (const { zone, bounds } of this.zones) {
+      if (!inBoundingBox(strike, bounds)) continue;
+      const hit = zoneHit(zone.shape, strike);
+      if (!hit) continue;
+
+      const now = this.now();
+      const state = this.state.get(zone.id);
+      if (state && now - state.lastAlertAt < ALERT_COOLDOWN_MS) {
+        state.pending++;
+        continue;
+      }
+      const alert: LightningAlert = {
+        id: nanoid(10),
+        zoneId: zone.id,
+        zoneName: zone.name,
+        time: now,
+        strike: { lat: strike.lat, lon: strike.lon, time: strike.time },
+        distanceKm: hit.distanceKm,
+        strikeCount: (state?.pending ?? 0) + 1,
+      };
+      this.state.set(zone.id, { lastAlertAt: now, pending: 0 });
+      this.record(zone.userId, alert);
+      if (zone.notifyOwner) this.notify(zone, alert);
+      raised.push(alert);
+    }
+    return raised;
+  }
+
+  /** The user's alerts raised after `since`, oldest first. */
+  eventsSince(userId: number, since: number): LightningAlert[] {
+    return (this.events.get(userId) ?? []).filter((a) => a.time > since);
+  }
+
+  private record(userId: number, alert: LightningAlert) {
+    const list = this.events.get(userId) ?? [];
+    list.push(alert);
+    this.events.set(userId, list.slice(-MAX_EVENTS_PER_USER));
+  }
+
+  private notify(zone: StoredAlertZone, alert: LightningAlert) {
+    const now = this.now();
+    if (zone.quietHours && inQuietHours(zone.quietHours, now)) return;
+    this.ownerSent = this.ownerSent.filter((t) => now - t < 60 * 60 * 1000);
+    if (this.ownerSent.length >= MAX_OWNER_NOTIFICATIONS_PER_HOUR) return;
+    this.ownerSent.push(now);
+
+    notifyOwner(formatAlert(zone, alert)).catch((err) => {
+      // Usually a missing notification service config; say so once, not per alert
+      if (this.notifyFailed) return;
+      this.notifyFailed = true;
+      console.warn("[Alerts] Owner notification failed:", err instanceof Error ? err.message : err);
+    });
+  }
+}
+
+export const lightningAlerts = new LightningAlerts();
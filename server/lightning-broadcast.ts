@@ -0,0 +1,287 @@
+/**
+ * Lightning Stream Fan-out
+ *
+ * Per-client delivery for /api/lightning/stream. Strikes are queued for each
+ * client and written in batched frames instead of one write per strike:
+ *
+ *   GET /api/lightning/stream?bbox=<west>,<south>,<east>,<north>&interval=<ms>&maxRate=<n>
+ *
+ * `bbox` keeps only strikes inside the box, and storm cells whose centroid is
+ * inside it (west > east crosses the antimeridian). `interval` is the minimum
+ * time between frames (default 250 ms). `maxRate` caps strikes per second;
+ * strikes over the cap are dropped, oldest first.
+ *
+ * Slow consumers: while a client's socket has more than 256 KB unsent, frames
+ * are held back. Its queue keeps the newest 2000 strikes and only the latest
+ * storm cell update, and the next frame reports how many strikes were dropped.
+ * A client that stays backed up for a minute is disconnected.
+ *
+ * Resume: strike frames carry an SSE id (`<epoch>.<seq>`, where epoch marks
+ * this server process). A browser reconnecting with `Last-Event-ID` gets the
+ * strikes it missed from the last 5000 instead of the recent-history message.
+ * If the id is from another process or too old, it gets history as usual.
+ *
+ * Messages:
+ *   { type: "connected", clientId, resumed }
+ *   { type: "history", strikes }        most recent 50 strikes, on a fresh connect
+ *   { type: "strikes", strikes, dropped } one frame; dropped counts strikes skipped since the last frame
+ *   { type: "cells", ... }              storm cell update (shared/storms.ts)
+ *   { type: "error", message }          bad parameters; stream closes
+ */
+
+import { nanoid } from "nanoid";
+import type { StormCell, StormCellsMessage } from "@shared/storms";
+import { inBoundingBox, type BoundingBox, type LightningStrike } from "./lightning-store";
+
+const TICK_MS = 100;
+const DEFAULT_INTERVAL_MS = 250;
+const MIN_INTERVAL_MS = TICK_MS;
+const MAX_INTERVAL_MS = 10_000;
+const MAX_RATE = 10_000;
+const HISTORY_SIZE = 50;
+const LOG_SIZE = 5000;
+const MAX_QUEUE = 2000;
+const MAX_BUFFERED_BYTES = 256 * 1024;
+const STALL_TIMEOUT_MS = 60_000;
+
+/** Messages on the stream; see the list above. */
+export type LightningStreamMessage =
+  | { type: "connected"; clientId: string; resumed: boolean }
+  | { type: "history"; strikes: LightningStrike[] }
+  | { type: "strikes"; strikes: LightningStrike[]; dropped: number }
+  | StormCellsMessage
+  | { type: "error"; message: string };
+
+export interface StreamParams {
+  bbox: BoundingBox | null;
+  interval: number;
+  maxRate: number | null;
+}
+
+/** Validate query parameters; returns an error message for bad input. */
+export function parseStreamParams(query: Record<string, unknown>): StreamParams | string {
+  const num = (key: string) => {
+    const raw = query[key];
+    if (raw === undefined || raw === "") return undefined;
+    const n = Number(raw);
+    return Number.isFinite(n) ? n : NaN;
+  };
+
+  let bbox: BoundingBox | null = null;
+  if (typeof query.bbox === "string" && query.bbox !== "") {
+    const parts = query.bbox.split(",").map(Number);
+    if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) {
+      return "bbox must be west,south,east,north";
+    }
+    const [west, south, east, north] = parts as [number, number, number, number];
+    if (south < -90 || north > 90 || south > north || Math.abs(west) > 180 || Math.abs(east) > 180) {
+      return "bbox is out of range";
+    }
+    bbox = { west, south, east, north };
+  }
+
+  const interval = num("interval") ?? DEFAULT_INTERVAL_MS;
+  if (Number.isNaN(interval) || interval < MIN_INTERVAL_MS || interval > MAX_INTERVAL_MS) {
+    return `interval must be between ${MIN_INTERVAL_MS} and ${MAX_INTERVAL_MS} ms`;
+  }
+
+  const maxRate = num("maxRate") ?? null;
+  if (maxRate !== null && (Number.isNaN(maxRate) || maxRate < 1 || maxRate > MAX_RATE)) {
+    return `maxRate must be between 1 and ${MAX_RATE} strikes per second`;
+  }
+  return { bbox, interval, maxRate };
+}
+
+// ─── Event IDs ────────────────────────────────────────────────────────────────
+
+// Distinguishes ids issued by this process from those of a previous run
+const EPOCH = Date.now().toString(36);
+
+export function encodeEventId(seq: number): string {
+  return `${EPOCH}.${seq}`;
+}
+
+/** Sequence number from an id issued by this process, or null. */
+export function decodeEventId(id: string | undefined): number | null {
+  if (!id) return null;
+  const [epoch, seq] = id.split(".");
+  const n = Number(seq);
+  return epoch === EPOCH && Number.isInteger(n) && n >= 0 ? n : null;
+}
+
+// ─── Hub ──────────────────────────────────────────────────────────────────────
+
+/** The part of an Express response the hub writes to. */
+export interface StreamClient {
+  write(chunk: string): unknown;
+  end(): unknown;
+  readonly writableLength: number;
+}
+
+interface ClientState {
+  client: StreamClient;
+  params: StreamParams;
+  queue: Array<{ seq: number; strike: LightningStrike }>;
+  cells: StormCellsMessage | null;   // latest update not yet sent; `removed` accumulates
+  dropped: number;
+  lastFrame: number;
+  tokens: number;                     // strikes allowed by maxRate, refilled per second
+  stalledSince: number | null;
+}
+
+export class LightningBroadcast {
+  private clients = new Map<string, ClientState>();
+  private log: Array<{ seq: number; strike: LightningStrike }> = [];
+  private seq = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Register a client and send its opening messages: a resume from
+   * `lastEventId` when possible, recent history otherwise, then the current
+   * storm cells. Returns the detach function.
+   */
+  attach(
+    client: StreamClient,
+    params: StreamParams,
+    opts: { lastEventId?: string; cells?: StormCell[]; id?: string } = {}
+  ): () => void {
+    const id = opts.id ?? nanoid();
+    const now = this.now();
+    const state: ClientState = {
+      client, params, queue: [], cells: null, dropped: 0, lastFrame: now, tokens: params.maxRate ?? 0, stalledSince: null,
+    };
+
+    const missed = this.since(decodeEventId(opts.lastEventId));
+    this.write(state, { type: "connected", clientId: id, resumed: missed !== null });
+    if (missed) {
+      for (const entry of missed) if (this.matches(params, entry.strike)) this.enqueue(state, entry);
+    } else {
+      const recent = this.log.filter((e) => this.matches(params, e.strike)).slice(-HISTORY_SIZE);
+      this.write(state, { type: "history", strikes: recent.map((e) => e.strike) }, this.seq);
+    }
+    if (opts.cells && opts.cells.length > 0) {
+      this.writeCells(state, { type: "cells", time: now, cells: opts.cells, removed: [] });
+    }
+
+    this.clients.set(id, state);
+    this.timer ??= setInterval(() => this.flush(), TICK_MS);
+    return () => this.detach(id);
+  }
+
+  detach(id: string) {
+    this.clients.delete(id);
+    if (this.clients.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  publishStrike(strike: LightningStrike) {
+    const entry = { seq: ++this.seq, strike };
+    this.log.push(entry);
+    // Trim in chunks rather than shifting on every strike
+    if (this.log.length > LOG_SIZE * 1.2) this.log.splice(0, this.log.length - LOG_SIZE);
+    this.clients.forEach((state) => {
+      if (this.matches(state.params, strike)) this.enqueue(state, entry);
+    });
+  }
+
+  publishCells(msg: StormCellsMessage) {
+    this.clients.forEach((state) => {
+      state.cells = state.cells
+        ? { ...msg, removed: Array.from(new Set([...state.cells.removed, ...msg.removed])) }
+        : msg;
+    });
+  }
+
+  /** Write a frame to every client that is due one and keeping up. Runs every 100 ms. */
+  flush() {
+    const now = this.now();
+    this.clients.forEach((state, id) => {
+      if (state.client.writableLength > MAX_BUFFERED_BYTES) {
+        state.stalledSince ??= now;
+        if (now - state.stalledSince >= STALL_TIMEOUT_MS) {
+          console.warn(`[LightningStream] Closing client ${id}: backed up for ${STALL_TIMEOUT_MS / 1000}s`);
+          this.detach(id);
+          try { state.client.end(); } catch { /* already closed */ }
+        }
+        return;
+      }
+      state.stalledSince = null;
+      if (now - state.lastFrame < state.params.interval) return;
+
+      const elapsed = now - state.lastFrame;
+      state.lastFrame = now;
+      if (state.cells) {
+        const cells = state.cells;
+        state.cells = null;
+        if (!this.writeCells(state, cells, id)) return;
+      }
+      if (state.queue.length === 0 && state.dropped === 0) return;
+
+      let batch = state.queue;
+      state.queue = [];
+      if (state.params.maxRate !== null) {
+        const rate = state.params.maxRate;
+        state.tokens = Math.min(rate, state.tokens + (elapsed * rate) / 1000);
+        const allowed = Math.floor(state.tokens);
+        if (batch.length > allowed) {
+          state.dropped += batch.length - allowed;
+          batch = batch.slice(batch.length - allowed);
+        }
+        state.tokens -= batch.length;
+      }
+      if (batch.length === 0) return;  // a dropped-only frame waits for the next strike
+
+      const lastSeq = batch[batch.length - 1]!.seq;
+      const sent = this.write(state, { type: "strikes", strikes: batch.map((e) => e.strike), dropped: state.dropped }, lastSeq, id);
+      if (sent) state.dropped = 0;
+    });
+  }
+
+  // Strikes after `seq`, or null when `seq` is unknown or older than the log
+  private since(seq: number | null): Array<{ seq: number; strike: LightningStrike }> | null {
+    if (seq === null || seq > this.seq) return null;
+    const oldest = this.log[0]?.seq ?? this.seq + 1;
+    if (seq < oldest - 1) return null;
+    return this.log.filter((e) => e.seq > seq);
+  }
+
+  private matches(params: StreamParams, point: { lat: number; lon: number }): boolean {
+    return !params.bbox || inBoundingBox(point, params.bbox);
+  }
+
+  private enqueue(state: ClientState, entry: { seq: number; strike: LightningStrike }) {
+    state.queue.push(entry);
+    if (state.queue.length > MAX_QUEUE) {
+      const excess = state.queue.length - MAX_QUEUE;
+      state.queue.splice(0, excess);
+      state.dropped += excess;
+    }
+  }
+
+  private writeCells(state: ClientState, msg: StormCellsMessage, id?: string): boolean {
+    const { bbox } = state.params;
+    const cells = bbox ? msg.cells.filter((c) => inBoundingBox(c.centroid, bbox)) : msg.cells;
+    return this.write(state, { ...msg, cells }, undefined, id);
+  }
+
+  private write(state: ClientState, msg: LightningStreamMessage, seq?: number, id?: string): boolean {
+    const head = seq !== undefined ? `id: ${encodeEventId(seq)}\n` : "";
+    try {
+      state.client.write(`${head}data: ${JSON.stringify(msg)}\n\n`);
+      return true;
+    } catch {
+      if (id) this.detach(id);
+      return false;
+    }
+  }
+}
+
+export const lightningBroadcast = new LightningBroadcast();
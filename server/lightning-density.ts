@@ -0,0 +1,75 @@
+/**
+ * Lightning Density Accumulator
+ *
+ * Counts strikes per density grid cell (see shared/density.ts) in one-minute
+ * buckets covering the last 24 hours, so the globe's heatmap can ask for any
+ * window up to a day without replaying individual strikes. Buckets start
+ * empty at process start; the 24 h view fills up as the server runs.
+ */
+
+import { DENSITY_WINDOWS, densityCellId, type DensityWindow } from "@shared/density";
+import type { LightningStrike } from "./lightning-store";
+
+const BUCKET_MS = 60_000;
+const MAX_WINDOW_MS = DENSITY_WINDOWS["24h"];
+
+export interface DensitySnapshot {
+  window: DensityWindow;
+  from: number;
+  to: number;
+  total: number;
+  maxCount: number;
+  cells: Array<[id: number, count: number]>;  // non-empty cells only
+}
+
+export class LightningDensity {
+  private buckets = new Map<number, Map<number, number>>();  // minute → cell → count
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  add(strike: LightningStrike) {
+    const minute = Math.floor(strike.time / BUCKET_MS);
+    if (strike.time < this.now() - MAX_WINDOW_MS) return;
+
+    let bucket = this.buckets.get(minute);
+    if (!bucket) {
+      bucket = new Map();
+      this.buckets.set(minute, bucket);
+      this.prune();
+    }
+    const cell = densityCellId(strike.lat, strike.lon);
+    bucket.set(cell, (bucket.get(cell) ?? 0) + 1);
+  }
+
+  /** Strike counts per cell over the window ending now, in whole minutes. */
+  snapshot(window: DensityWindow): DensitySnapshot {
+    const to = this.now();
+    const from = to - DENSITY_WINDOWS[window];
+    const firstMinute = Math.floor(from / BUCKET_MS);
+
+    const counts = new Map<number, number>();
+    this.buckets.forEach((bucket, minute) => {
+      if (minute < firstMinute) return;
+      bucket.forEach((n, cell) => counts.set(cell, (counts.get(cell) ?? 0) + n));
+    });
+
+    let total = 0;
+    let maxCount = 0;
+    const cells: DensitySnapshot["cells"] = [];
+    counts.forEach((n, cell) => {
+      cells.push([cell, n]);
+      total += n;
+      maxCount = Math.max(maxCount, n);
+    });
+    return { window, from, to, total, maxCount, cells };
+  }
+
+  private prune() {
+    const oldest = Math.floor((this.now() - MAX_WINDOW_MS) / BUCKET_MS);
+    this.buckets.forEach((_, minute) => {
+      if (minute < oldest) this.buckets.delete(minute);
+    });
+  }
+}
+
+export const lightningDensity = new LightningDensity();
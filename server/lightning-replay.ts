@@ -0,0 +1,161 @@
+/**
+ * Lightning Replay Stream
+ *
+ * Plays stored strikes back over SSE at /api/lightning/replay, accelerated by
+ * a speed factor, so an earlier storm can be shown on the globe. Each
+ * connection is one playback session:
+ *
+ *   GET /api/lightning/replay?from=<ms>&to=<ms>&start=<ms>&speed=<x>
+ *
+ * `start` (default `from`) is where playback begins, which is how clients
+ * scrub: pausing closes the stream, seeking or changing speed reopens it at
+ * the new position. Strikes come from `lightningStore.range`, so history is
+ * limited to what the store holds (the last hour in memory, or the database
+ * retention window).
+ *
+ * Messages:
+ *   { type: "replay", from, to, start, speed }   session parameters
+ *   { type: "strikes", at, strikes }              strikes up to replay time `at`
+ *   { type: "end", at }                            range finished; stream closes
+ *   { type: "error", message }                     bad parameters; stream closes
+ */
+
+import type { Request, Response } from "express";
+import { lightningStore, withoutSignals, type LightningStore, type LightningStrike } from "./lightning-store";
+
+const TICK_MS = 250;
+const PAGE_SIZE = 2000;
+const MAX_SPAN_MS = 24 * 60 * 60 * 1000;
+const MIN_SPEED = 1;
+const MAX_SPEED = 3600;
+const DEFAULT_SPEED = 60;
+
+export interface ReplayParams {
+  from: number;
+  to: number;
+  start: number;
+  speed: number;
+}
+
+/** Validate query parameters; returns an error message for bad input. */
+export function parseReplayParams(query: Record<string, unknown>): ReplayParams | string {
+  const num = (key: string) => {
+    const raw = query[key];
+    if (raw === undefined || raw === "") return undefined;
+    const n = Number(raw);
+    return Number.isFinite(n) ? n : NaN;
+  };
+  const from = num("from");
+  const to = num("to");
+  if (from === undefined || to === undefined || Number.isNaN(from) || Number.isNaN(to)) {
+    return "from and to are required (epoch milliseconds)";
+  }
+  if (to <= from) return "to must be after from";
+  if (to - from > MAX_SPAN_MS) return "Replay range is limited to 24 hours";
+
+  const start = num("start") ?? from;
+  if (Number.isNaN(start) || start < from || start > to) return "start must be within [from, to]";
+
+  const speed = num("speed") ?? DEFAULT_SPEED;
+  if (Number.isNaN(speed) || speed < MIN_SPEED || speed > MAX_SPEED) {
+    return `speed must be between ${MIN_SPEED} and ${MAX_SPEED}`;
+  }
+  return { from, to, start, speed };
+}
+
+// ─── Playback ─────────────────────────────────────────────────────────────────
+
+/**
+ * Reads strikes page by page ahead of the playback clock. `take(at)` returns
+ * every strike up to replay time `at`, fetching the next page only once the
+ * buffer runs dry.
+ */
+export class ReplayCursor {
+  private buffer: LightningStrike[] = [];
+  private cursor: string | undefined;
+  private exhausted = false;
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    private readonly params: ReplayParams,
+    private readonly store: Pick<LightningStore, "range"> = lightningStore,
+  ) {}
+
+  async take(at: number): Promise<LightningStrike[]> {
+    const out: LightningStrike[] = [];
+    for (;;) {
+      while (this.buffer.length > 0 && this.buffer[0]!.time <= at) out.push(this.buffer.shift()!);
+      if (this.buffer.length > 0 || this.exhausted) return out;
+      await this.load();
+    }
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.store
+      .range({ from: this.params.start, to: this.params.to, limit: PAGE_SIZE, cursor: this.cursor })
+      .then((page) => {
+        this.buffer.push(...page.strikes);
+        this.cursor = page.nextCursor ?? undefined;
+        if (!page.nextCursor) this.exhausted = true;
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+    return this.loading;
+  }
+}
+
+// ─── SSE Handler ──────────────────────────────────────────────────────────────
+
+export function handleLightningReplaySSE(req: Request, res: Response) {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.flushHeaders();
+
+  const send = (msg: object) => res.write(`data: ${JSON.stringify(msg)}\n\n`);
+
+  const params = parseReplayParams(req.query as Record<string, unknown>);
+  if (typeof params === "string") {
+    send({ type: "error", message: params });
+    res.end();
+    return;
+  }
+  send({ type: "replay", ...params });
+
+  const cursor = new ReplayCursor(params);
+  const startedAt = Date.now();
+  let closed = false;
+  let busy = false;
+
+  const timer = setInterval(async () => {
+    if (busy || closed) return;
+    busy = true;
+    try {
+      const at = Math.min(params.to, params.start + (Date.now() - startedAt) * params.speed);
+      const strikes = await cursor.take(at);
+      if (closed) return;
+      send({ type: "strikes", at, strikes: strikes.map(withoutSignals) });
+      if (at >= params.to) {
+        send({ type: "end", at });
+        stop();
+        res.end();
+      }
+    } catch (err) {
+      console.error("[Replay] Failed to read strikes:", err);
+      send({ type: "error", message: "Failed to read lightning history" });
+      stop();
+      res.end();
+    } finally {
+      busy = false;
+    }
+  }, TICK_MS);
+
+  function stop() {
+    closed = true;
+    clearInterval(timer);
+  }
+
+  req.on("close", stop);
+}
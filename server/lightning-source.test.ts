@@ -0,0 +1,233 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { BlitzortungHealth, STALL_TIMEOUT_MS } from "./blitzortung-health";
+import {
+  DEFAULT_LIGHTNING_CAPTURE,
+  decodeBlitzortung,
+  fileReplaySource,
+  getLightningSource,
+  lzwDecode,
+  parseCapture,
+  SyntheticStorms,
+  type RawStrike,
+} from "./lightning-source";
+
+const T0 = Date.UTC(2026, 6, 14, 18);
+
+function frame(t: number, json: string) {
+  return JSON.stringify({ t, data: Buffer.from(json, "utf8").toString("base64") });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+// ─── Decoder ──────────────────────────────────────────────────────────────────
+
+describe("lzwDecode", () => {
+  const lzw = (...parts: Array<string | number>) =>
+    parts.map((p) => (typeof p === "number" ? String.fromCharCode(p) : p)).join("");
+
+  it("expands dictionary codes", () => {
+    expect(lzwDecode(lzw("TOBEORNOT", 256, 258, 260, 265, 259, 261, 263))).toBe("TOBEORNOTTOBEORTOBEORNOT");
+  });
+
+  it("handles a code that refers to the entry still being built", () => {
+    expect(lzwDecode(lzw("a", 256, 257))).toBe("aaaaaa");
+  });
+});
+
+describe("decodeBlitzortung", () => {
+  const frames = parseCapture(fs.readFileSync(DEFAULT_LIGHTNING_CAPTURE, "utf8"));
+  const decode = (data: string) => decodeBlitzortung(Buffer.from(data, "base64"));
+
+  // The bundled file is synthetic (made with an encoder of our own), so it
+  // only shows that decoding matches that encoder; the frame below is real
+  it("decodes a frame received from the live feed", () => {
+    // First 60 bytes of a frame logged from wss://ws1.blitzortung.org (see blitz_analyze.mjs)
+    const captured = Buffer.from(
+      "7b2274696d65223a313737313634c488383330c48a3332393830302c226c6174c48633352e31c488313031c4996c6f6ec4862d39342ec49539373033",
+      "hex"
+    );
+    expect(lzwDecode(captured.toString("utf8"))).toBe('{"time":1771641783071329800,"lat":35.117101,"lon":-94.989703');
+  });
+
+  it("decodes every frame of the bundled synthetic capture", () => {
+    expect(frames.length).toBeGreaterThan(0);
+    frames.forEach((f) => expect(decode(f.data)).not.toBeNull());
+  });
+
+  it("keeps the strike metadata and station signals", () => {
+    const strike = decode(frames[0]!.data)!;
+    expect(strike).toMatchObject({ lat: 28.51963, lon: -81.14964, time: 1784051998634, alt: 0, polarity: -1, mds: 9427, mcg: 205, delay: 2.2, region: 1 });
+    expect(strike.stations).toBe(6);
+    expect(strike.signals![0]).toEqual({ station: 719, time: 1659976, lat: 30.239, lon: -83.1369, alt: 62, status: 4 });
+  });
+
+  it("rejects frames that are not strikes or are out of range", () => {
+    expect(decodeBlitzortung(Buffer.from("not json"))).toBeNull();
+    expect(decodeBlitzortung(Buffer.from('{"time":1,"lat":10}'))).toBeNull();
+    expect(decodeBlitzortung(Buffer.from('{"time":1,"lat":95,"lon":0}'))).toBeNull();
+  });
+
+  it("leaves out malformed station signals", () => {
+    const sig = '[null,5,"x",{"sta":1},{"sta":719,"time":1659976,"lat":30.239,"lon":-83.1369,"alt":62,"status":4}]';
+    const strike = decodeBlitzortung(Buffer.from(`{"time":1,"lat":10,"lon":20,"sig":${sig}}`));
+    expect(strike?.signals).toEqual([{ station: 719, time: 1659976, lat: 30.239, lon: -83.1369, alt: 62, status: 4 }]);
+    expect(strike?.stations).toBe(1);
+  });
+});
+
+// ─── Connection Health ────────────────────────────────────────────────────────
+
+describe("BlitzortungHealth", () => {
+  const servers = ["wss://a", "wss://b", "wss://c"];
+
+  it("rotates healthy servers and avoids ones that keep failing", () => {
+    let now = T0;
+    const health = new BlitzortungHealth(servers, () => now, () => 0);
+    const tried: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      tried.push(health.pickServer());
+      health.opened();
+      health.message(true);
+      now += 1000;
+      health.closed(null);
+    }
+    expect(tried).toEqual(servers);
+
+    health.pickServer();            // a
+    health.closed("ECONNREFUSED");
+    expect(health.pickServer()).toBe("wss://b");
+    const a = health.snapshot().servers[0]!;
+    expect(a).toMatchObject({ failures: 1, lastError: "ECONNREFUSED" });
+    expect(a.score).toBeCloseTo(0.7);
+  });
+
+  it("backs off exponentially with jitter and resets once messages arrive", () => {
+    let jitter = 0;
+    const health = new BlitzortungHealth(servers, () => T0, () => jitter);
+    const delays: number[] = [];
+    for (let i = 0; i < 8; i++) {
+      health.pickServer();
+      delays.push(health.closed("timeout"));
+    }
+    expect(delays).toEqual([1000, 2000, 4000, 8000, 16000, 30000, 30000, 30000]);
+
+    jitter = 1;
+    health.pickServer();
+    health.opened();
+    health.message(false);
+    expect(health.closed(null)).toBe(1000);
+    expect(health.snapshot().reconnects).toBe(8);  // the first attempt is not a reconnect
+  });
+
+  it("flags a silent connection as stalled and counts message rates", () => {
+    let now = T0;
+    const health = new BlitzortungHealth(servers, () => now, () => 0.5);
+    health.pickServer();
+    health.opened();
+    for (let i = 0; i < 5; i++) health.message(i < 3);
+    now += STALL_TIMEOUT_MS - 1;
+    expect(health.isStalled()).toBe(false);
+    expect(health.snapshot()).toMatchObject({ state: "connected", messagesPerMinute: 5, strikesPerMinute: 3, rejectedPerMinute: 2 });
+    now += 1;
+    expect(health.isStalled()).toBe(true);
+
+    health.closed("stalled", true);
+    expect(health.snapshot().servers[0]).toMatchObject({ stalls: 1, failures: 1 });
+    now += 60_000;
+    expect(health.snapshot()).toMatchObject({ state: "backoff", messagesPerMinute: 0 });
+  });
+});
+
+// ─── Captured Frames ──────────────────────────────────────────────────────────
+
+describe("file replay", () => {
+  it("parses captures in arrival order and skips comments", () => {
+    const text = ["# capture", frame(T0 + 500, "{}"), "", frame(T0, "{}")].join("\n");
+    expect(parseCapture(text).map((f) => f.t)).toEqual([T0, T0 + 500]);
+    expect(() => parseCapture('{"t":1}')).toThrow(/line 1/);
+  });
+
+  it("keeps the captured pacing and rebases strike times onto the playback clock", () => {
+    vi.useFakeTimers({ now: T0 + 3_600_000 });
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "lightning-")), "capture.ndjson");
+    fs.writeFileSync(file, [
+      frame(T0, `{"time":${T0 - 1000},"lat":1,"lon":2}`),
+      frame(T0 + 2000, `{"time":${T0 + 1000},"lat":3,"lon":4}`),
+    ].join("\n"));
+
+    const received: RawStrike[] = [];
+    const source = fileReplaySource(file, { speed: 2, loop: false });
+    source.start((s) => received.push(s));
+    const startedAt = Date.now();
+    expect(received).toEqual([{ lat: 1, lon: 2, time: startedAt - 500 }]);
+
+    vi.advanceTimersByTime(999);
+    expect(received).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(received[1]).toEqual({ lat: 3, lon: 4, time: startedAt + 500 });
+    expect(source.status()).toBe("disconnected");
+  });
+
+  it("keeps replaying past malformed frames", () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "lightning-")), "capture.ndjson");
+    fs.writeFileSync(file, [
+      frame(T0, `{"time":${T0},"lat":1,"lon":2,"sig":[null]}`),
+      frame(T0, "{]"),
+      frame(T0, `{"time":${T0},"lat":3,"lon":4}`),
+    ].join("\n"));
+
+    const received: RawStrike[] = [];
+    fileReplaySource(file, { loop: false, rebase: false }).start((s) => received.push(s));
+    expect(received).toEqual([{ lat: 1, lon: 2, time: T0, signals: [], stations: 0 }, { lat: 3, lon: 4, time: T0 }]);
+  });
+});
+
+// ─── Synthetic Storms ─────────────────────────────────────────────────────────
+
+describe("SyntheticStorms", () => {
+  function run(seed: number) {
+    const storms = new SyntheticStorms({ seed, storms: 3 });
+    storms.step(T0);
+    return Array.from({ length: 10 }, (_, i) => storms.step(T0 + (i + 1) * 60_000)).flat();
+  }
+
+  it("produces the same strikes for the same seed", () => {
+    const strikes = run(42);
+    expect(strikes.length).toBeGreaterThan(0);
+    expect(run(42)).toEqual(strikes);
+    expect(run(43)).not.toEqual(strikes);
+  });
+
+  it("keeps strikes on the globe and inside the step window", () => {
+    for (const s of run(7)) {
+      expect(Math.abs(s.lat)).toBeLessThanOrEqual(90);
+      expect(Math.abs(s.lon)).toBeLessThanOrEqual(180);
+      expect(s.time).toBeGreaterThanOrEqual(T0);
+      expect(s.time).toBeLessThanOrEqual(T0 + 10 * 60_000);
+    }
+  });
+});
+
+// ─── Selection ────────────────────────────────────────────────────────────────
+
+describe("getLightningSource", () => {
+  it("picks the source named by LIGHTNING_SOURCE", () => {
+    vi.stubEnv("LIGHTNING_SOURCE", "synthetic");
+    expect(getLightningSource().name).toBe("synthetic");
+    vi.stubEnv("LIGHTNING_SOURCE", "file");
+    expect(getLightningSource().name).toBe("file");
+  });
+
+  it("falls back to the live feed for unknown names", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubEnv("LIGHTNING_SOURCE", "carrier-pigeon");
+    expect(getLightningSource().name).toBe("blitzortung");
+  });
+});
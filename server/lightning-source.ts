@@ -0,0 +1,512 @@
+/**
+ * Lightning Sources
+ *
+ * Where raw strikes come from. The ingest pipeline in lightning-ws.ts (store,
+ * storm cells, density, SSE fan-out) only sees this interface, so the live
+ * feed can be swapped for something deterministic:
+ *
+ *   blitzortung  Live WebSocket feed from the public Blitzortung servers
+ *   file         Raw Blitzortung frames captured to NDJSON (see
+ *                blitz_capture.mjs), replayed with their original pacing.
+ *                The bundled file holds synthetic frames in the same format
+ *   synthetic    Seeded generator of drifting storms; no network, no files
+ *
+ * Selected with LIGHTNING_SOURCE (default "blitzortung").
+ */
+
+import fs from "fs";
+import path from "path";
+import WebSocket from "ws";
+import { destinationPoint } from "@shared/storms";
+import { BlitzortungHealth, STALL_TIMEOUT_MS, type BlitzortungHealthSnapshot } from "./blitzortung-health";
+import type { LightningStrike } from "./lightning-store";
+
+export type LightningSourceName = "blitzortung" | "file" | "synthetic";
+
+export type LightningSourceStatus = "connecting" | "connected" | "disconnected";
+
+/** A decoded strike before the pipeline assigns it an id. */
+export type RawStrike = Omit<LightningStrike, "id">;
+
+export interface LightningSource {
+  readonly name: LightningSourceName;
+  start(onStrike: (strike: RawStrike) => void): void;
+  stop(): void;
+  status(): LightningSourceStatus;
+  /** Upstream connection details, for sources that have an upstream. */
+  health?(): BlitzortungHealthSnapshot;
+}
+
+// ─── Blitzortung Decoder ──────────────────────────────────────────────────────
+
+/**
+ * Blitzortung frames are JSON compressed with LZW over UTF-16 code units:
+ * units below 256 are literal characters, higher ones index a dictionary that
+ * grows by one entry (previous output + first character of the current one)
+ * per unit. The dictionary is not transmitted; each frame starts empty.
+ */
+export function lzwDecode(input: string): string {
+  if (input.length === 0) return "";
+  const dict = new Map<number, string>();
+  let prev = input[0]!;
+  let nextCode = 256;
+  const out = [prev];
+  for (let i = 1; i < input.length; i++) {
+    const code = input.charCodeAt(i);
+    // A code not yet in the dictionary can only be the entry being built
+    const entry = code < 256 ? input[i]! : dict.get(code) ?? prev + prev[0];
+    out.push(entry);
+    dict.set(nextCode++, prev + entry[0]);
+    prev = entry;
+  }
+  return out.join("");
+}
+
+interface BlitzortungMessage {
+  time: number;    // ns
+  lat: number;
+  lon: number;
+  alt?: number;
+  pol?: number;
+  mds?: number;
+  mcg?: number;
+  status?: number;
+  region?: number;
+  delay?: number;
+  sig?: unknown[];  // BlitzortungSignal entries; checked one by one
+}
+
+interface BlitzortungSignal {
+  sta: number;
+  time: number;
+  lat: number;
+  lon: number;
+  alt: number;
+  status: number;
+}
+
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+const isSignal = (v: unknown): v is BlitzortungSignal => {
+  if (typeof v !== "object" || v === null) return false;
+  const s = v as Record<string, unknown>;
+  return isNum(s.sta) && isNum(s.time) && isNum(s.lat) && isNum(s.lon) && isNum(s.alt) && isNum(s.status);
+};
+
+/**
+ * Decode one raw WebSocket frame into a strike with everything Blitzortung
+ * reports about it. Returns null for frames that are not strikes or whose
+ * position is out of range; malformed station signals are left out.
+ */
+export function decodeBlitzortung(b: Buffer): RawStrike | null {
+  let msg: BlitzortungMessage;
+  try {
+    msg = JSON.parse(lzwDecode(b.toString("utf8")));
+  } catch {
+    return null;
+  }
+  if (!msg || !isNum(msg.time) || !isNum(msg.lat) || !isNum(msg.lon)) return null;
+  if (msg.lat < -90 || msg.lat > 90 || msg.lon < -180 || msg.lon > 180) return null;
+
+  // Blitzortung time is in nanoseconds; convert to milliseconds
+  // If the value is > 1e15 it's nanoseconds, otherwise already ms
+  const strike: RawStrike = {
+    lat: msg.lat,
+    lon: msg.lon,
+    time: msg.time > 1e15 ? Math.floor(msg.time / 1e6) : msg.time,
+  };
+  if (isNum(msg.alt)) strike.alt = msg.alt;
+  if (isNum(msg.pol)) strike.polarity = Math.sign(msg.pol);
+  if (isNum(msg.mds)) strike.mds = msg.mds;
+  if (isNum(msg.mcg)) strike.mcg = msg.mcg;
+  if (isNum(msg.delay)) strike.delay = msg.delay;
+  if (isNum(msg.region)) strike.region = msg.region;
+  if (Array.isArray(msg.sig)) {
+    strike.signals = msg.sig.filter(isSignal).map((s) => ({
+      station: s.sta, time: s.time, lat: s.lat, lon: s.lon, alt: s.alt, status: s.status,
+    }));
+    strike.stations = strike.signals.length;
+  }
+  return strike;
+}
+
+// ─── Live Blitzortung ─────────────────────────────────────────────────────────
+
+const BLITZORTUNG_SERVERS = [
+  "wss://ws1.blitzortung.org",
+  "wss://ws7.blitzortung.org",
+  "wss://ws8.blitzortung.org",
+];
+
+const STALL_CHECK_MS = 5000;
+
+/**
+ * Live feed with failover across `servers`. Server choice, backoff and stall
+ * detection are described in blitzortung-health.ts; `health()` exposes them.
+ */
+export function blitzortungSource(servers: string[] = BLITZORTUNG_SERVERS): LightningSource {
+  const health = new BlitzortungHealth(servers);
+  let ws: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let stallTimer: ReturnType<typeof setInterval> | null = null;
+  let stalledSocket: WebSocket | null = null;
+  let isConnecting = false;
+  let stopped = true;
+  let emit: (strike: RawStrike) => void = () => {};
+
+  function connect() {
+    if (stopped || isConnecting || (ws && ws.readyState === WebSocket.OPEN)) return;
+
+    isConnecting = true;
+    const serverUrl = health.pickServer();
+
+    console.log(`[Blitzortung] Connecting to ${serverUrl}...`);
+
+    try {
+      ws = new WebSocket(serverUrl, {
+        headers: {
+          "Origin": "https://www.blitzortung.org",
+          "User-Agent": "Mozilla/5.0 (compatible; RealTimeGlobeDashboard/1.0)",
+        },
+      });
+    } catch (err) {
+      console.error("[Blitzortung] Failed to create WebSocket:", err);
+      isConnecting = false;
+      scheduleReconnect(health.closed(err instanceof Error ? err.message : String(err)));
+      return;
+    }
+
+    const socket = ws;
+    let lastError: string | null = null;
+
+    socket.on("open", () => {
+      isConnecting = false;
+      health.opened();
+      console.log(`[Blitzortung] Connected to ${serverUrl}`);
+      // Send subscription message to start receiving lightning data
+      socket.send(JSON.stringify({ a: 111 }));
+    });
+
+    socket.on("message", (rawData: Buffer | string) => {
+      let decoded: RawStrike | null = null;
+      try {
+        const buf = Buffer.isBuffer(rawData) ? rawData : Buffer.from(rawData as string);
+        decoded = decodeBlitzortung(buf);
+      } catch {
+        // Counted as rejected below
+      }
+      health.message(decoded !== null);
+      if (decoded) emit(decoded);
+    });
+
+    socket.on("error", (err) => {
+      isConnecting = false;
+      lastError = err.message;
+      console.error("[Blitzortung] WebSocket error:", err.message);
+    });
+
+    socket.on("close", (code, reason) => {
+      isConnecting = false;
+      console.log(`[Blitzortung] Connection closed (${code}): ${reason?.toString() || "no reason"}`);
+      if (ws === socket) ws = null;
+      if (stopped) return;
+      const stalled = stalledSocket === socket;
+      const why = stalled ? "stalled" : lastError ?? (code === 1000 ? null : `closed (${code})`);
+      scheduleReconnect(health.closed(why, stalled));
+    });
+  }
+
+  // Connected but silent: drop the connection and let its close handler fail over
+  function checkStall() {
+    if (!ws || !health.isStalled()) return;
+    console.warn(`[Blitzortung] No messages for ${STALL_TIMEOUT_MS / 1000}s, reconnecting`);
+    stalledSocket = ws;
+    ws.terminate();
+  }
+
+  function scheduleReconnect(delay: number) {
+    if (stopped) return;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    console.log(`[Blitzortung] Reconnecting in ${(delay / 1000).toFixed(1)}s`);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  }
+
+  return {
+    name: "blitzortung",
+    start(onStrike) {
+      emit = onStrike;
+      stopped = false;
+      stallTimer ??= setInterval(checkStall, STALL_CHECK_MS);
+      stallTimer.unref?.();
+      connect();
+    },
+    stop() {
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      if (stallTimer) clearInterval(stallTimer);
+      stallTimer = null;
+      ws?.close();
+      ws = null;
+      health.stopped();
+    },
+    status() {
+      if (isConnecting) return "connecting";
+      return ws?.readyState === WebSocket.OPEN ? "connected" : "disconnected";
+    },
+    health: () => health.snapshot(),
+  };
+}
+
+// ─── Captured Frames ──────────────────────────────────────────────────────────
+
+/** One WebSocket message as received: arrival time and the raw bytes. */
+export interface CapturedFrame {
+  t: number;      // ms, when the frame arrived
+  data: string;   // base64 of the raw message
+}
+
+/** Parse an NDJSON capture; blank lines and `#` comments are skipped. */
+export function parseCapture(text: string): CapturedFrame[] {
+  const frames: CapturedFrame[] = [];
+  text.split("\n").forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+    const frame = JSON.parse(trimmed) as Partial<CapturedFrame>;
+    if (typeof frame.t !== "number" || typeof frame.data !== "string") {
+      throw new Error(`Invalid capture frame on line ${i + 1}`);
+    }
+    frames.push({ t: frame.t, data: frame.data });
+  });
+  return frames.sort((a, b) => a.t - b.t);
+}
+
+const LOOP_GAP_MS = 1000;
+
+export const DEFAULT_LIGHTNING_CAPTURE = path.resolve(process.cwd(), "server", "data", "blitzortung-capture.ndjson");
+
+export interface FileReplayOptions {
+  speed?: number;    // 2 = twice as fast as captured
+  loop?: boolean;    // start over after the last frame
+  rebase?: boolean;  // shift strike times so the capture appears to happen now
+  now?: () => number;
+}
+
+/**
+ * Replays a capture through the same decoder as the live feed, keeping the
+ * gaps between frames. With `rebase` (the default) strike times are moved so
+ * the first frame lands at the moment playback starts, which keeps the
+ * dashboard's recency filters and the storm tracker working.
+ */
+export function fileReplaySource(filePath: string, options: FileReplayOptions = {}): LightningSource {
+  const { speed = 1, loop = true, rebase = true, now = Date.now } = options;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+
+  function play(frames: CapturedFrame[], onStrike: (strike: RawStrike) => void) {
+    const t0 = frames[0]!.t;
+    const startedAt = now();
+    let next = 0;
+
+    const tick = () => {
+      timer = null;
+      if (!running) return;
+      const elapsed = (now() - startedAt) * speed;
+      while (next < frames.length && frames[next]!.t - t0 <= elapsed) {
+        let strike: RawStrike | null = null;
+        try {
+          strike = decodeBlitzortung(Buffer.from(frames[next]!.data, "base64"));
+        } catch (err) {
+          // One bad line must not stop the replay
+          console.warn(`[Lightning] Skipping capture frame ${next}:`, err);
+        }
+        next++;
+        if (!strike) continue;
+        onStrike(rebase ? { ...strike, time: Math.round(startedAt + (strike.time - t0) / speed) } : strike);
+      }
+      if (next < frames.length) {
+        timer = setTimeout(tick, Math.max(0, (frames[next]!.t - t0) / speed - (now() - startedAt)));
+        timer.unref?.();
+      } else if (loop) {
+        timer = setTimeout(() => play(frames, onStrike), LOOP_GAP_MS);
+        timer.unref?.();
+      } else {
+        running = false;
+        console.log("[Lightning] Capture replay finished");
+      }
+    };
+    tick();
+  }
+
+  return {
+    name: "file",
+    start(onStrike) {
+      if (running) return;
+      let frames: CapturedFrame[];
+      try {
+        frames = parseCapture(fs.readFileSync(filePath, "utf8"));
+      } catch (err) {
+        console.error(`[Lightning] Failed to read capture ${filePath}:`, err);
+        return;
+      }
+      if (frames.length === 0) {
+        console.warn(`[Lightning] Capture ${filePath} has no frames`);
+        return;
+      }
+      console.log(`[Lightning] Replaying ${frames.length} frames from ${filePath} at ${speed}x`);
+      running = true;
+      play(frames, onStrike);
+    },
+    stop() {
+      running = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+    status() {
+      return running ? "connected" : "disconnected";
+    },
+  };
+}
+
+// ─── Synthetic Storms ─────────────────────────────────────────────────────────
+
+// mulberry32: small, fast and good enough for scattering strikes
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface SyntheticStorm {
+  lat: number;
+  lon: number;
+  bearingDeg: number;
+  speedKmh: number;
+  radiusKm: number;
+  ratePerMin: number;
+  endsAt: number;
+  pending: number;  // fractional strikes carried between steps
+}
+
+export interface SyntheticOptions {
+  seed?: number;
+  storms?: number;
+}
+
+/**
+ * A fixed number of storms drifting across the tropics and mid-latitudes.
+ * Each emits strikes at its own rate within its radius and is replaced by a
+ * new one when its lifetime runs out. The same seed and step times always
+ * produce the same strikes.
+ */
+export class SyntheticStorms {
+  private readonly random: () => number;
+  private readonly storms: SyntheticStorm[] = [];
+  private lastStep: number | null = null;
+
+  constructor(private readonly options: SyntheticOptions = {}) {
+    this.random = seededRandom(options.seed ?? 1);
+  }
+
+  /** Advance to `time` and return the strikes since the previous step. */
+  step(time: number): RawStrike[] {
+    const count = this.options.storms ?? 6;
+    while (this.storms.length < count) this.storms.push(this.spawn(time));
+    const from = this.lastStep ?? time;
+    this.lastStep = time;
+    const dtMs = Math.max(0, time - from);
+
+    const strikes: RawStrike[] = [];
+    this.storms.forEach((storm, i) => {
+      if (time >= storm.endsAt) {
+        this.storms[i] = this.spawn(time);
+        return;
+      }
+      const moved = destinationPoint(storm, storm.bearingDeg, (storm.speedKmh * dtMs) / 3_600_000);
+      storm.lat = moved.lat;
+      storm.lon = moved.lon;
+
+      storm.pending += (storm.ratePerMin * dtMs) / 60_000;
+      while (storm.pending >= 1) {
+        storm.pending -= 1;
+        // sqrt keeps the scatter uniform over the disc rather than bunched at the centre
+        const p = destinationPoint(storm, this.random() * 360, storm.radiusKm * Math.sqrt(this.random()));
+        strikes.push({ lat: p.lat, lon: p.lon, time: Math.round(from + this.random() * dtMs) });
+      }
+    });
+    return strikes.sort((a, b) => a.time - b.time);
+  }
+
+  private spawn(time: number): SyntheticStorm {
+    const r = this.random;
+    return {
+      lat: -40 + r() * 80,
+      lon: -180 + r() * 360,
+      bearingDeg: r() * 360,
+      speedKmh: 15 + r() * 45,
+      radiusKm: 8 + r() * 20,
+      ratePerMin: 5 + r() * 55,
+      endsAt: time + (30 + r() * 60) * 60_000,
+      pending: 0,
+    };
+  }
+}
+
+const SYNTHETIC_STEP_MS = 1000;
+
+export function syntheticSource(options: SyntheticOptions & { now?: () => number } = {}): LightningSource {
+  const now = options.now ?? Date.now;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  return {
+    name: "synthetic",
+    start(onStrike) {
+      if (timer) return;
+      const storms = new SyntheticStorms(options);
+      storms.step(now());
+      console.log(`[Lightning] Generating synthetic storms (seed ${options.seed ?? 1})`);
+      timer = setInterval(() => storms.step(now()).forEach(onStrike), SYNTHETIC_STEP_MS);
+      timer.unref?.();
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+    status() {
+      return timer ? "connected" : "disconnected";
+    },
+  };
+}
+
+// ─── Selection ────────────────────────────────────────────────────────────────
+
+/** Build the source named by LIGHTNING_SOURCE and its companion variables. */
+export function getLightningSource(): LightningSource {
+  const configured = process.env.LIGHTNING_SOURCE ?? "blitzortung";
+
+  if (configured === "file") {
+    const filePath = process.env.LIGHTNING_CAPTURE_FILE
+      ? path.resolve(process.env.LIGHTNING_CAPTURE_FILE)
+      : DEFAULT_LIGHTNING_CAPTURE;
+    const speed = Number(process.env.LIGHTNING_CAPTURE_SPEED ?? 1);
+    return fileReplaySource(filePath, { speed: speed > 0 ? speed : 1 });
+  }
+
+  if (configured === "synthetic") {
+    const seed = Number(process.env.LIGHTNING_SYNTHETIC_SEED ?? 1);
+    return syntheticSource({ seed: Number.isFinite(seed) ? seed : 1 });
+  }
+
+  if (configured !== "blitzortung") {
+    console.warn(`[Lightning] Unknown LIGHTNING_SOURCE "${configured}", using blitzortung`);
+  }
+  return blitzortungSource();
+}
@@ -0,0 +1,158 @@
+/**
+ * Lightning Statistics
+ *
+ * Aggregates for the statistics view: per-minute totals over the last 24
+ * hours for the time series, and per-hour counts by region (regions.ts) over
+ * the last 7 days for the hourly, daily and country/continent breakdowns.
+ * Top active regions come from the density grid (lightning-density.ts), which
+ * already keeps per-cell counts. Like the density grid, everything starts
+ * empty at process start.
+ */
+
+import { densityCellBounds, type DensityWindow } from "@shared/density";
+import { BREAKDOWN_WINDOWS, SERIES_WINDOWS, type BreakdownWindow, type SeriesWindow } from "@shared/stats";
+import { lightningDensity, type LightningDensity } from "./lightning-density";
+import type { LightningStrike } from "./lightning-store";
+import { continentOf, regionAt, regionOfCell, type Continent } from "./regions";
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const MINUTE_HISTORY_MS = DAY_MS;
+const HOUR_HISTORY_MS = BREAKDOWN_WINDOWS["7d"];
+const OCEAN = "";  // region key for strikes outside every country
+
+export interface BreakdownEntry {
+  name: string | null;          // null: over the ocean or land too small for the map
+  continent: Continent | null;  // set when grouping by country
+  count: number;
+}
+
+export interface TopRegion {
+  cell: number;                 // density grid cell (shared/density.ts)
+  lat: number;                  // cell center
+  lon: number;
+  count: number;
+  country: string | null;
+  continent: Continent | null;
+}
+
+// Whole buckets from `from` up to and including the one holding `to`, zeros filled in
+function series(buckets: Map<number, number>, from: number, to: number, size: number): Array<[time: number, count: number]> {
+  const points: Array<[number, number]> = [];
+  for (let b = Math.floor(from / size); b <= Math.floor(to / size); b++) {
+    points.push([b * size, buckets.get(b) ?? 0]);
+  }
+  return points;
+}
+
+export class LightningStats {
+  private minutes = new Map<number, number>();               // minute → count
+  private hours = new Map<number, Map<string, number>>();    // hour → country (or OCEAN) → count
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    private readonly density: LightningDensity = lightningDensity
+  ) {}
+
+  add(strike: LightningStrike) {
+    const now = this.now();
+    if (strike.time < now - HOUR_HISTORY_MS) return;
+
+    const hour = Math.floor(strike.time / HOUR_MS);
+    let byRegion = this.hours.get(hour);
+    if (!byRegion) {
+      byRegion = new Map();
+      this.hours.set(hour, byRegion);
+      this.prune(now);
+    }
+    const key = regionAt(strike.lat, strike.lon)?.country ?? OCEAN;
+    byRegion.set(key, (byRegion.get(key) ?? 0) + 1);
+
+    if (strike.time < now - MINUTE_HISTORY_MS) return;
+    const minute = Math.floor(strike.time / MINUTE_MS);
+    this.minutes.set(minute, (this.minutes.get(minute) ?? 0) + 1);
+  }
+
+  /** Strikes per minute over the window ending now. */
+  timeSeries(window: SeriesWindow) {
+    const to = this.now();
+    const from = to - SERIES_WINDOWS[window];
+    return { window, bucketMs: MINUTE_MS, points: series(this.minutes, from, to, MINUTE_MS) };
+  }
+
+  /** Strikes per hour for the last 48 hours and per UTC day for the last 7 days. */
+  aggregates() {
+    const to = this.now();
+    const hourly = new Map<number, number>();
+    const daily = new Map<number, number>();
+    this.hours.forEach((byRegion, hour) => {
+      let n = 0;
+      byRegion.forEach((count) => (n += count));
+      hourly.set(hour, n);
+      const day = Math.floor((hour * HOUR_MS) / DAY_MS);
+      daily.set(day, (daily.get(day) ?? 0) + n);
+    });
+    return {
+      hourly: series(hourly, to - 47 * HOUR_MS, to, HOUR_MS),
+      daily: series(daily, to - 6 * DAY_MS, to, DAY_MS),
+    };
+  }
+
+  /** Counts by country or continent over the window, busiest first. */
+  breakdown(window: BreakdownWindow, by: "country" | "continent") {
+    const to = this.now();
+    const firstHour = Math.floor((to - BREAKDOWN_WINDOWS[window]) / HOUR_MS);
+    const counts = new Map<string, number>();
+    let total = 0;
+    this.hours.forEach((byRegion, hour) => {
+      if (hour < firstHour) return;
+      byRegion.forEach((n, country) => {
+        const key = by === "country" || country === OCEAN ? country : continentOf(country) ?? OCEAN;
+        counts.set(key, (counts.get(key) ?? 0) + n);
+        total += n;
+      });
+    });
+
+    const entries: BreakdownEntry[] = Array.from(counts, ([key, count]) => ({
+      name: key === OCEAN ? null : key,
+      continent: by === "country" && key !== OCEAN ? continentOf(key) : null,
+      count,
+    }));
+    entries.sort((a, b) => b.count - a.count);
+    return { window, by, total, entries };
+  }
+
+  /** The busiest density grid cells over the window, with the country at their center. */
+  topRegions(window: DensityWindow, limit: number): TopRegion[] {
+    const { cells } = this.density.snapshot(window);
+    return [...cells]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([cell, count]) => {
+        const b = densityCellBounds(cell);
+        const region = regionOfCell(cell);
+        return {
+          cell,
+          lat: (b.south + b.north) / 2,
+          lon: (b.west + b.east) / 2,
+          count,
+          country: region?.country ?? null,
+          continent: region?.continent ?? null,
+        };
+      });
+  }
+
+  private prune(now: number) {
+    const oldestHour = Math.floor((now - HOUR_HISTORY_MS) / HOUR_MS);
+    this.hours.forEach((_, hour) => {
+      if (hour < oldestHour) this.hours.delete(hour);
+    });
+    const oldestMinute = Math.floor((now - MINUTE_HISTORY_MS) / MINUTE_MS);
+    this.minutes.forEach((_, minute) => {
+      if (minute < oldestMinute) this.minutes.delete(minute);
+    });
+  }
+}
+
+export const lightningStats = new LightningStats();
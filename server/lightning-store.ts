@@ -0,0 +1,272 @@
+/**
+ * Lightning History Store
+ *
+ * Keeps the last hour of strikes in memory, sorted by time, for the live
+ * dashboard and persists every strike to the `lightning_strikes` table for
+ * history. Writes are buffered and flushed in batches because busy storm days
+ * deliver tens of strikes per second; rows older than the retention window are
+ * deleted periodically.
+ *
+ * `range()` serves windows the memory buffer fully covers from memory and
+ * everything older from the database. Without DATABASE_URL only the memory
+ * window is available.
+ *
+ * Configuration:
+ *   LIGHTNING_RETENTION_HOURS → database retention (default 168, one week)
+ */
+
+import {
+  deleteLightningStrikesBefore,
+  getDb,
+  getLightningStrikesInRange,
+  insertLightningStrikes,
+} from "./db";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** One detector's report of a strike (an entry of Blitzortung's `sig` array). */
+export interface StrikeSignal {
+  station: number;
+  time: number;     // ns after the strike time
+  lat: number;
+  lon: number;
+  alt: number;      // m
+  status: number;
+}
+
+/**
+ * Position, time and id are always present. The rest is what Blitzortung
+ * reports with each strike; synthetic strikes leave it out, and `signals` is
+ * not persisted, so database pages never carry it.
+ */
+export interface LightningStrike {
+  lat: number; lon: number; time: number; id: string;
+  alt?: number;        // m
+  polarity?: number;   // -1 or 1; 0 when undetermined
+  mds?: number;        // maximal deviation span, ns
+  mcg?: number;        // maximal circular gap between detectors, degrees
+  delay?: number;      // s from strike to publication
+  region?: number;
+  stations?: number;   // detectors that contributed
+  signals?: StrikeSignal[];
+}
+
+/** A strike without its per-station signals, for the SSE streams. */
+export function withoutSignals({ signals: _signals, ...strike }: LightningStrike): LightningStrike {
+  return strike;
+}
+
+/** Longitudes wrap across the antimeridian when `west > east`. */
+export interface BoundingBox {
+  south: number; west: number; north: number; east: number;
+}
+
+export interface LightningRangeQuery {
+  from: number;
+  to: number;
+  bbox?: BoundingBox;
+  limit: number;
+  cursor?: string;  // opaque, from a previous page's nextCursor
+}
+
+export interface LightningRangePage {
+  strikes: LightningStrike[];
+  nextCursor: string | null;
+  source: "memory" | "database";
+}
+
+const MEMORY_WINDOW_MS = 60 * 60 * 1000;
+const MEMORY_MAX_STRIKES = 100_000;
+const PRUNE_INTERVAL_MS = 10_000;
+const FLUSH_INTERVAL_MS = 5_000;
+const FLUSH_BATCH_SIZE = 1000;
+const RETENTION_SWEEP_MS = 60 * 60 * 1000;
+const DEFAULT_RETENTION_HOURS = 168;
+
+// ─── Query Helpers ────────────────────────────────────────────────────────────
+
+// Strikes are ordered by (time, id) so pages never skip or repeat equal times
+function compareStrikes(a: { time: number; id: string }, b: { time: number; id: string }): number {
+  return a.time - b.time || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+export function encodeCursor(strike: LightningStrike): string {
+  return `${strike.time}:${strike.id}`;
+}
+
+export function decodeCursor(cursor: string): { time: number; id: string } | null {
+  const sep = cursor.indexOf(":");
+  const time = Number(cursor.slice(0, sep));
+  if (sep <= 0 || !Number.isFinite(time)) return null;
+  return { time, id: cursor.slice(sep + 1) };
+}
+
+export function inBoundingBox(s: { lat: number; lon: number }, bbox: BoundingBox): boolean {
+  if (s.lat < bbox.south || s.lat > bbox.north) return false;
+  return bbox.west <= bbox.east
+    ? s.lon >= bbox.west && s.lon <= bbox.east
+    : s.lon >= bbox.west || s.lon <= bbox.east;
+}
+
+function retentionMs(): number {
+  const hours = Number(process.env.LIGHTNING_RETENTION_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_RETENTION_HOURS) * 60 * 60 * 1000;
+}
+
+// ─── Store ────────────────────────────────────────────────────────────────────
+
+export class LightningStore {
+  private strikes: LightningStrike[] = [];  // sorted by (time, id)
+  private pending: LightningStrike[] = [];  // not yet written to the database
+  private total = 0;
+  private coveredSince: number;             // memory holds every strike at or after this time
+  private lastPrune = 0;
+  private flushing: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly now: () => number = Date.now) {
+    this.coveredSince = now();
+  }
+
+  add(strike: LightningStrike) {
+    // Strikes arrive almost in order, so the insertion point is near the end
+    let i = this.strikes.length;
+    while (i > 0 && compareStrikes(this.strikes[i - 1]!, strike) > 0) i--;
+    this.strikes.splice(i, 0, strike);
+    this.total++;
+    this.pending.push(strike);
+    this.startTimers();
+
+    const now = this.now();
+    if (now - this.lastPrune >= PRUNE_INTERVAL_MS || this.strikes.length > MEMORY_MAX_STRIKES) {
+      this.prune(now);
+    }
+  }
+
+  getRecent(n: number): LightningStrike[] { return this.strikes.slice(-n); }
+  getTotal(): number { return this.total; }
+  getLastMinute(): number {
+    const oneMinuteAgo = this.now() - 60000;
+    return this.strikes.length - this.lowerBound({ time: oneMinuteAgo + 1, id: "" });
+  }
+
+  /** One page of strikes in [from, to], oldest first, optionally inside `bbox`. */
+  async range(query: LightningRangeQuery): Promise<LightningRangePage> {
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+    if (query.from >= this.coveredSince) {
+      return this.rangeFromMemory(query, after);
+    }
+    const db = await getDb();
+    if (!db) return this.rangeFromMemory(query, after);
+
+    await this.flush();
+    const rows = await getLightningStrikesInRange({ ...query, after, limit: query.limit + 1 });
+    return this.page(rows, query.limit, "database");
+  }
+
+  /** Write buffered strikes to the database. Concurrent calls share one write. */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.writePending().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /** Delete database rows older than the retention window. */
+  async sweep(): Promise<number> {
+    try {
+      return await deleteLightningStrikesBefore(this.now() - retentionMs());
+    } catch (err) {
+      console.error("[Lightning] Retention sweep failed:", err);
+      return 0;
+    }
+  }
+
+  private rangeFromMemory(query: LightningRangeQuery, after: { time: number; id: string } | null): LightningRangePage {
+    const start = after && after.time >= query.from
+      ? this.upperBound(after)
+      : this.lowerBound({ time: query.from, id: "" });
+    const matches: LightningStrike[] = [];
+    for (let i = start; i < this.strikes.length && matches.length <= query.limit; i++) {
+      const s = this.strikes[i]!;
+      if (s.time > query.to) break;
+      if (!query.bbox || inBoundingBox(s, query.bbox)) matches.push(s);
+    }
+    return this.page(matches, query.limit, "memory");
+  }
+
+  // `rows` holds up to limit + 1 strikes; the extra one signals another page
+  private page(rows: LightningStrike[], limit: number, source: LightningRangePage["source"]): LightningRangePage {
+    const strikes = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? encodeCursor(strikes[strikes.length - 1]!) : null;
+    return { strikes, nextCursor, source };
+  }
+
+  private async writePending() {
+    while (this.pending.length > 0) {
+      const batch = this.pending.slice(0, FLUSH_BATCH_SIZE);
+      try {
+        if (!(await insertLightningStrikes(batch))) {
+          // No database: nothing to persist to, and the buffer must not grow
+          this.pending = [];
+          return;
+        }
+        this.pending = this.pending.slice(batch.length);
+      } catch (err) {
+        console.error("[Lightning] Failed to persist strikes:", err);
+        return;  // retry on the next flush
+      }
+    }
+  }
+
+  private prune(now: number) {
+    this.lastPrune = now;
+    let cutoff = now - MEMORY_WINDOW_MS;
+    if (this.strikes.length > MEMORY_MAX_STRIKES) {
+      cutoff = Math.max(cutoff, this.strikes[this.strikes.length - MEMORY_MAX_STRIKES]!.time);
+    }
+    const i = this.lowerBound({ time: cutoff, id: "" });
+    if (i > 0) this.strikes = this.strikes.slice(i);
+    this.coveredSince = Math.max(this.coveredSince, cutoff);
+    // Unflushed strikes are bounded too, in case the database stays down
+    if (this.pending.length > MEMORY_MAX_STRIKES) this.pending = this.pending.slice(-MEMORY_MAX_STRIKES);
+  }
+
+  // First index whose strike sorts at or after `key`
+  private lowerBound(key: { time: number; id: string }): number {
+    let lo = 0;
+    let hi = this.strikes.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (compareStrikes(this.strikes[mid]!, key) < 0) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  // First index whose strike sorts strictly after `key`
+  private upperBound(key: { time: number; id: string }): number {
+    let lo = 0;
+    let hi = this.strikes.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (compareStrikes(this.strikes[mid]!, key) <= 0) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  private startTimers() {
+    if (this.flushTimer) return;
+    this.flushTimer = setInterval(() => void this.flush(), FLUSH_INTERVAL_MS);
+    this.sweepTimer = setInterval(() => void this.sweep(), RETENTION_SWEEP_MS);
+    // Background persistence must not keep the process (or a test run) alive
+    this.flushTimer.unref?.();
+    this.sweepTimer.unref?.();
+  }
+}
+
+export const lightningStore = new LightningStore();
@@ -0,0 +1,401 @@
+import { describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { StormCell } from "@shared/storms";
+import { DENSITY_CELL_COUNT, densityCellBounds, densityCellId } from "@shared/density";
+import { decodeEventId, encodeEventId, LightningBroadcast, parseStreamParams, type LightningStreamMessage, type StreamParams } from "./lightning-broadcast";
+import { LightningDensity } from "./lightning-density";
+import { parseReplayParams, ReplayCursor } from "./lightning-replay";
+import { LightningStats } from "./lightning-stats";
+import { decodeCursor, encodeCursor, inBoundingBox, LightningStore } from "./lightning-store";
+import { continentOf, countryAt } from "./regions";
+import type { TrpcContext } from "./_core/context";
+
+function createCtx(): TrpcContext {
+  return {
+    user: null,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+const T0 = Date.UTC(2026, 5, 1, 12);
+
+function storeWith(strikes: Array<[time: number, lat: number, lon: number]>) {
+  const store = new LightningStore(() => T0 + 60_000);
+  strikes.forEach(([time, lat, lon], i) => store.add({ time, lat, lon, id: `s${String(i).padStart(3, "0")}` }));
+  return store;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+describe("lightning range helpers", () => {
+  it("round-trips cursors and rejects garbage", () => {
+    expect(decodeCursor(encodeCursor({ time: 123, id: "a:b", lat: 0, lon: 0 }))).toEqual({ time: 123, id: "a:b" });
+    expect(decodeCursor("nope")).toBeNull();
+  });
+
+  it("wraps bounding boxes across the antimeridian", () => {
+    const pacific = { south: -10, west: 170, north: 10, east: -170 };
+    expect(inBoundingBox({ lat: 0, lon: 175 }, pacific)).toBe(true);
+    expect(inBoundingBox({ lat: 0, lon: -175 }, pacific)).toBe(true);
+    expect(inBoundingBox({ lat: 0, lon: 0 }, pacific)).toBe(false);
+    expect(inBoundingBox({ lat: 20, lon: 175 }, pacific)).toBe(false);
+  });
+});
+
+// ─── Store ────────────────────────────────────────────────────────────────────
+
+describe("LightningStore.range", () => {
+  it("keeps strikes ordered by time even when they arrive late", () => {
+    const store = storeWith([[T0 + 2000, 0, 0], [T0, 0, 0], [T0 + 1000, 0, 0]]);
+    expect(store.getRecent(3).map((s) => s.time)).toEqual([T0, T0 + 1000, T0 + 2000]);
+  });
+
+  it("pages through a time window without gaps or repeats", async () => {
+    // Several strikes share a timestamp, so the cursor must break ties by id
+    const store = storeWith(Array.from({ length: 10 }, (_, i) => [T0 + Math.floor(i / 3) * 1000, 0, 0] as [number, number, number]));
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await store.range({ from: T0, to: T0 + 60_000, limit: 4, cursor });
+      expect(page.strikes.length).toBeLessThanOrEqual(4);
+      seen.push(...page.strikes.map((s) => s.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    expect(seen).toEqual(Array.from({ length: 10 }, (_, i) => `s${String(i).padStart(3, "0")}`));
+  });
+
+  it("filters by time window and bounding box", async () => {
+    const store = storeWith([
+      [T0 - 5000, 40, -100],
+      [T0, 40, -100],
+      [T0 + 1000, -30, 150],
+      [T0 + 2000, 41, -99],
+      [T0 + 9000, 40, -100],
+    ]);
+    const page = await store.range({
+      from: T0,
+      to: T0 + 5000,
+      bbox: { south: 30, west: -110, north: 50, east: -90 },
+      limit: 100,
+    });
+    expect(page.strikes.map((s) => s.time)).toEqual([T0, T0 + 2000]);
+    expect(page.nextCursor).toBeNull();
+    expect(page.source).toBe("memory");
+  });
+});
+
+// ─── Density ──────────────────────────────────────────────────────────────────
+
+describe("density grid", () => {
+  it("maps points to cells whose bounds contain them", () => {
+    for (const [lat, lon] of [[0, 0], [51.5, -0.1], [-33.9, 151.2], [89.99, 179.99], [-90, -180], [64.1, -21.9]] as const) {
+      const id = densityCellId(lat, lon);
+      expect(id).toBeGreaterThanOrEqual(0);
+      expect(id).toBeLessThan(DENSITY_CELL_COUNT);
+      const b = densityCellBounds(id);
+      expect(lat).toBeGreaterThanOrEqual(b.south);
+      expect(lat).toBeLessThanOrEqual(b.north);
+      expect(lon).toBeGreaterThanOrEqual(b.west);
+      expect(lon).toBeLessThanOrEqual(b.east + 1e-9);
+    }
+  });
+
+  it("keeps cell areas roughly equal from the equator to high latitudes", () => {
+    const area = (id: number) => {
+      const b = densityCellBounds(id);
+      const rad = Math.PI / 180;
+      return (b.east - b.west) * rad * (Math.sin(b.north * rad) - Math.sin(b.south * rad));
+    };
+    const ratio = area(densityCellId(70.5, 10)) / area(densityCellId(0.5, 10));
+    expect(ratio).toBeGreaterThan(0.9);
+    expect(ratio).toBeLessThan(1.1);
+  });
+});
+
+describe("LightningDensity", () => {
+  it("counts strikes per cell within the requested window", () => {
+    let now = T0;
+    const density = new LightningDensity(() => now);
+    density.add({ id: "a", time: T0 - 2 * 60 * 60 * 1000, lat: 10, lon: 10 });
+    density.add({ id: "b", time: T0 - 30 * 60 * 1000, lat: 10, lon: 10 });
+    density.add({ id: "c", time: T0 - 60_000, lat: 10.3, lon: 10.05 });
+    density.add({ id: "d", time: T0 - 60_000, lat: -40, lon: 170 });
+    density.add({ id: "e", time: T0 - 25 * 60 * 60 * 1000, lat: 0, lon: 0 });  // older than a day
+
+    const quarter = density.snapshot("15m");
+    expect(quarter.total).toBe(2);
+    expect(quarter.cells).toHaveLength(2);
+
+    const hour = density.snapshot("1h");
+    expect(hour.total).toBe(3);
+    expect(hour.maxCount).toBe(2);
+    expect(hour.cells).toContainEqual([densityCellId(10, 10), 2]);
+
+    expect(density.snapshot("24h").total).toBe(4);
+    now += 24 * 60 * 60 * 1000;
+    expect(density.snapshot("24h").total).toBe(0);
+  });
+});
+
+// ─── Statistics ───────────────────────────────────────────────────────────────
+
+describe("regions", () => {
+  it("finds the country and continent under a point", () => {
+    expect(countryAt(52.5, 13.4)).toBe("Germany");
+    expect(countryAt(-10, -55)).toBe("Brazil");
+    expect(countryAt(0, -30)).toBeNull();  // mid-Atlantic
+    expect(continentOf("Brazil")).toBe("South America");
+  });
+});
+
+describe("LightningStats", () => {
+  const HOUR = 60 * 60 * 1000;
+
+  function statsWith(strikes: Array<[time: number, lat: number, lon: number]>) {
+    const density = new LightningDensity(() => T0);
+    const stats = new LightningStats(() => T0, density);
+    strikes.forEach(([time, lat, lon], i) => {
+      const strike = { time, lat, lon, id: `s${i}` };
+      density.add(strike);
+      stats.add(strike);
+    });
+    return stats;
+  }
+
+  it("bins strikes per minute, hour and day with zeros filled in", () => {
+    const stats = statsWith([[T0 - 30_000, 50, 10], [T0 - 90_000, 50, 10], [T0 - 3 * HOUR, 50, 10], [T0 - 3 * 24 * HOUR, 50, 10]]);
+    const { points } = stats.timeSeries("1h");
+    expect(points).toHaveLength(61);
+    expect(points.slice(-3).map(([, n]) => n)).toEqual([1, 1, 0]);
+
+    const { hourly, daily } = stats.aggregates();
+    expect(hourly).toHaveLength(48);
+    expect(hourly.reduce((sum, [, n]) => sum + n, 0)).toBe(3);
+    expect(daily).toHaveLength(7);
+    expect(daily.reduce((sum, [, n]) => sum + n, 0)).toBe(4);
+  });
+
+  it("breaks counts down by country and continent, ocean included", () => {
+    const stats = statsWith([
+      [T0 - HOUR, 50.5, 10.5], [T0 - HOUR, 50.5, 10.5],  // Germany
+      [T0 - HOUR, 46.5, 2.5],                            // France
+      [T0 - HOUR, -10, -55],                             // Brazil
+      [T0 - HOUR, 0, -30],                               // Atlantic
+      [T0 - 2 * 24 * HOUR, 50.5, 10.5],                  // outside 24h
+    ]);
+    expect(stats.breakdown("24h", "continent").entries).toEqual([
+      { name: "Europe", continent: null, count: 3 },
+      { name: "South America", continent: null, count: 1 },
+      { name: null, continent: null, count: 1 },
+    ]);
+    const byCountry = stats.breakdown("7d", "country");
+    expect(byCountry.total).toBe(6);
+    expect(byCountry.entries[0]).toEqual({ name: "Germany", continent: "Europe", count: 3 });
+  });
+
+  it("ranks the busiest grid cells", () => {
+    const stats = statsWith([[T0 - 60_000, -10, -55], [T0 - 60_000, -10, -55], [T0 - 60_000, 50.5, 10.5]]);
+    const [top, second] = stats.topRegions("1h", 5);
+    expect(top).toMatchObject({ count: 2, country: "Brazil", continent: "South America" });
+    expect(second?.country).toBe("Germany");
+  });
+});
+
+// ─── Replay ───────────────────────────────────────────────────────────────────
+
+describe("parseReplayParams", () => {
+  it("defaults start and speed and rejects bad ranges", () => {
+    expect(parseReplayParams({ from: "1000", to: "5000" })).toEqual({ from: 1000, to: 5000, start: 1000, speed: 60 });
+    expect(parseReplayParams({ from: "1000", to: "5000", start: "3000", speed: "300" })).toMatchObject({ start: 3000, speed: 300 });
+    expect(parseReplayParams({ from: "1000" })).toBeTypeOf("string");
+    expect(parseReplayParams({ from: "5000", to: "1000" })).toBeTypeOf("string");
+    expect(parseReplayParams({ from: "0", to: String(25 * 60 * 60 * 1000) })).toBeTypeOf("string");
+    expect(parseReplayParams({ from: "1000", to: "5000", start: "9000" })).toBeTypeOf("string");
+    expect(parseReplayParams({ from: "1000", to: "5000", speed: "100000" })).toBeTypeOf("string");
+  });
+});
+
+describe("ReplayCursor", () => {
+  it("hands out strikes in order as the replay clock advances, across pages", async () => {
+    const store = storeWith(Array.from({ length: 5000 }, (_, i) => [T0 + i * 10, 0, 0] as [number, number, number]));
+    const rangeSpy = vi.spyOn(store, "range");
+    const cursor = new ReplayCursor({ from: T0, to: T0 + 60_000, start: T0 + 1000, speed: 60 }, store);
+
+    expect((await cursor.take(T0 + 999)).length).toBe(0);
+    const first = await cursor.take(T0 + 2000);
+    expect(first.map((s) => s.time)).toEqual(Array.from({ length: 101 }, (_, i) => T0 + 1000 + i * 10));
+
+    const rest = await cursor.take(T0 + 60_000);
+    expect(first.length + rest.length).toBe(4900);
+    expect(rest[rest.length - 1]!.time).toBe(T0 + 49_990);
+    expect(rangeSpy.mock.calls.length).toBeGreaterThan(1);
+    expect(await cursor.take(T0 + 60_000)).toEqual([]);
+  });
+});
+
+// ─── Stream ───────────────────────────────────────────────────────────────────
+
+// Collects SSE events written to a fake response
+function sseClient() {
+  const events: Array<{ id: string | null; data: LightningStreamMessage }> = [];
+  const client = {
+    writableLength: 0,
+    ended: false,
+    write(chunk: string) {
+      const id = /^id: (.*)$/m.exec(chunk)?.[1] ?? null;
+      events.push({ id, data: JSON.parse(/^data: (.*)$/m.exec(chunk)![1]!) as LightningStreamMessage });
+    },
+    end() { client.ended = true; },
+  };
+  return { client, events };
+}
+
+// Ids of the strikes a history or strikes message carries
+const strikeIds = (msg: LightningStreamMessage | undefined) =>
+  msg && "strikes" in msg ? msg.strikes.map((s) => s.id) : [];
+
+const streamParams = (overrides: Partial<StreamParams> = {}): StreamParams => ({
+  bbox: null, interval: 250, maxRate: null, ...overrides,
+});
+
+describe("parseStreamParams", () => {
+  it("parses bbox, interval and maxRate and rejects bad values", () => {
+    expect(parseStreamParams({})).toEqual({ bbox: null, interval: 250, maxRate: null });
+    expect(parseStreamParams({ bbox: "170,-10,-170,10", interval: "1000", maxRate: "50" })).toEqual({
+      bbox: { west: 170, south: -10, east: -170, north: 10 }, interval: 1000, maxRate: 50,
+    });
+    expect(parseStreamParams({ bbox: "1,2,3" })).toBeTypeOf("string");
+    expect(parseStreamParams({ bbox: "0,50,10,40" })).toBeTypeOf("string");
+    expect(parseStreamParams({ interval: "10" })).toBeTypeOf("string");
+    expect(parseStreamParams({ maxRate: "0" })).toBeTypeOf("string");
+  });
+
+  it("only accepts event ids from this process", () => {
+    expect(decodeEventId(encodeEventId(42))).toBe(42);
+    expect(decodeEventId("zzz.42")).toBeNull();
+    expect(decodeEventId(undefined)).toBeNull();
+  });
+});
+
+describe("LightningBroadcast", () => {
+  const strikeAt = (i: number, lat = 0, lon = 0) => ({ id: `s${i}`, time: T0 + i, lat, lon });
+
+  it("batches strikes into frames no more often than the interval, filtered by bbox", () => {
+    let now = T0;
+    const hub = new LightningBroadcast(() => now);
+    const { client, events } = sseClient();
+    const detach = hub.attach(client, streamParams({ bbox: { west: -10, south: -10, east: 10, north: 10 }, interval: 500 }));
+    expect(events.map((e) => e.data.type)).toEqual(["connected", "history"]);
+
+    hub.publishStrike(strikeAt(1));
+    hub.publishStrike(strikeAt(2, 40, 0));
+    hub.publishStrike(strikeAt(3, 5, 5));
+    now += 200;
+    hub.flush();
+    expect(events).toHaveLength(2);
+    now += 300;
+    hub.flush();
+    expect(events[2]!.data).toEqual({ type: "strikes", strikes: [strikeAt(1), strikeAt(3, 5, 5)], dropped: 0 });
+    expect(decodeEventId(events[2]!.id!)).toBe(3);
+    detach();
+  });
+
+  it("caps strikes per second and coalesces storm cell updates", () => {
+    let now = T0;
+    const hub = new LightningBroadcast(() => now);
+    const { client, events } = sseClient();
+    const detach = hub.attach(client, streamParams({ maxRate: 5, bbox: { west: -10, south: -10, east: 10, north: 10 } }));
+    for (let i = 0; i < 8; i++) hub.publishStrike(strikeAt(i));
+    const cell = { id: "c1", centroid: { lat: 0, lon: 0 } } as StormCell;
+    const far = { id: "c2", centroid: { lat: 50, lon: 0 } } as StormCell;
+    hub.publishCells({ type: "cells", time: now, cells: [cell, far], removed: ["a"] });
+    hub.publishCells({ type: "cells", time: now, cells: [cell], removed: ["b"] });
+    now += 250;
+    hub.flush();
+
+    const [cells, frame] = events.slice(2).map((e) => e.data);
+    expect(cells).toMatchObject({ type: "cells", cells: [{ id: "c1" }], removed: ["a", "b"] });
+    expect(strikeIds(frame)).toEqual(["s3", "s4", "s5", "s6", "s7"]);
+    expect(frame).toMatchObject({ type: "strikes", dropped: 3 });
+    detach();
+  });
+
+  it("holds frames for backed-up clients, dropping the oldest, and closes stalled ones", () => {
+    let now = T0;
+    const hub = new LightningBroadcast(() => now);
+    const { client, events } = sseClient();
+    hub.attach(client, streamParams());
+    client.writableLength = 1024 * 1024;
+    for (let i = 0; i < 2500; i++) hub.publishStrike(strikeAt(i));
+    now += 1000;
+    hub.flush();
+    expect(events).toHaveLength(2);
+
+    client.writableLength = 0;
+    now += 1000;
+    hub.flush();
+    expect(strikeIds(events[2]!.data)).toHaveLength(2000);
+    expect(events[2]!.data).toMatchObject({ type: "strikes", dropped: 500 });
+
+    client.writableLength = 1024 * 1024;
+    hub.flush();
+    now += 61_000;
+    hub.flush();
+    expect(client.ended).toBe(true);
+    expect(hub.clientCount).toBe(0);
+  });
+
+  it("resumes from Last-Event-ID and falls back to history for unknown ids", () => {
+    let now = T0;
+    const hub = new LightningBroadcast(() => now);
+    for (let i = 1; i <= 3; i++) hub.publishStrike(strikeAt(i));
+
+    const fresh = sseClient();
+    const detachFresh = hub.attach(fresh.client, streamParams());
+    expect(strikeIds(fresh.events[1]!.data)).toHaveLength(3);
+    const lastId = fresh.events[1]!.id!;
+    detachFresh();
+
+    hub.publishStrike(strikeAt(4));
+    hub.publishStrike(strikeAt(5));
+    const resumed = sseClient();
+    const detachResumed = hub.attach(resumed.client, streamParams(), { lastEventId: lastId });
+    now += 250;
+    hub.flush();
+    expect(resumed.events.map((e) => e.data.type)).toEqual(["connected", "strikes"]);
+    expect(resumed.events[0]!.data).toMatchObject({ resumed: true });
+    expect(strikeIds(resumed.events[1]!.data)).toEqual(["s4", "s5"]);
+    detachResumed();
+
+    // A resumed client keeps its bbox
+    hub.publishStrike(strikeAt(6, 40, 0));
+    hub.publishStrike(strikeAt(7, 5, 5));
+    const boxed = sseClient();
+    const bbox = { west: -10, south: -10, east: 10, north: 10 };
+    const detachBoxed = hub.attach(boxed.client, streamParams({ bbox }), { lastEventId: lastId });
+    now += 250;
+    hub.flush();
+    expect(strikeIds(boxed.events[1]!.data)).toEqual(["s4", "s5", "s7"]);
+    detachBoxed();
+
+    const stale = sseClient();
+    hub.attach(stale.client, streamParams(), { lastEventId: "old.2" })();
+    expect(stale.events[0]!.data).toMatchObject({ resumed: false });
+    expect(stale.events[1]!.data.type).toBe("history");
+  });
+});
+
+// ─── Router ───────────────────────────────────────────────────────────────────
+
+describe("lightning.range", () => {
+  it("validates the window and returns a page", async () => {
+    const caller = appRouter.createCaller(createCtx());
+    const result = await caller.lightning.range({ from: Date.now() - 60_000, limit: 10 });
+    expect(Array.isArray(result.strikes)).toBe(true);
+    expect(result.to).toBeGreaterThanOrEqual(result.from);
+
+    await expect(caller.lightning.range({ from: 2000, to: 1000 })).rejects.toThrow();
+    await expect(caller.lightning.range({ from: 0, limit: 100_000 })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * N2YO Transaction Budget
+ *
+ * The N2YO free tier allows 1,000 transactions per rolling hour per key.
+ * Every /above, /positions and /tle call is recorded here together with the
+ * `info.transactionscount` N2YO reports back, which also covers calls made by
+ * other processes sharing the key. The provider consults the budget before
+ * each refresh: the cache TTL stretches as the budget drains, pinned
+ * /positions lookups are dropped when it runs low, and no calls are made
+ * once only the reserve is left.
+ *
+ * N2YO_HOURLY_LIMIT overrides the limit for paid keys.
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type N2yoEndpoint = "above" | "positions" | "tle";
+
+// normal    → full refresh (/above + pinned /positions)
+// degraded  → /above only, TTL stretched
+// exhausted → no upstream calls; serve the last snapshot or fail
+export type QuotaMode = "normal" | "degraded" | "exhausted";
+
+export interface QuotaSnapshot {
+  limit: number;
+  used: number;
+  remaining: number;
+  mode: QuotaMode;
+  cacheTtlMs: number;
+  lastReportedCount: number | null;
+  lastReportedAt: number | null;
+  calls: Record<N2yoEndpoint, number>;  // recorded by this process in the window
+  windowResetAt: number | null;         // when the oldest recorded call leaves the window
+}
+
+export class N2yoQuotaExceededError extends Error {
+  constructor(public readonly retryAt: number | null) {
+    super("N2YO hourly transaction budget exhausted");
+    this.name = "N2yoQuotaExceededError";
+  }
+}
+
+const WINDOW_MS = 60 * 60 * 1000;
+const DEFAULT_HOURLY_LIMIT = 1000;
+const DEGRADED_FRACTION = 0.75;  // drop pinned lookups above 75% usage
+const RESERVE_FRACTION = 0.05;   // never spend the last 5%
+const MAX_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// ─── Budget ───────────────────────────────────────────────────────────────────
+
+export class N2yoQuota {
+  private calls: Array<{ time: number; endpoint: N2yoEndpoint }> = [];
+  private reported: { count: number; at: number } | null = null;
+
+  constructor(
+    private readonly limit = DEFAULT_HOURLY_LIMIT,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /** Record one upstream call and, when present, N2YO's own transaction count. */
+  record(endpoint: N2yoEndpoint, reportedCount?: number) {
+    const time = this.now();
+    this.calls.push({ time, endpoint });
+    if (typeof reportedCount === "number" && isFinite(reportedCount)) {
+      this.reported = { count: reportedCount, at: time };
+    }
+    this.prune(time);
+  }
+
+  /** Transactions spent in the current window, from whichever view is higher. */
+  used(): number {
+    const time = this.now();
+    this.prune(time);
+    const local = this.calls.length;
+    if (!this.reported || time - this.reported.at >= WINDOW_MS) return local;
+    // N2YO's count includes the reporting call; add ours made since then
+    const since = this.calls.filter((c) => c.time > this.reported!.at).length;
+    return Math.max(local, this.reported.count + since);
+  }
+
+  remaining(): number {
+    return Math.max(0, this.limit - this.used());
+  }
+
+  mode(): QuotaMode {
+    const used = this.used();
+    if (used >= this.limit * (1 - RESERVE_FRACTION)) return "exhausted";
+    if (used >= this.limit * DEGRADED_FRACTION) return "degraded";
+    return "normal";
+  }
+
+  /** True when `n` more calls still leave the reserve untouched. */
+  canSpend(n = 1): boolean {
+    return this.used() + n <= this.limit * (1 - RESERVE_FRACTION);
+  }
+
+  /**
+   * Cache TTL that spreads the remaining spendable budget over the next hour,
+   * given how many calls one refresh costs. Never shorter than `baseTtlMs`.
+   */
+  cacheTtlMs(baseTtlMs: number, callsPerRefresh: number): number {
+    const spendable = this.limit * (1 - RESERVE_FRACTION) - this.used();
+    if (spendable <= 0) return MAX_CACHE_TTL_MS;
+    const refreshes = spendable / Math.max(1, callsPerRefresh);
+    const spread = Math.ceil(WINDOW_MS / refreshes);
+    return Math.min(MAX_CACHE_TTL_MS, Math.max(baseTtlMs, spread));
+  }
+
+  /** When the oldest recorded call drops out of the rolling window. */
+  nextReleaseAt(): number | null {
+    this.prune(this.now());
+    return this.calls.length > 0 ? this.calls[0]!.time + WINDOW_MS : null;
+  }
+
+  snapshot(baseTtlMs: number, callsPerRefresh: number): QuotaSnapshot {
+    this.prune(this.now());
+    const calls: Record<N2yoEndpoint, number> = { above: 0, positions: 0, tle: 0 };
+    for (const c of this.calls) calls[c.endpoint]++;
+    return {
+      limit: this.limit,
+      used: this.used(),
+      remaining: this.remaining(),
+      mode: this.mode(),
+      cacheTtlMs: this.cacheTtlMs(baseTtlMs, callsPerRefresh),
+      lastReportedCount: this.reported?.count ?? null,
+      lastReportedAt: this.reported?.at ?? null,
+      calls,
+      windowResetAt: this.nextReleaseAt(),
+    };
+  }
+
+  private prune(time: number) {
+    const cutoff = time - WINDOW_MS;
+    let i = 0;
+    while (i < this.calls.length && this.calls[i]!.time <= cutoff) i++;
+    if (i > 0) this.calls = this.calls.slice(i);
+  }
+}
+
+function configuredLimit(): number {
+  const raw = Number(process.env.N2YO_HOURLY_LIMIT);
+  return Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_HOURLY_LIMIT;
+}
+
+export const n2yoQuota = new N2yoQuota(configuredLimit());
@@ -0,0 +1,356 @@
+/**
+ * SGP4 Orbit Propagation
+ *
+ * Ingests TLE (two- or three-line) or OMM JSON element sets from a pluggable
+ * source, keeps one parsed SatRec per NORAD ID, and propagates every object
+ * to any requested time with SGP4. This lets the dashboard serve smooth,
+ * continuously moving positions without polling N2YO, and keeps satellites
+ * working offline against the bundled fixture at server/data/satellites.tle.
+ *
+ * Source selection (first match wins):
+ *   TLE_URL   → fetch element sets over HTTP (e.g. a CelesTrak GP query)
+ *   TLE_FILE  → read element sets from a local file
+ *   (default) → bundled fixture
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import {
+  constants,
+  degreesLat,
+  degreesLong,
+  eciToGeodetic,
+  gstime,
+  jday,
+  json2satrec,
+  propagate,
+  sunPos,
+  twoline2satrec,
+  type OMMJsonObject,
+  type SatRec,
+} from "satellite.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface OrbitalObject {
+  id: number;
+  name: string;
+  intDesignator?: string;
+  satrec: SatRec;
+}
+
+export interface PropagatedPosition {
+  id: number;
+  name: string;
+  latitude: number;
+  longitude: number;
+  altitude: number;  // km above the WGS-84 ellipsoid
+  velocity: number;  // km/s (inertial)
+}
+
+export interface GroundTrackPoint {
+  time: number;       // ms timestamp
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  daylight: boolean;  // sub-satellite point is on the day side of the terminator
+}
+
+export interface OrbitParameters {
+  inclination: number;    // degrees
+  eccentricity: number;
+  periodMinutes: number;
+  apogee: number;         // km above the Earth's equatorial radius
+  perigee: number;        // km
+  epoch: number;          // ms timestamp of the element set
+}
+
+export interface TleSource {
+  name: string;
+  load(): Promise<string>;
+}
+
+// ─── Element Set Parsing ──────────────────────────────────────────────────────
+
+/**
+ * Parse raw element set text. Accepts a JSON array of OMM objects (CelesTrak
+ * `FORMAT=json`) or TLE text with or without name lines. Malformed entries are
+ * skipped rather than failing the whole catalog.
+ */
+export function parseElementSets(raw: string): OrbitalObject[] {
+  const trimmed = raw.trim();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    return parseOMM(trimmed);
+  }
+  return parseTLE(trimmed);
+}
+
+function parseOMM(raw: string): OrbitalObject[] {
+  const parsed = JSON.parse(raw) as OMMJsonObject | OMMJsonObject[];
+  const list = Array.isArray(parsed) ? parsed : [parsed];
+  const objects: OrbitalObject[] = [];
+  for (const omm of list) {
+    try {
+      const satrec = json2satrec(omm);
+      if (satrec.error) continue;
+      objects.push({
+        id: Number(omm.NORAD_CAT_ID),
+        name: String(omm.OBJECT_NAME ?? omm.NORAD_CAT_ID).trim(),
+        intDesignator: omm.OBJECT_ID || undefined,
+        satrec,
+      });
+    } catch {
+      // Skip malformed element sets
+    }
+  }
+  return objects;
+}
+
+function parseTLE(raw: string): OrbitalObject[] {
+  const lines = raw.split(/\r?\n/).map((l) => l.trimEnd()).filter((l) => l.length > 0);
+  const objects: OrbitalObject[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    if (!line.startsWith("1 ")) continue;
+    const line2 = lines[i + 1];
+    if (!line2?.startsWith("2 ")) continue;
+
+    // Optional name line (3LE); "0 " prefix is the Space-Track convention
+    const prev = i > 0 ? lines[i - 1]! : "";
+    const hasName = prev.length > 0 && !prev.startsWith("1 ") && !prev.startsWith("2 ");
+    const id = parseInt(line.substring(2, 7), 10);
+    const name = hasName ? prev.replace(/^0 /, "").trim() : String(id);
+    const intl = parseIntDesignator(line.substring(9, 17).trim());
+
+    try {
+      const satrec = twoline2satrec(line, line2);
+      if (!satrec.error && isFinite(id)) {
+        objects.push({ id, name, intDesignator: intl, satrec });
+      }
+    } catch {
+      // Skip malformed element sets
+    }
+    i++;
+  }
+  return objects;
+}
+
+/** Convert the TLE short designator ("98067A") to COSPAR form ("1998-067A"). */
+function parseIntDesignator(short: string): string | undefined {
+  const m = short.match(/^(\d{2})(\d{3})(\w+)$/);
+  if (!m) return undefined;
+  const yy = parseInt(m[1]!, 10);
+  const year = yy < 57 ? 2000 + yy : 1900 + yy;
+  return `${year}-${m[2]}${m[3]}`;
+}
+
+// ─── Sources ──────────────────────────────────────────────────────────────────
+
+export const DEFAULT_TLE_FILE = path.resolve(process.cwd(), "server", "data", "satellites.tle");
+
+export function fileTleSource(filePath: string): TleSource {
+  return {
+    name: `file:${filePath}`,
+    load: () => fs.readFile(filePath, "utf8"),
+  };
+}
+
+export function urlTleSource(url: string): TleSource {
+  return {
+    name: `url:${url}`,
+    async load() {
+      const res = await fetch(url, { signal: AbortSignal.timeout(15000) });
+      if (!res.ok) throw new Error(`TLE fetch error ${url}: ${res.status}`);
+      return res.text();
+    },
+  };
+}
+
+export function getConfiguredTleSource(): TleSource {
+  if (process.env.TLE_URL) return urlTleSource(process.env.TLE_URL);
+  if (process.env.TLE_FILE) return fileTleSource(path.resolve(process.env.TLE_FILE));
+  return fileTleSource(DEFAULT_TLE_FILE);
+}
+
+// ─── Sun Geometry ─────────────────────────────────────────────────────────────
+
+/** Geographic point directly beneath the Sun at `date`. */
+export function subsolarPoint(date: Date): { lat: number; lon: number } {
+  const { rsun } = sunPos(jday(date));
+  const lat = Math.atan2(rsun.z, Math.sqrt(rsun.x * rsun.x + rsun.y * rsun.y));
+  let lon = Math.atan2(rsun.y, rsun.x) - gstime(date);
+  lon = Math.atan2(Math.sin(lon), Math.cos(lon)); // wrap to [-π, π]
+  return { lat: (lat * 180) / Math.PI, lon: (lon * 180) / Math.PI };
+}
+
+/** True when the Sun is above the horizon at the given ground point. */
+export function isDaylight(lat: number, lon: number, date: Date): boolean {
+  const sun = subsolarPoint(date);
+  const φ1 = (lat * Math.PI) / 180;
+  const φ2 = (sun.lat * Math.PI) / 180;
+  const dλ = ((lon - sun.lon) * Math.PI) / 180;
+  const cosAngle = Math.sin(φ1) * Math.sin(φ2) + Math.cos(φ1) * Math.cos(φ2) * Math.cos(dλ);
+  return cosAngle > 0;
+}
+
+// ─── Orbit Catalog ────────────────────────────────────────────────────────────
+
+/** Orbital period in minutes derived from the SGP4 mean motion (rad/min). */
+export function orbitalPeriodMinutes(obj: OrbitalObject): number {
+  return (2 * Math.PI) / obj.satrec.no;
+}
+
+/** Mean orbital elements of the object's element set, in readable units. */
+export function orbitParameters(obj: OrbitalObject): OrbitParameters {
+  const { satrec } = obj;
+  // alta / altp are apogee / perigee heights in Earth radii (SGP4 uses WGS-72)
+  return {
+    inclination: (satrec.inclo * 180) / Math.PI,
+    eccentricity: satrec.ecco,
+    periodMinutes: orbitalPeriodMinutes(obj),
+    apogee: satrec.alta * constants.earthRadius,
+    perigee: satrec.altp * constants.earthRadius,
+    epoch: (satrec.jdsatepoch - 2440587.5) * 86_400_000,
+  };
+}
+
+/** Propagate a single object that may not be part of a catalog. */
+export function propagateObject(obj: OrbitalObject, date: Date): PropagatedPosition | null {
+  return toPosition(obj, date);
+}
+
+/** Ground track of a single object; see OrbitCatalog.groundTrack. */
+export function groundTrackOf(obj: OrbitalObject, from: Date, to: Date, stepMs: number): GroundTrackPoint[] {
+  if (stepMs <= 0) return [];
+  const points: GroundTrackPoint[] = [];
+  for (let t = from.getTime(); t <= to.getTime(); t += stepMs) {
+    const date = new Date(t);
+    const pos = toPosition(obj, date);
+    if (!pos) continue;
+    points.push({
+      time: t,
+      latitude: pos.latitude,
+      longitude: pos.longitude,
+      altitude: pos.altitude,
+      daylight: isDaylight(pos.latitude, pos.longitude, date),
+    });
+  }
+  return points;
+}
+
+function toPosition(obj: OrbitalObject, date: Date): PropagatedPosition | null {
+  const pv = propagate(obj.satrec, date);
+  if (!pv) return null;
+  const geo = eciToGeodetic(pv.position, gstime(date));
+  const latitude = degreesLat(geo.latitude);
+  const longitude = degreesLong(geo.longitude);
+  if (!isFinite(latitude) || !isFinite(longitude) || !isFinite(geo.height)) return null;
+  const { x, y, z } = pv.velocity;
+  return {
+    id: obj.id,
+    name: obj.name,
+    latitude,
+    longitude,
+    altitude: geo.height,
+    velocity: Math.sqrt(x * x + y * y + z * z),
+  };
+}
+
+export class OrbitCatalog {
+  private objects = new Map<number, OrbitalObject>();
+  private loadedAt = 0;
+  private sourceName: string | null = null;
+
+  /** Replace the catalog with the element sets from `source`. */
+  async load(source: TleSource): Promise<number> {
+    const raw = await source.load();
+    this.loadFrom(raw, source.name);
+    return this.objects.size;
+  }
+
+  loadFrom(raw: string, sourceName = "inline") {
+    const next = new Map<number, OrbitalObject>();
+    for (const obj of parseElementSets(raw)) next.set(obj.id, obj);
+    this.objects = next;
+    this.loadedAt = Date.now();
+    this.sourceName = sourceName;
+  }
+
+  get(id: number): OrbitalObject | undefined {
+    return this.objects.get(id);
+  }
+
+  getAll(): OrbitalObject[] {
+    return Array.from(this.objects.values());
+  }
+
+  size(): number {
+    return this.objects.size;
+  }
+
+  getLoadedAt(): number {
+    return this.loadedAt;
+  }
+
+  getSourceName(): string | null {
+    return this.sourceName;
+  }
+
+  propagate(id: number, date: Date = new Date()): PropagatedPosition | null {
+    const obj = this.objects.get(id);
+    return obj ? toPosition(obj, date) : null;
+  }
+
+  /**
+   * Sample the sub-satellite path between `from` and `to`. Points that fail to
+   * propagate are skipped, so callers may receive fewer points than requested.
+   */
+  groundTrack(id: number, from: Date, to: Date, stepMs: number): GroundTrackPoint[] {
+    const obj = this.objects.get(id);
+    return obj ? groundTrackOf(obj, from, to, stepMs) : [];
+  }
+
+  /** Propagate every object; decayed or diverging orbits are dropped. */
+  propagateAll(date: Date = new Date()): PropagatedPosition[] {
+    const out: PropagatedPosition[] = [];
+    this.objects.forEach((obj) => {
+      const pos = toPosition(obj, date);
+      if (pos) out.push(pos);
+    });
+    return out;
+  }
+}
+
+export const orbitCatalog = new OrbitCatalog();
+
+// Element sets are valid for days; reload a few times a day
+const TLE_REFRESH_MS = 6 * 60 * 60 * 1000;
+let loading: Promise<void> | null = null;
+
+/**
+ * Make sure the shared catalog is loaded and reasonably fresh. Concurrent
+ * callers share one in-flight load; a failed refresh keeps the old catalog.
+ */
+export async function ensureOrbitCatalog(): Promise<OrbitCatalog> {
+  const stale = Date.now() - orbitCatalog.getLoadedAt() > TLE_REFRESH_MS;
+  if (orbitCatalog.size() > 0 && !stale) return orbitCatalog;
+
+  if (!loading) {
+    const source = getConfiguredTleSource();
+    loading = orbitCatalog
+      .load(source)
+      .then((count) => {
+        console.log(`[Orbit] Loaded ${count} element sets from ${source.name}`);
+      })
+      .catch((err) => {
+        console.error(`[Orbit] Failed to load element sets from ${source.name}:`, err);
+        if (orbitCatalog.size() === 0) throw err;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  await loading;
+  return orbitCatalog;
+}
@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+import fs from "fs";
+import { appRouter } from "./routers";
+import { DEFAULT_TLE_FILE, OrbitCatalog, isDaylight, orbitParameters, parseElementSets, subsolarPoint } from "./orbit-propagator";
+import type { TrpcContext } from "./_core/context";
+
+function createCtx(): TrpcContext {
+  return {
+    user: null,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as unknown as TrpcContext["res"],
+  };
+}
+
+const ISS_TLE = `ISS (ZARYA)
+1 25544U 98067A   26050.50000000  .00001234  00000-0  13571-3 0  9998
+2 25544  51.6391 212.4431 0004512  86.3214 273.8421 15.50143672123456`;
+
+const ISS_OMM = JSON.stringify([{
+  OBJECT_NAME: "ISS (ZARYA)",
+  OBJECT_ID: "1998-067A",
+  EPOCH: "2026-02-19T12:00:00.000000",
+  MEAN_MOTION: 15.50143672,
+  ECCENTRICITY: 0.0004512,
+  INCLINATION: 51.6391,
+  RA_OF_ASC_NODE: 212.4431,
+  ARG_OF_PERICENTER: 86.3214,
+  MEAN_ANOMALY: 273.8421,
+  EPHEMERIS_TYPE: 0,
+  CLASSIFICATION_TYPE: "U",
+  NORAD_CAT_ID: 25544,
+  ELEMENT_SET_NO: 999,
+  REV_AT_EPOCH: 12345,
+  BSTAR: 0.00013571,
+  MEAN_MOTION_DOT: 0.00001234,
+  MEAN_MOTION_DDOT: 0,
+}]);
+
+// ─── Element Set Parsing ──────────────────────────────────────────────────────
+
+describe("parseElementSets", () => {
+  it("parses three-line TLEs with names and COSPAR IDs", () => {
+    const [iss] = parseElementSets(ISS_TLE);
+    expect(iss?.id).toBe(25544);
+    expect(iss?.name).toBe("ISS (ZARYA)");
+    expect(iss?.intDesignator).toBe("1998-067A");
+  });
+
+  it("falls back to the NORAD ID when the name line is missing", () => {
+    const twoLine = ISS_TLE.split("\n").slice(1).join("\n");
+    const [iss] = parseElementSets(twoLine);
+    expect(iss?.name).toBe("25544");
+  });
+
+  it("parses OMM JSON arrays", () => {
+    const [iss] = parseElementSets(ISS_OMM);
+    expect(iss?.id).toBe(25544);
+    expect(iss?.intDesignator).toBe("1998-067A");
+  });
+
+  it("skips malformed entries", () => {
+    const objects = parseElementSets(`${ISS_TLE}\nBROKEN\n1 garbage\n2 garbage`);
+    expect(objects).toHaveLength(1);
+  });
+});
+
+// ─── Propagation ──────────────────────────────────────────────────────────────
+
+describe("OrbitCatalog", () => {
+  it("propagates the ISS to a LEO altitude", () => {
+    const catalog = new OrbitCatalog();
+    catalog.loadFrom(ISS_TLE);
+    const pos = catalog.propagate(25544, new Date("2026-02-20T00:00:00Z"));
+    expect(pos).not.toBeNull();
+    expect(pos!.altitude).toBeGreaterThan(350);
+    expect(pos!.altitude).toBeLessThan(450);
+    expect(Math.abs(pos!.latitude)).toBeLessThanOrEqual(52);
+    expect(pos!.velocity).toBeGreaterThan(7.5);
+  });
+
+  it("TLE and OMM inputs give the same position", () => {
+    const at = new Date("2026-02-21T06:00:00Z");
+    const fromTle = new OrbitCatalog();
+    fromTle.loadFrom(ISS_TLE);
+    const fromOmm = new OrbitCatalog();
+    fromOmm.loadFrom(ISS_OMM);
+    const a = fromTle.propagate(25544, at)!;
+    const b = fromOmm.propagate(25544, at)!;
+    expect(a.latitude).toBeCloseTo(b.latitude, 1);
+    expect(a.longitude).toBeCloseTo(b.longitude, 1);
+  });
+
+  it("moves continuously between requested times", () => {
+    const catalog = new OrbitCatalog();
+    catalog.loadFrom(ISS_TLE);
+    const t0 = new Date("2026-02-20T00:00:00Z");
+    const a = catalog.propagate(25544, t0)!;
+    const b = catalog.propagate(25544, new Date(t0.getTime() + 1000))!;
+    // ~7.7 km/s ground speed → well under a degree per second
+    expect(Math.abs(a.latitude - b.latitude)).toBeLessThan(0.2);
+    expect(a.latitude).not.toBe(b.latitude);
+  });
+
+  it("loads and propagates the bundled fixture", () => {
+    const catalog = new OrbitCatalog();
+    catalog.loadFrom(fs.readFileSync(DEFAULT_TLE_FILE, "utf8"));
+    expect(catalog.size()).toBeGreaterThan(20);
+    const positions = catalog.propagateAll(new Date("2026-03-01T00:00:00Z"));
+    expect(positions.length).toBe(catalog.size());
+  });
+});
+
+// ─── Ground Track ─────────────────────────────────────────────────────────────
+
+describe("subsolarPoint / isDaylight", () => {
+  it("puts the subsolar point near the equator at an equinox", () => {
+    const sun = subsolarPoint(new Date("2026-03-20T12:00:00Z"));
+    expect(Math.abs(sun.lat)).toBeLessThan(1);
+    // Local noon at Greenwich, give or take the equation of time
+    expect(Math.abs(sun.lon)).toBeLessThan(3);
+  });
+
+  it("is day under the sun and night at the antipode", () => {
+    const date = new Date("2026-06-21T12:00:00Z");
+    const sun = subsolarPoint(date);
+    expect(isDaylight(sun.lat, sun.lon, date)).toBe(true);
+    expect(isDaylight(-sun.lat, sun.lon + 180, date)).toBe(false);
+  });
+});
+
+describe("OrbitCatalog.groundTrack", () => {
+  it("samples one point per step across the window", () => {
+    const catalog = new OrbitCatalog();
+    catalog.loadFrom(ISS_TLE);
+    const from = new Date("2026-02-20T00:00:00Z");
+    const to = new Date(from.getTime() + 92 * 60_000);
+    const track = catalog.groundTrack(25544, from, to, 60_000);
+    expect(track).toHaveLength(93);
+    expect(track[1]!.time - track[0]!.time).toBe(60_000);
+    // A full LEO orbit crosses the terminator
+    expect(track.some((p) => p.daylight)).toBe(true);
+    expect(track.some((p) => !p.daylight)).toBe(true);
+  });
+
+  it("returns an empty track for unknown satellites", () => {
+    const catalog = new OrbitCatalog();
+    catalog.loadFrom(ISS_TLE);
+    expect(catalog.groundTrack(1, new Date(), new Date(Date.now() + 60_000), 60_000)).toEqual([]);
+  });
+});
+
+// ─── Orbit Parameters ─────────────────────────────────────────────────────────
+
+describe("orbitParameters", () => {
+  it("derives readable elements for the ISS", () => {
+    const [iss] = parseElementSets(ISS_TLE);
+    const orbit = orbitParameters(iss!);
+    expect(orbit.inclination).toBeCloseTo(51.6391, 3);
+    expect(orbit.eccentricity).toBeCloseTo(0.0004512, 7);
+    expect(orbit.periodMinutes).toBeGreaterThan(92);
+    expect(orbit.periodMinutes).toBeLessThan(94);
+    expect(orbit.perigee).toBeGreaterThan(400);
+    expect(orbit.apogee).toBeGreaterThan(orbit.perigee);
+    expect(orbit.apogee - orbit.perigee).toBeLessThan(15);
+    expect(new Date(orbit.epoch).toISOString()).toBe("2026-02-19T12:00:00.000Z");
+  });
+});
+
+// ─── Router Integration ───────────────────────────────────────────────────────
+
+describe("satellites.tracked (SATELLITE_PROVIDER=tle)", () => {
+  it("serves propagated positions without an N2YO key", async () => {
+    const original = process.env.SATELLITE_PROVIDER;
+    process.env.SATELLITE_PROVIDER = "tle";
+
+    const caller = appRouter.createCaller(createCtx());
+    const at = Date.parse("2026-03-01T00:00:00Z");
+    const result = await caller.satellites.tracked({ at });
+
+    expect(result.available).toBe(true);
+    expect(result.source).toBe("tle");
+    expect(result.satellites.length).toBeGreaterThan(20);
+    const iss = result.satellites.find((s) => s.id === 25544);
+    expect(iss?.category).toBe("station");
+    expect(iss?.featured).toBe(true);
+
+    if (original) process.env.SATELLITE_PROVIDER = original;
+    else delete process.env.SATELLITE_PROVIDER;
+  });
+});
+
+describe("satellites.groundTrack", () => {
+  it("returns ±1 orbit of minute samples for a fixture satellite", async () => {
+    const caller = appRouter.createCaller(createCtx());
+    const result = await caller.satellites.groundTrack({ satId: 25544 });
+    expect(result.available).toBe(true);
+    if (!result.available) return;
+    expect(result.periodMinutes).toBeGreaterThan(90);
+    expect(result.periodMinutes).toBeLessThan(95);
+    expect(result.stepMs).toBe(60_000);
+    expect(result.points.length).toBeGreaterThan(180);
+    expect(result.points[0]!.time).toBeLessThan(result.now);
+    expect(result.points[result.points.length - 1]!.time).toBeGreaterThan(result.now);
+  });
+
+  it("reports unavailable for satellites without elements", async () => {
+    const caller = appRouter.createCaller(createCtx());
+    const result = await caller.satellites.groundTrack({ satId: 1 });
+    expect(result.available).toBe(false);
+    expect(result.points).toEqual([]);
+  });
+});
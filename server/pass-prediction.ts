@@ -0,0 +1,199 @@
+/**
+ * Satellite Pass Prediction
+ *
+ * Finds when an object from the orbit catalog rises above, culminates and
+ * sets below an observer's horizon. The window is scanned with a coarse step
+ * and each horizon crossing / culmination is refined by bisection, so results
+ * are accurate to about a second without propagating every second.
+ *
+ * A pass is "visible" to the naked eye when the satellite is sunlit while the
+ * observer is in darkness (Sun below civil twilight, -6°).
+ */
+
+import {
+  degreesToRadians,
+  eciToEcf,
+  ecfToLookAngles,
+  gstime,
+  jday,
+  propagate,
+  shadowFraction,
+  sunPos,
+} from "satellite.js";
+import { subsolarPoint, type OrbitalObject } from "./orbit-propagator";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface Observer {
+  lat: number;  // degrees
+  lon: number;  // degrees
+  alt: number;  // metres above the ellipsoid
+}
+
+export interface PassEvent {
+  time: number;       // ms timestamp
+  azimuth: number;    // degrees, clockwise from north
+  elevation: number;  // degrees above the horizon
+}
+
+export interface SatellitePass {
+  rise: PassEvent;
+  culmination: PassEvent;
+  set: PassEvent;
+  maxElevation: number;
+  durationSec: number;
+  sunlit: boolean;    // satellite is illuminated at some point of the pass
+  visible: boolean;   // sunlit while the observer is in darkness
+}
+
+export interface PassOptions {
+  minElevation?: number;  // degrees; passes peaking lower are dropped
+  stepMs?: number;        // coarse scan step
+  maxPasses?: number;
+}
+
+const CIVIL_TWILIGHT_DEG = -6;
+const REFINE_TOLERANCE_MS = 1000;
+
+// ─── Look Angles ──────────────────────────────────────────────────────────────
+
+function lookAt(obj: OrbitalObject, observer: Observer, time: number): PassEvent | null {
+  const date = new Date(time);
+  const pv = propagate(obj.satrec, date);
+  if (!pv) return null;
+  const ecf = eciToEcf(pv.position, gstime(date));
+  const look = ecfToLookAngles(
+    {
+      latitude: degreesToRadians(observer.lat),
+      longitude: degreesToRadians(observer.lon),
+      height: observer.alt / 1000,
+    },
+    ecf
+  );
+  return {
+    time,
+    azimuth: (look.azimuth * 180) / Math.PI,
+    elevation: (look.elevation * 180) / Math.PI,
+  };
+}
+
+/** Elevation of the Sun above the observer's horizon, ignoring refraction. */
+export function solarElevation(lat: number, lon: number, date: Date): number {
+  const sun = subsolarPoint(date);
+  const φ1 = (lat * Math.PI) / 180;
+  const φ2 = (sun.lat * Math.PI) / 180;
+  const dλ = ((lon - sun.lon) * Math.PI) / 180;
+  const cosAngle = Math.sin(φ1) * Math.sin(φ2) + Math.cos(φ1) * Math.cos(φ2) * Math.cos(dλ);
+  return 90 - (Math.acos(Math.max(-1, Math.min(1, cosAngle))) * 180) / Math.PI;
+}
+
+function isSatelliteSunlit(obj: OrbitalObject, time: number): boolean {
+  const date = new Date(time);
+  const pv = propagate(obj.satrec, date);
+  if (!pv) return false;
+  return shadowFraction(sunPos(jday(date)).rsun, pv.position) < 1;
+}
+
+// ─── Refinement ───────────────────────────────────────────────────────────────
+
+/** Bisect for the horizon crossing between `lo` (below) and `hi` (above) or vice versa. */
+function refineCrossing(obj: OrbitalObject, observer: Observer, lo: number, hi: number): PassEvent | null {
+  const loAbove = (lookAt(obj, observer, lo)?.elevation ?? -90) > 0;
+  while (hi - lo > REFINE_TOLERANCE_MS) {
+    const mid = (lo + hi) / 2;
+    const midAbove = (lookAt(obj, observer, mid)?.elevation ?? -90) > 0;
+    if (midAbove === loAbove) lo = mid;
+    else hi = mid;
+  }
+  return lookAt(obj, observer, Math.round(loAbove ? lo : hi));
+}
+
+/** Ternary search for peak elevation inside [lo, hi]. */
+function refineCulmination(obj: OrbitalObject, observer: Observer, lo: number, hi: number): PassEvent | null {
+  while (hi - lo > REFINE_TOLERANCE_MS) {
+    const m1 = lo + (hi - lo) / 3;
+    const m2 = hi - (hi - lo) / 3;
+    const e1 = lookAt(obj, observer, m1)?.elevation ?? -90;
+    const e2 = lookAt(obj, observer, m2)?.elevation ?? -90;
+    if (e1 < e2) lo = m1;
+    else hi = m2;
+  }
+  return lookAt(obj, observer, Math.round((lo + hi) / 2));
+}
+
+// ─── Pass Search ──────────────────────────────────────────────────────────────
+
+/**
+ * Predict passes of `obj` over `observer` between `from` and `to`. A pass
+ * already in progress at `from` is reported with its rise clamped to `from`.
+ */
+export function predictPasses(
+  obj: OrbitalObject,
+  observer: Observer,
+  from: Date,
+  to: Date,
+  options: PassOptions = {}
+): SatellitePass[] {
+  const { minElevation = 10, stepMs = 30_000, maxPasses = 20 } = options;
+  const passes: SatellitePass[] = [];
+  const end = to.getTime();
+
+  let prev = lookAt(obj, observer, from.getTime());
+  let riseTime: number | null = prev && prev.elevation > 0 ? prev.time : null;
+  let rise: PassEvent | null = riseTime != null ? prev : null;
+  let peakSample: PassEvent | null = rise;
+
+  for (let t = from.getTime() + stepMs; t <= end && passes.length < maxPasses; t += stepMs) {
+    const cur = lookAt(obj, observer, t);
+    if (!cur || !prev) {
+      prev = cur;
+      continue;
+    }
+
+    if (prev.elevation <= 0 && cur.elevation > 0) {
+      rise = refineCrossing(obj, observer, prev.time, cur.time);
+      riseTime = rise?.time ?? cur.time;
+      peakSample = cur;
+    } else if (riseTime != null && cur.elevation > 0) {
+      if (!peakSample || cur.elevation > peakSample.elevation) peakSample = cur;
+    } else if (riseTime != null && prev.elevation > 0 && cur.elevation <= 0) {
+      const set = refineCrossing(obj, observer, prev.time, cur.time);
+      const peakAt = peakSample?.time ?? prev.time;
+      const culmination = refineCulmination(
+        obj, observer, Math.max(riseTime, peakAt - stepMs), Math.min(set?.time ?? cur.time, peakAt + stepMs)
+      );
+      if (rise && set && culmination && culmination.elevation >= minElevation) {
+        passes.push(buildPass(obj, observer, rise, culmination, set));
+      }
+      riseTime = null;
+      rise = null;
+      peakSample = null;
+    }
+    prev = cur;
+  }
+  return passes;
+}
+
+function buildPass(
+  obj: OrbitalObject,
+  observer: Observer,
+  rise: PassEvent,
+  culmination: PassEvent,
+  set: PassEvent
+): SatellitePass {
+  // Sample rise, peak and set: a LEO pass rarely enters or leaves shadow
+  // more than once, so three samples are enough to flag it
+  const samples = [rise.time, culmination.time, set.time].map((t) => ({
+    sunlit: isSatelliteSunlit(obj, t),
+    dark: solarElevation(observer.lat, observer.lon, new Date(t)) < CIVIL_TWILIGHT_DEG,
+  }));
+  return {
+    rise,
+    culmination,
+    set,
+    maxElevation: culmination.elevation,
+    durationSec: Math.round((set.time - rise.time) / 1000),
+    sunlit: samples.some((s) => s.sunlit),
+    visible: samples.some((s) => s.sunlit && s.dark),
+  };
+}
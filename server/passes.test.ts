@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { appRouter } from "./routers";
+import { OrbitCatalog } from "./orbit-propagator";
+import { predictPasses, solarElevation } from "./pass-prediction";
+import type { TrpcContext } from "./_core/context";
+
+function createCtx(): TrpcContext {
+  return {
+    user: null,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as unknown as TrpcContext["res"],
+  };
+}
+
+const ISS_TLE = `ISS (ZARYA)
+1 25544U 98067A   26050.50000000  .00001234  00000-0  13571-3 0  9998
+2 25544  51.6391 212.4431 0004512  86.3214 273.8421 15.50143672123456`;
+
+const TOKYO = { lat: 35.6762, lon: 139.6503, alt: 40 };
+
+function issCatalog() {
+  const catalog = new OrbitCatalog();
+  catalog.loadFrom(ISS_TLE);
+  return catalog;
+}
+
+// ─── Solar Elevation ──────────────────────────────────────────────────────────
+
+describe("solarElevation", () => {
+  it("is high at local noon and negative at local midnight", () => {
+    // Greenwich at the March equinox
+    expect(solarElevation(0, 0, new Date("2026-03-20T12:00:00Z"))).toBeGreaterThan(80);
+    expect(solarElevation(0, 0, new Date("2026-03-20T00:00:00Z"))).toBeLessThan(-80);
+  });
+});
+
+// ─── Pass Search ──────────────────────────────────────────────────────────────
+
+describe("predictPasses", () => {
+  const from = new Date("2026-02-20T00:00:00Z");
+  const to = new Date("2026-02-22T00:00:00Z");
+
+  it("finds ordered ISS passes over Tokyo with consistent events", () => {
+    const passes = predictPasses(issCatalog().get(25544)!, TOKYO, from, to, { minElevation: 0 });
+    expect(passes.length).toBeGreaterThan(2);
+    for (const p of passes) {
+      expect(p.rise.time).toBeLessThan(p.culmination.time);
+      expect(p.culmination.time).toBeLessThan(p.set.time);
+      // Horizon crossings are refined to about a second
+      expect(Math.abs(p.rise.elevation)).toBeLessThan(0.2);
+      expect(Math.abs(p.set.elevation)).toBeLessThan(0.2);
+      expect(p.maxElevation).toBeLessThanOrEqual(90);
+      // A LEO pass lasts at most ~12 minutes
+      expect(p.durationSec).toBeLessThan(12 * 60);
+      expect(p.rise.azimuth).toBeGreaterThanOrEqual(0);
+      expect(p.rise.azimuth).toBeLessThan(360);
+    }
+    for (let i = 1; i < passes.length; i++) {
+      expect(passes[i]!.rise.time).toBeGreaterThan(passes[i - 1]!.set.time);
+    }
+  });
+
+  it("drops passes below the minimum elevation", () => {
+    const obj = issCatalog().get(25544)!;
+    const all = predictPasses(obj, TOKYO, from, to, { minElevation: 0 });
+    const high = predictPasses(obj, TOKYO, from, to, { minElevation: 30 });
+    expect(high.length).toBeLessThan(all.length);
+    expect(high.every((p) => p.maxElevation >= 30)).toBe(true);
+  });
+
+  it("only marks sunlit passes as visible", () => {
+    const passes = predictPasses(issCatalog().get(25544)!, TOKYO, from, to, { minElevation: 0 });
+    expect(passes.every((p) => !p.visible || p.sunlit)).toBe(true);
+  });
+
+  it("finds nothing for an observer the orbit never reaches", () => {
+    const pole = { lat: 89.9, lon: 0, alt: 0 };
+    expect(predictPasses(issCatalog().get(25544)!, pole, from, to)).toEqual([]);
+  });
+});
+
+// ─── Router Integration ───────────────────────────────────────────────────────
+
+describe("satellites.passes", () => {
+  it("predicts ISS passes from the bundled fixture", async () => {
+    const caller = appRouter.createCaller(createCtx());
+    const result = await caller.satellites.passes({
+      satId: 25544,
+      ...TOKYO,
+      start: Date.parse("2026-02-20T00:00:00Z"),
+      hours: 48,
+    });
+    expect(result.available).toBe(true);
+    expect(result.passes.length).toBeGreaterThan(0);
+    expect(result.passes.every((p) => p.maxElevation >= 10)).toBe(true);
+  });
+
+  it("reports unavailable for satellites without elements", async () => {
+    const caller = appRouter.createCaller(createCtx());
+    const result = await caller.satellites.passes({ satId: 1, lat: 0, lon: 0 });
+    expect(result.available).toBe(false);
+  });
+});
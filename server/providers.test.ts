@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { appRouter } from "./routers";
+import { fixtureProvider, getSatelliteProvider, n2yoProvider, DEFAULT_SATELLITE_FIXTURE } from "./satellite-provider";
+import type { TrpcContext } from "./_core/context";
+
+function createCtx(): TrpcContext {
+  return {
+    user: null,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as unknown as TrpcContext["res"],
+  };
+}
+
+const ENV_KEYS = ["N2YO_API_KEY", "SATELLITE_PROVIDER", "SATELLITE_FIXTURE_FILE"] as const;
+let savedEnv: Record<string, string | undefined> = {};
+
+beforeEach(() => {
+  savedEnv = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+  for (const k of ENV_KEYS) delete process.env[k];
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  for (const k of ENV_KEYS) {
+    if (savedEnv[k] === undefined) delete process.env[k];
+    else process.env[k] = savedEnv[k];
+  }
+});
+
+// ─── Selection ────────────────────────────────────────────────────────────────
+
+describe("getSatelliteProvider", () => {
+  it("falls back to local propagation without an N2YO key", () => {
+    expect(getSatelliteProvider().name).toBe("tle");
+  });
+
+  it("uses N2YO when a key is configured", () => {
+    process.env.N2YO_API_KEY = "test-key";
+    const provider = getSatelliteProvider();
+    expect(provider.name).toBe("n2yo");
+    expect(provider.unavailableReason()).toBeNull();
+  });
+
+  it("honours an explicit SATELLITE_PROVIDER", () => {
+    process.env.N2YO_API_KEY = "test-key";
+    process.env.SATELLITE_PROVIDER = "fixture";
+    expect(getSatelliteProvider().name).toBe("fixture");
+  });
+
+  it("reports N2YO as unavailable when selected without a key", () => {
+    process.env.SATELLITE_PROVIDER = "n2yo";
+    expect(getSatelliteProvider().unavailableReason()).toBe("N2YO API key not configured");
+  });
+});
+
+// ─── Fixture Provider ─────────────────────────────────────────────────────────
+
+describe("fixtureProvider", () => {
+  it("serves the bundled /above snapshot with categories and pinned flags", async () => {
+    const provider = fixtureProvider(DEFAULT_SATELLITE_FIXTURE);
+    const sats = await provider.tracked(new Date());
+    expect(sats.length).toBeGreaterThan(20);
+    const iss = sats.find((s) => s.id === 25544);
+    expect(iss?.category).toBe("station");
+    expect(iss?.featured).toBe(true);
+    expect(sats.some((s) => s.category === "starlink")).toBe(true);
+
+    const hst = await provider.position(20580, new Date());
+    expect(hst?.name).toBe("HST");
+    expect(await provider.position(1, new Date())).toBeNull();
+  });
+
+  it("reads a captured N2YO response from SATELLITE_FIXTURE_FILE", async () => {
+    const file = path.join(os.tmpdir(), `sat-fixture-${process.pid}.json`);
+    fs.writeFileSync(file, JSON.stringify({
+      info: { category: "ANY", transactionscount: 12, satcount: 1 },
+      above: [{ satid: 44713, satname: "STARLINK-1007", intDesignator: "2019-074A", launchDate: "2019-11-11", satlat: 12.5, satlng: -40.25, satalt: 550.1 }],
+    }));
+    process.env.SATELLITE_PROVIDER = "fixture";
+    process.env.SATELLITE_FIXTURE_FILE = file;
+
+    const caller = appRouter.createCaller(createCtx());
+    const result = await caller.satellites.tracked();
+    fs.unlinkSync(file);
+
+    expect(result.available).toBe(true);
+    expect(result.source).toBe("fixture");
+    expect(result.satellites).toEqual([
+      {
+        id: 44713, name: "STARLINK-1007", latitude: 12.5, longitude: -40.25, altitude: 550.1,
+        category: "starlink", intDesignator: "2019-074A", launchDate: "2019-11-11",
+      },
+    ]);
+  });
+});
+
+// ─── Router ───────────────────────────────────────────────────────────────────
+
+describe("satellites.tracked (no configuration)", () => {
+  it("keeps satellites available offline via the TLE fallback", async () => {
+    const caller = appRouter.createCaller(createCtx());
+    const result = await caller.satellites.tracked();
+    expect(result.available).toBe(true);
+    expect(result.source).toBe("tle");
+    expect(result.satellites.length).toBeGreaterThan(20);
+  });
+
+  it("serves single positions from the active provider", async () => {
+    process.env.SATELLITE_PROVIDER = "fixture";
+    const caller = appRouter.createCaller(createCtx());
+    const iss = await caller.satellites.position({ satId: 25544 });
+    expect(iss.category).toBe("station");
+  });
+});
+
+// ─── Details ──────────────────────────────────────────────────────────────────
+
+describe("satellites.details", () => {
+  it("merges the provider position with orbit parameters", async () => {
+    process.env.SATELLITE_PROVIDER = "fixture";
+    const caller = appRouter.createCaller(createCtx());
+    const result = await caller.satellites.details({ satId: 25544 });
+    expect(result.available).toBe(true);
+    if (!result.available) return;
+    expect(result.source).toBe("fixture");
+    expect(result.intDesignator).toBe("1998-067A");
+    expect(result.inclination).toBeCloseTo(51.64, 1);
+    expect(result.periodMinutes).toBeGreaterThan(90);
+    expect(result.apogee).toBeGreaterThan(result.perigee!);
+    expect(result.velocity).toBeGreaterThan(7);
+    expect(result.owner).toBe("International (ISS partners)");
+    expect(result.launchDate).toBeUndefined();  // fixture snapshot has none
+  });
+
+  it("reports unknown satellites as unavailable", async () => {
+    process.env.SATELLITE_PROVIDER = "tle";
+    const result = await appRouter.createCaller(createCtx()).satellites.details({ satId: 1 });
+    expect(result.available).toBe(false);
+  });
+
+  it("fetches elements from N2YO /tle for objects missing from the catalog", async () => {
+    const urls: string[] = [];
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => {
+      urls.push(url);
+      return new Response(JSON.stringify({
+        info: { satid: 25544, satname: "SPACE STATION", transactionscount: 3 },
+        tle: "1 25544U 98067A   26050.50000000  .00001234  00000-0  13571-3 0  9998\r\n2 25544  51.6391 212.4431 0004512  86.3214 273.8421 15.50143672123456",
+      }));
+    }));
+
+    const provider = n2yoProvider("test-key");
+    const elements = await provider.elements(99998);  // not in the bundled catalog
+    expect(urls.some((u) => u.includes("/tle/99998"))).toBe(true);
+    expect(elements?.name).toBe("SPACE STATION");
+  });
+});
+
+// ─── Orbit Procedures ─────────────────────────────────────────────────────────
+
+describe("orbit procedures on the N2YO provider", () => {
+  beforeEach(() => {
+    process.env.N2YO_API_KEY = "test-key";
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({
+      info: { satid: 99998, satname: "N2YO ONLY", transactionscount: 3 },
+      tle: "1 25544U 98067A   26050.50000000  .00001234  00000-0  13571-3 0  9998\r\n2 25544  51.6391 212.4431 0004512  86.3214 273.8421 15.50143672123456",
+    }))));
+  });
+
+  it("draws ground tracks for satellites missing from the catalog", async () => {
+    const result = await appRouter.createCaller(createCtx()).satellites.groundTrack({ satId: 99998 });
+    expect(result.available).toBe(true);
+    if (!result.available) return;
+    expect(result.name).toBe("N2YO ONLY");
+    expect(result.points.length).toBeGreaterThan(0);
+  });
+
+  it("predicts passes for satellites missing from the catalog", async () => {
+    const result = await appRouter.createCaller(createCtx()).satellites.passes({
+      satId: 99998, lat: 35.6762, lon: 139.6503, start: Date.parse("2026-02-20T00:00:00Z"), hours: 48,
+    });
+    expect(result.available).toBe(true);
+    if (!result.available) return;
+    expect(result.name).toBe("N2YO ONLY");
+    expect(result.passes.length).toBeGreaterThan(0);
+  });
+});
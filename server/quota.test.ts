@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import { N2yoQuota, n2yoQuota } from "./n2yo-quota";
+import { n2yoProvider } from "./satellite-provider";
+import type { TrpcContext } from "./_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createCtx(role?: AuthenticatedUser["role"]): TrpcContext {
+  const user: AuthenticatedUser | null = role
+    ? {
+        id: 1,
+        openId: "sample-user",
+        email: "sample@example.com",
+        name: "Sample User",
+        loginMethod: "manus",
+        role,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        lastSignedIn: new Date(),
+      }
+    : null;
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as unknown as TrpcContext["res"],
+  };
+}
+
+const HOUR = 60 * 60 * 1000;
+
+function clock(start = 0) {
+  let t = start;
+  return { now: () => t, advance: (ms: number) => { t += ms; } };
+}
+
+// ─── Budget Accounting ────────────────────────────────────────────────────────
+
+describe("N2yoQuota", () => {
+  it("counts calls in a rolling one-hour window", () => {
+    const c = clock();
+    const quota = new N2yoQuota(100, c.now);
+    quota.record("above");
+    quota.record("positions");
+    expect(quota.used()).toBe(2);
+    c.advance(HOUR - 1);
+    quota.record("above");
+    expect(quota.used()).toBe(3);
+    c.advance(1);
+    expect(quota.used()).toBe(1);
+    expect(quota.snapshot(30_000, 4).calls).toEqual({ above: 1, positions: 0, tle: 0 });
+  });
+
+  it("trusts N2YO's reported count when it is higher than ours", () => {
+    const c = clock();
+    const quota = new N2yoQuota(1000, c.now);
+    quota.record("above", 600);  // another process shares the key
+    c.advance(1000);
+    quota.record("positions");
+    expect(quota.used()).toBe(601);
+    expect(quota.remaining()).toBe(399);
+    c.advance(HOUR);
+    expect(quota.used()).toBe(0);
+  });
+
+  it("degrades before the limit and stops at the reserve", () => {
+    const quota = new N2yoQuota(100, clock().now);
+    expect(quota.mode()).toBe("normal");
+    quota.record("above", 75);
+    expect(quota.mode()).toBe("degraded");
+    expect(quota.canSpend()).toBe(true);
+    quota.record("above", 95);
+    expect(quota.mode()).toBe("exhausted");
+    expect(quota.canSpend()).toBe(false);
+  });
+
+  it("stretches the cache TTL as the budget drains", () => {
+    const quota = new N2yoQuota(1000, clock().now);
+    expect(quota.cacheTtlMs(30_000, 4)).toBe(30_000);
+    quota.record("above", 900);
+    const ttl = quota.cacheTtlMs(30_000, 4);
+    expect(ttl).toBeGreaterThan(30_000);
+    expect(ttl).toBeLessThanOrEqual(10 * 60 * 1000);
+  });
+});
+
+// ─── Provider Integration ─────────────────────────────────────────────────────
+
+function aboveResponse(transactionscount: number) {
+  return {
+    info: { category: "ANY", transactionscount, satcount: 5 },
+    above: [25544, 48274, 20580, 44713, 44714].map((satid) => ({
+      satid, satname: `SAT ${satid}`, intDesignator: "", launchDate: "",
+      satlat: 10, satlng: 20, satalt: 500,
+    })),
+  };
+}
+
+describe("n2yoProvider budget", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("records transactions and skips pinned lookups when degraded", async () => {
+    const urls: string[] = [];
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => {
+      urls.push(url);
+      return new Response(JSON.stringify(aboveResponse(800)));
+    }));
+
+    const before = n2yoQuota.snapshot(30_000, 4).calls.above;
+    n2yoQuota.record("above", 800);  // push the shared budget into degraded mode
+    const sats = await n2yoProvider("test-key").tracked(new Date());
+
+    expect(urls.length).toBe(1);
+    expect(urls[0]).toContain("/above/");
+    expect(n2yoQuota.snapshot(30_000, 4).calls.above).toBe(before + 2);
+    expect(sats.find((s) => s.id === 25544)?.featured).toBe(true);
+  });
+});
+
+// ─── Admin Procedure ──────────────────────────────────────────────────────────
+
+describe("satellites.quota", () => {
+  it("is restricted to admins", async () => {
+    await expect(appRouter.createCaller(createCtx()).satellites.quota()).rejects.toThrow();
+    await expect(appRouter.createCaller(createCtx("user")).satellites.quota()).rejects.toThrow();
+  });
+
+  it("returns the current budget for admins", async () => {
+    const snapshot = await appRouter.createCaller(createCtx("admin")).satellites.quota();
+    expect(snapshot.limit).toBe(1000);
+    expect(snapshot.remaining).toBe(snapshot.limit - snapshot.used);
+    expect(["normal", "degraded", "exhausted"]).toContain(snapshot.mode);
+  });
+});
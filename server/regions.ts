@@ -0,0 +1,136 @@
+/**
+ * Country and Continent Lookup
+ *
+ * Reverse-geocodes strikes offline against the same Natural Earth 1:110m
+ * country outlines the globe draws (client/public/world-110m.json). Lookups
+ * are made once per density grid cell (shared/density.ts, ~111 km) at its
+ * center and cached, so strikes within a cell or so of a border or coast may
+ * be attributed to the neighbour or to open water. Points outside every
+ * country are reported as `null` (ocean, or land too small for the map).
+ */
+
+import fs from "fs";
+import path from "path";
+import { geoBounds, geoContains } from "d3";
+import { feature } from "topojson-client";
+import type { GeometryCollection, Topology } from "topojson-specification";
+import { densityCellBounds, densityCellId } from "@shared/density";
+
+export type Continent = "Africa" | "Antarctica" | "Asia" | "Europe" | "North America" | "Oceania" | "South America";
+
+export interface Region {
+  country: string;
+  continent: Continent;
+}
+
+// Keyed by the `name` property of the 110m map
+const CONTINENT_COUNTRIES: Record<Continent, string[]> = {
+  "Africa": [
+    "Algeria", "Angola", "Benin", "Botswana", "Burkina Faso", "Burundi", "Cameroon", "Central African Rep.",
+    "Chad", "Congo", "Côte d'Ivoire", "Dem. Rep. Congo", "Djibouti", "Egypt", "Eq. Guinea", "Eritrea",
+    "eSwatini", "Ethiopia", "Gabon", "Gambia", "Ghana", "Guinea", "Guinea-Bissau", "Kenya", "Lesotho",
+    "Liberia", "Libya", "Madagascar", "Malawi", "Mali", "Mauritania", "Morocco", "Mozambique", "Namibia",
+    "Niger", "Nigeria", "Rwanda", "S. Sudan", "Senegal", "Sierra Leone", "Somalia", "Somaliland",
+    "South Africa", "Sudan", "Tanzania", "Togo", "Tunisia", "Uganda", "W. Sahara", "Zambia", "Zimbabwe",
+  ],
+  "Antarctica": ["Antarctica", "Fr. S. Antarctic Lands"],
+  "Asia": [
+    "Afghanistan", "Armenia", "Azerbaijan", "Bangladesh", "Bhutan", "Brunei", "Cambodia", "China", "Cyprus",
+    "Georgia", "India", "Indonesia", "Iran", "Iraq", "Israel", "Japan", "Jordan", "Kazakhstan", "Kuwait",
+    "Kyrgyzstan", "Laos", "Lebanon", "Malaysia", "Mongolia", "Myanmar", "N. Cyprus", "Nepal", "North Korea",
+    "Oman", "Pakistan", "Palestine", "Philippines", "Qatar", "Saudi Arabia", "South Korea", "Sri Lanka",
+    "Syria", "Taiwan", "Tajikistan", "Thailand", "Timor-Leste", "Turkey", "Turkmenistan",
+    "United Arab Emirates", "Uzbekistan", "Vietnam", "Yemen",
+  ],
+  "Europe": [
+    "Albania", "Austria", "Belarus", "Belgium", "Bosnia and Herz.", "Bulgaria", "Croatia", "Czechia",
+    "Denmark", "Estonia", "Finland", "France", "Germany", "Greece", "Hungary", "Iceland", "Ireland", "Italy",
+    "Kosovo", "Latvia", "Lithuania", "Luxembourg", "Macedonia", "Moldova", "Montenegro", "Netherlands",
+    "Norway", "Poland", "Portugal", "Romania", "Russia", "Serbia", "Slovakia", "Slovenia", "Spain", "Sweden",
+    "Switzerland", "Ukraine", "United Kingdom",
+  ],
+  "North America": [
+    "Bahamas", "Belize", "Canada", "Costa Rica", "Cuba", "Dominican Rep.", "El Salvador", "Greenland",
+    "Guatemala", "Haiti", "Honduras", "Jamaica", "Mexico", "Nicaragua", "Panama", "Puerto Rico",
+    "Trinidad and Tobago", "United States of America",
+  ],
+  "Oceania": ["Australia", "Fiji", "New Caledonia", "New Zealand", "Papua New Guinea", "Solomon Is.", "Vanuatu"],
+  "South America": [
+    "Argentina", "Bolivia", "Brazil", "Chile", "Colombia", "Ecuador", "Falkland Is.", "Guyana", "Paraguay",
+    "Peru", "Suriname", "Uruguay", "Venezuela",
+  ],
+};
+
+const CONTINENT_BY_COUNTRY = new Map<string, Continent>(
+  (Object.entries(CONTINENT_COUNTRIES) as Array<[Continent, string[]]>).flatMap(([continent, names]) =>
+    names.map((name) => [name, continent] as const)
+  )
+);
+
+export function continentOf(country: string): Continent | null {
+  return CONTINENT_BY_COUNTRY.get(country) ?? null;
+}
+
+// ─── Country Outlines ─────────────────────────────────────────────────────────
+
+const WORLD_FILES = [
+  path.resolve(process.cwd(), "client", "public", "world-110m.json"),
+  path.resolve(process.cwd(), "dist", "public", "world-110m.json"),
+];
+
+interface CountryShape {
+  name: string;
+  feature: GeoJSON.Feature;
+  bounds: [[number, number], [number, number]];  // [[west, south], [east, north]]; west > east across the antimeridian
+}
+
+let countries: CountryShape[] | null = null;
+
+function loadCountries(): CountryShape[] {
+  if (countries) return countries;
+  const file = WORLD_FILES.find((f) => fs.existsSync(f));
+  if (!file) {
+    console.warn("[Regions] world-110m.json not found; strikes will not be attributed to countries");
+    countries = [];
+    return countries;
+  }
+  const world = JSON.parse(fs.readFileSync(file, "utf8")) as Topology;
+  const collection = feature(world, world.objects["countries"] as GeometryCollection) as GeoJSON.FeatureCollection;
+  countries = collection.features.map((f) => ({
+    name: String(f.properties?.["name"] ?? "Unknown"),
+    feature: f,
+    bounds: geoBounds(f),
+  }));
+  return countries;
+}
+
+function inBounds([lon, lat]: [number, number], [[west, south], [east, north]]: CountryShape["bounds"]): boolean {
+  if (lat < south || lat > north) return false;
+  return west <= east ? lon >= west && lon <= east : lon >= west || lon <= east;
+}
+
+/** Country containing the point, tested exactly (uncached). */
+export function countryAt(lat: number, lon: number): string | null {
+  const point: [number, number] = [lon, lat];
+  return loadCountries().find((c) => inBounds(point, c.bounds) && geoContains(c.feature, point))?.name ?? null;
+}
+
+const cellRegions = new Map<number, Region | null>();
+
+/** Region at a density grid cell's center; cached. */
+export function regionOfCell(cell: number): Region | null {
+  let region = cellRegions.get(cell);
+  if (region === undefined) {
+    const b = densityCellBounds(cell);
+    const country = countryAt((b.south + b.north) / 2, (b.west + b.east) / 2);
+    const continent = country ? continentOf(country) : null;
+    region = country && continent ? { country, continent } : null;
+    cellRegions.set(cell, region);
+  }
+  return region;
+}
+
+/** Region for a strike, looked up once per density grid cell. */
+export function regionAt(lat: number, lon: number): Region | null {
+  return regionOfCell(densityCellId(lat, lon));
+}
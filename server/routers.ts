@@ -1,153 +1,106 @@
+import { MAX_ALERT_ZONES, MAX_ZONE_RADIUS_KM, MAX_ZONE_VERTICES } from "@shared/alerts";
 import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router } from "./_core/trpc";
+import { adminProcedure, protectedProcedure, publicProcedure, router } from "./_core/trpc";
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { GoogleGenAI } from "@google/genai";
+import { groundTrackOf, orbitalPeriodMinutes } from "./orbit-propagator";
+import { predictPasses } from "./pass-prediction";
+import { addAlertZone, addWatchlistEntry, getAlertZones, getWatchlist, removeAlertZone, removeWatchlistEntry } from "./db";
+import { lightningAlerts } from "./lightning-alerts";
+import { lightningDensity } from "./lightning-density";
+import { lightningStats } from "./lightning-stats";
+import { lightningStore } from "./lightning-store";
+import { getLightningSourceStatus } from "./lightning-ws";
+import { stormCells } from "./storm-cells";
+import { getAISStreamStatus, setVesselViewport, vesselStore } from "./vessel-ws";
+import { vesselHazards } from "./vessel-hazards";
+import { N2yoQuotaExceededError, n2yoQuota } from "./n2yo-quota";
+import {
+  CALLS_PER_REFRESH,
+  getSatelliteDetails,
+  getSatelliteProvider,
+  SAT_CACHE_TTL_MS,
+  type SatelliteRecord,
+} from "./satellite-provider";
+
+// ─── Ground Tracks ────────────────────────────────────────────────────────────
+
+// Ground tracks are sampled on whole minutes so the globe can draw one tick per
+// sample; long periods (MEO/GEO) fall back to coarser steps to bound the payload
+const GROUND_TRACK_MAX_POINTS = 600;
+
+async function computeGroundTrack(satId: number, orbits: number, now: number) {
+  // Through the provider, so N2YO can fill in objects missing from the catalog
+  const obj = await getSatelliteProvider().elements(satId);
+  if (!obj) return null;
+
+  const periodMinutes = orbitalPeriodMinutes(obj);
+  const spanMs = periodMinutes * orbits * 60_000;
+  const minuteMs = 60_000;
+  const stepMs = Math.max(1, Math.ceil((2 * spanMs) / GROUND_TRACK_MAX_POINTS / minuteMs)) * minuteMs;
+  const start = Math.floor((now - spanMs) / stepMs) * stepMs;
 
-// ─── N2YO Satellite Data ──────────────────────────────────────────────────────
-
-// A few important satellites to always include via /positions for accuracy
-const PINNED_SATELLITES = [
-  { id: 25544, name: "ISS" },
-  { id: 48274, name: "CSS (Tianhe)" },
-  { id: 20580, name: "Hubble" },
-];
-
-interface SatelliteRecord {
-  id: number;
-  name: string;
-  latitude: number;
-  longitude: number;
-  altitude: number;
-  category?: string;
-}
-
-// Server-side cache: refresh every 30 seconds
-let satCache: { data: SatelliteRecord[]; ts: number } | null = null;
-const SAT_CACHE_TTL_MS = 30_000;
-
-async function fetchAboveCategory(
-  categoryId: number,
-  label: string,
-  apiKey: string
-): Promise<SatelliteRecord[]> {
-  // Use equator/prime meridian as observer with 90-degree search radius (whole sky)
-  const url = `https://api.n2yo.com/rest/v1/satellite/above/0/0/0/90/${categoryId}/&apiKey=${apiKey}`;
-  const res = await fetch(url, { signal: AbortSignal.timeout(10000) });
-  if (!res.ok) throw new Error(`N2YO /above error cat=${categoryId}: ${res.status}`);
-  const data = await res.json() as {
-    info: { category: string; transactionscount: number; satcount: number };
-    above: Array<{
-      satid: number; satname: string;
-      intDesignator: string; launchDate: string;
-      satlat: number; satlng: number; satalt: number;
-    }>;
-  };
-  return (data.above ?? []).map((s) => ({
-    id: s.satid,
-    name: s.satname,
-    latitude: s.satlat,
-    longitude: s.satlng,
-    altitude: s.satalt,
-    category: label,
-  }));
-}
-
-async function fetchPinnedPosition(satId: number, name: string, apiKey: string): Promise<SatelliteRecord> {
-  const url = `https://api.n2yo.com/rest/v1/satellite/positions/${satId}/0/0/0/1/&apiKey=${apiKey}`;
-  const res = await fetch(url, { signal: AbortSignal.timeout(8000) });
-  if (!res.ok) throw new Error(`N2YO /positions error sat=${satId}: ${res.status}`);
-  const data = await res.json() as {
-    info: { satname: string; satid: number };
-    positions: Array<{ satlatitude: number; satlongitude: number; sataltitude: number }>;
-  };
   return {
-    id: data.info.satid,
-    name: data.info.satname || name,
-    latitude: data.positions[0]?.satlatitude ?? 0,
-    longitude: data.positions[0]?.satlongitude ?? 0,
-    altitude: data.positions[0]?.sataltitude ?? 0,
-    category: "Pinned",
+    name: obj.name,
+    periodMinutes,
+    stepMs,
+    points: groundTrackOf(obj, new Date(start), new Date(now + spanMs), stepMs),
   };
 }
 
-async function fetchAllSatellites(apiKey: string): Promise<SatelliteRecord[]> {
-  // Return cached data if still fresh
-  if (satCache && Date.now() - satCache.ts < SAT_CACHE_TTL_MS) {
-    return satCache.data;
-  }
+// ─── Watchlist ────────────────────────────────────────────────────────────────
 
-  // Fetch all satellites globally (category 0, 90° radius = whole sky)
-  // and pinned satellites with precise /positions data in parallel
-  const [categoryResult, pinnedResult] = await Promise.allSettled([
-    fetchAboveCategory(0, "All", apiKey),
-    Promise.allSettled(
-      PINNED_SATELLITES.map((s) => fetchPinnedPosition(s.id, s.name, apiKey))
-    ),
-  ]);
-
-  const merged = new Map<number, SatelliteRecord>();
-
-  if (categoryResult.status === "fulfilled") {
-    console.log(`[N2YO] /above returned ${categoryResult.value.length} satellites`);
-    for (const sat of categoryResult.value) {
-      if (isFinite(sat.latitude) && isFinite(sat.longitude)) {
-        merged.set(sat.id, sat);
-      }
-    }
-  } else {
-    console.error("[N2YO] /above failed:", categoryResult.reason);
-  }
+// Every entry costs one /positions call per refresh on the N2YO provider
+const MAX_WATCHLIST_SIZE = 12;
 
-  // Override with more accurate pinned positions
-  if (pinnedResult.status === "fulfilled") {
-    for (const r of pinnedResult.value) {
-      if (r.status === "fulfilled") {
-        const sat = r.value;
-        if (isFinite(sat.latitude) && isFinite(sat.longitude)) {
-          merged.set(sat.id, { ...sat, category: "Featured" });
-        }
-      }
-    }
-  }
+// ─── Lightning History ────────────────────────────────────────────────────────
 
-  const data = Array.from(merged.values());
-  // Only cache if we got a meaningful result (more than just pinned)
-  if (data.length > PINNED_SATELLITES.length) {
-    satCache = { data, ts: Date.now() };
-  }
-  return data;
-}
+const MAX_LIGHTNING_PAGE = 2000;
 
-// ─── In-memory Lightning Store ────────────────────────────────────────────────
+const boundingBoxInput = z
+  .object({
+    south: z.number().min(-90).max(90),
+    west: z.number().min(-180).max(180),
+    north: z.number().min(-90).max(90),
+    east: z.number().min(-180).max(180),
+  })
+  .refine((b) => b.south <= b.north, { message: "south must not exceed north" });
 
-export interface LightningStrike {
-  lat: number; lon: number; time: number; id: string;
-}
+// ─── Alert Zones ──────────────────────────────────────────────────────────────
 
-class LightningStore {
-  private strikes: LightningStrike[] = [];
-  private total = 0;
-  private readonly maxSize = 500;
+const latitude = z.number().min(-90).max(90);
+const longitude = z.number().min(-180).max(180);
+const minuteOfDay = z.number().int().min(0).max(24 * 60 - 1);
 
-  add(strike: LightningStrike) {
-    this.strikes.push(strike);
-    this.total++;
-    if (this.strikes.length > this.maxSize) {
-      this.strikes = this.strikes.slice(-this.maxSize);
-    }
-  }
+const alertZoneShapeInput = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("circle"),
+    center: z.object({ lat: latitude, lon: longitude }),
+    radiusKm: z.number().positive().max(MAX_ZONE_RADIUS_KM),
+  }),
+  z.object({
+    kind: z.literal("polygon"),
+    ring: z.array(z.tuple([longitude, latitude])).min(3).max(MAX_ZONE_VERTICES),
+  }),
+]);
 
-  getRecent(n: number): LightningStrike[] { return this.strikes.slice(-n); }
-  getTotal(): number { return this.total; }
-  getLastMinute(): number {
-    const oneMinuteAgo = Date.now() - 60000;
-    return this.strikes.filter((s) => s.time > oneMinuteAgo).length;
+function isTimeZone(name: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: name });
+    return true;
+  } catch {
+    return false;
   }
 }
 
-export const lightningStore = new LightningStore();
+const quietHoursInput = z.object({
+  start: minuteOfDay,
+  end: minuteOfDay,
+  timeZone: z.string().max(64).refine(isTimeZone, { message: "Unknown time zone" }),
+});
 
 // ─── Gemini Helper ────────────────────────────────────────────────────────────
 
@@ -340,25 +293,157 @@ export const appRouter = router({
   }),
 
   satellites: router({
-    tracked: publicProcedure.query(async () => {
-      const apiKey = process.env.N2YO_API_KEY;
-      if (!apiKey) return { available: false, message: "N2YO API key not configured", satellites: [] as SatelliteRecord[] };
-      try {
-        const satellites = await fetchAllSatellites(apiKey);
-        return { available: true, count: satellites.length, satellites };
-      } catch (err) {
-        console.error("[N2YO] Error:", err);
-        return { available: false, message: "Failed to fetch satellite data", satellites: [] as SatelliteRecord[] };
-      }
-    }),
+    tracked: publicProcedure
+      .input(z.object({ at: z.number().optional() }).optional())
+      .query(async ({ input }) => {
+        const provider = getSatelliteProvider();
+        const source = provider.name;
+        const unavailable = provider.unavailableReason();
+        if (unavailable) return { available: false, source, message: unavailable, satellites: [] as SatelliteRecord[] };
+
+        const at = new Date(input?.at ?? Date.now());
+        try {
+          const satellites = await provider.tracked(at);
+          return { available: true, source, timestamp: at.getTime(), count: satellites.length, satellites };
+        } catch (err) {
+          console.error(`[Satellites] ${source} provider error:`, err);
+          const message = err instanceof N2yoQuotaExceededError ? err.message : "Failed to fetch satellite data";
+          return { available: false, source, message, satellites: [] as SatelliteRecord[] };
+        }
+      }),
 
     position: publicProcedure
       .input(z.object({ satId: z.number() }))
       .query(async ({ input }) => {
-        const apiKey = process.env.N2YO_API_KEY;
-        if (!apiKey) throw new Error("N2YO API key not configured");
-        return await fetchPinnedPosition(input.satId, String(input.satId), apiKey);
+        const provider = getSatelliteProvider();
+        const unavailable = provider.unavailableReason();
+        if (unavailable) throw new Error(unavailable);
+        const sat = await provider.position(input.satId, new Date());
+        if (!sat) throw new Error(`No position for satellite ${input.satId}`);
+        return sat;
+      }),
+
+    details: publicProcedure
+      .input(z.object({ satId: z.number().int().positive() }))
+      .query(async ({ input }) => {
+        const provider = getSatelliteProvider();
+        const unavailable = provider.unavailableReason();
+        if (unavailable) return { available: false as const, satId: input.satId, message: unavailable };
+        const details = await getSatelliteDetails(provider, input.satId, new Date());
+        if (!details) {
+          return { available: false as const, satId: input.satId, message: `No data for satellite ${input.satId}` };
+        }
+        return { available: true as const, satId: input.satId, source: provider.name, ...details };
+      }),
+
+    // N2YO transaction budget, for operators watching the hourly limit
+    quota: adminProcedure.query(() => n2yoQuota.snapshot(SAT_CACHE_TTL_MS, CALLS_PER_REFRESH)),
+
+    passes: publicProcedure
+      .input(z.object({
+        satId: z.number(),
+        lat: z.number().min(-90).max(90),
+        lon: z.number().min(-180).max(180),
+        alt: z.number().default(0),          // observer altitude, metres
+        start: z.number().optional(),        // ms timestamp, defaults to now
+        hours: z.number().min(1).max(168).default(24),
+        minElevation: z.number().min(0).max(90).default(10),
+      }))
+      .query(async ({ input }) => {
+        const from = new Date(input.start ?? Date.now());
+        const to = new Date(from.getTime() + input.hours * 3600_000);
+        try {
+          const obj = await getSatelliteProvider().elements(input.satId);
+          if (!obj) {
+            return { available: false as const, satId: input.satId, message: "No orbital elements for this satellite", passes: [] };
+          }
+          const passes = predictPasses(
+            obj,
+            { lat: input.lat, lon: input.lon, alt: input.alt },
+            from,
+            to,
+            { minElevation: input.minElevation }
+          );
+          return { available: true as const, satId: input.satId, name: obj.name, from: from.getTime(), to: to.getTime(), passes };
+        } catch (err) {
+          console.error("[Orbit] Pass prediction error:", err);
+          return { available: false as const, satId: input.satId, message: "Failed to load orbital elements", passes: [] };
+        }
       }),
+
+    groundTrack: publicProcedure
+      .input(z.object({
+        satId: z.number(),
+        orbits: z.number().min(0.1).max(3).default(1),
+      }))
+      .query(async ({ input }) => {
+        const now = Date.now();
+        try {
+          const track = await computeGroundTrack(input.satId, input.orbits, now);
+          if (!track) {
+            return { available: false as const, satId: input.satId, message: "No orbital elements for this satellite", now, points: [] };
+          }
+          return { available: true as const, satId: input.satId, now, ...track };
+        } catch (err) {
+          console.error("[Orbit] Ground track error:", err);
+          return { available: false as const, satId: input.satId, message: "Failed to load orbital elements", now, points: [] };
+        }
+      }),
+  }),
+
+  watchlist: router({
+    list: protectedProcedure.query(({ ctx }) => getWatchlist(ctx.user.id)),
+
+    add: protectedProcedure
+      .input(z.object({
+        noradId: z.number().int().positive(),
+        label: z.string().trim().max(64).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const entries = await getWatchlist(ctx.user.id);
+        const exists = entries.some((e) => e.noradId === input.noradId);
+        if (!exists && entries.length >= MAX_WATCHLIST_SIZE) {
+          return { success: false, message: `Watchlist is limited to ${MAX_WATCHLIST_SIZE} satellites` } as const;
+        }
+        const saved = await addWatchlistEntry(ctx.user.id, input.noradId, input.label || null);
+        return saved
+          ? ({ success: true } as const)
+          : ({ success: false, message: "Watchlist storage unavailable" } as const);
+      }),
+
+    remove: protectedProcedure
+      .input(z.object({ noradId: z.number().int().positive() }))
+      .mutation(async ({ ctx, input }) => {
+        const removed = await removeWatchlistEntry(ctx.user.id, input.noradId);
+        if (removed == null) return { success: false, message: "Watchlist storage unavailable" } as const;
+        if (removed === 0) throw new TRPCError({ code: "NOT_FOUND", message: "Satellite is not on the watchlist" });
+        return { success: true } as const;
+      }),
+
+    // High-accuracy single-satellite positions for the user's watchlist
+    positions: protectedProcedure.query(async ({ ctx }) => {
+      const entries = await getWatchlist(ctx.user.id);
+      const provider = getSatelliteProvider();
+      const source = provider.name;
+      const unavailable = provider.unavailableReason();
+      if (unavailable) {
+        return { available: false as const, source, message: unavailable, satellites: [], missing: entries.map((e) => e.noradId) };
+      }
+
+      const now = new Date();
+      const results = await Promise.allSettled(entries.map((e) => provider.position(e.noradId, now)));
+      const satellites: Array<SatelliteRecord & { label: string | null }> = [];
+      const missing: number[] = [];
+      results.forEach((r, i) => {
+        const entry = entries[i]!;
+        if (r.status === "fulfilled" && r.value && isFinite(r.value.latitude) && isFinite(r.value.longitude)) {
+          satellites.push({ ...r.value, label: entry.label });
+        } else {
+          missing.push(entry.noradId);
+        }
+      });
+      return { available: true as const, source, satellites, missing };
+    }),
   }),
 
   lightning: router({
@@ -367,6 +452,147 @@ export const appRouter = router({
       total: lightningStore.getTotal(),
       lastMinute: lightningStore.getLastMinute(),
     })),
+
+    // Upstream source state for the header status dot
+    status: publicProcedure.query(() => getLightningSourceStatus()),
+
+    // Strike counts per density grid cell (shared/density.ts) for the heatmap
+    density: publicProcedure
+      .input(z.object({ window: z.enum(["15m", "1h", "24h"]).default("1h") }).optional())
+      .query(({ input }) => lightningDensity.snapshot(input?.window ?? "1h")),
+
+    // ── Statistics (server/lightning-stats.ts) ──
+
+    // Strikes per minute
+    timeSeries: publicProcedure
+      .input(z.object({ window: z.enum(["1h", "6h", "24h"]).default("1h") }).optional())
+      .query(({ input }) => lightningStats.timeSeries(input?.window ?? "1h")),
+
+    // Strikes per hour (last 48 h) and per UTC day (last 7 days)
+    aggregates: publicProcedure.query(() => lightningStats.aggregates()),
+
+    breakdown: publicProcedure
+      .input(z.object({
+        window: z.enum(["24h", "7d"]).default("24h"),
+        by: z.enum(["country", "continent"]).default("continent"),
+      }).optional())
+      .query(({ input }) => lightningStats.breakdown(input?.window ?? "24h", input?.by ?? "continent")),
+
+    // Busiest ~111 km grid cells, labelled with the country at their center
+    topRegions: publicProcedure
+      .input(z.object({
+        window: z.enum(["15m", "1h", "24h"]).default("1h"),
+        limit: z.number().int().min(1).max(50).default(10),
+      }).optional())
+      .query(({ input }) => ({ regions: lightningStats.topRegions(input?.window ?? "1h", input?.limit ?? 10) })),
+
+    // Current storm cells; live updates arrive on /api/lightning/stream
+    cells: publicProcedure.query(() => ({ cells: stormCells.current() })),
+
+    // Paginated history; pass the returned nextCursor to fetch the next page
+    range: publicProcedure
+      .input(
+        z
+          .object({
+            from: z.number().int().nonnegative(),
+            to: z.number().int().nonnegative().optional(),
+            bbox: boundingBoxInput.optional(),
+            limit: z.number().int().min(1).max(MAX_LIGHTNING_PAGE).default(500),
+            cursor: z.string().max(64).optional(),
+          })
+          .refine((q) => q.to == null || q.from <= q.to, { message: "from must not be after to" })
+      )
+      .query(async ({ input }) => {
+        const to = input.to ?? Date.now();
+        return {
+          from: input.from,
+          to,
+          ...(await lightningStore.range({ ...input, to })),
+        };
+      }),
+  }),
+
+  // AIS ship positions (server/vessel-ws.ts); live updates arrive on /api/vessels/stream
+  vessels: router({
+    snapshot: publicProcedure.query(() => {
+      if (!vesselStore.isAvailable()) {
+        return { available: false as const, message: "AISSTREAM_API_KEY is not configured", vessels: [] };
+      }
+      return { available: true as const, vessels: vesselStore.getAll() };
+    }),
+
+    count: publicProcedure.query(() => ({ count: vesselStore.getCount() })),
+
+    // Latest report and up to 6 hours of positions, one a minute
+    track: publicProcedure
+      .input(z.object({ mmsi: z.string().regex(/^\d{1,9}$/) }))
+      .query(({ input }) => vesselStore.getTrack(input.mmsi) ?? { vessel: null, track: [] }),
+
+    status: publicProcedure.query(() => ({ status: getAISStreamStatus(), count: vesselStore.getCount() })),
+
+    // Center of the hemisphere a stream client shows; the stream then sends only ships in it
+    setViewport: publicProcedure
+      .input(z.object({
+        clientId: z.string().min(1).max(64),
+        lat: z.number().min(-90).max(90),
+        lon: z.number().min(-180).max(180),
+      }))
+      .mutation(({ input }) => {
+        if (!setVesselViewport(input.clientId, { lat: input.lat, lon: input.lon })) {
+          return { success: false, message: "Unknown vessel stream client" } as const;
+        }
+        return { success: true } as const;
+      }),
+
+    // Ships near recent lightning or a storm cell (server/vessel-hazards.ts)
+    atRisk: publicProcedure.query(() => vesselHazards.atRisk()),
+
+    hazardEvents: publicProcedure
+      .input(z.object({ since: z.number().int().nonnegative() }))
+      .query(({ input }) => ({
+        time: Date.now(),
+        events: vesselHazards.eventsSince(input.since),
+      })),
+  }),
+
+  alerts: router({
+    zones: protectedProcedure.query(({ ctx }) => getAlertZones(ctx.user.id)),
+
+    addZone: protectedProcedure
+      .input(z.object({
+        name: z.string().trim().min(1).max(64),
+        shape: alertZoneShapeInput,
+        notifyOwner: z.boolean().default(true),
+        quietHours: quietHoursInput.nullable().default(null),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const zones = await getAlertZones(ctx.user.id);
+        if (zones.length >= MAX_ALERT_ZONES) {
+          return { success: false, message: `Alert zones are limited to ${MAX_ALERT_ZONES}` } as const;
+        }
+        const id = await addAlertZone(ctx.user.id, input);
+        if (id == null) return { success: false, message: "Alert zone storage unavailable" } as const;
+        await lightningAlerts.reload();
+        return { success: true, id } as const;
+      }),
+
+    removeZone: protectedProcedure
+      .input(z.object({ id: z.number().int().positive() }))
+      .mutation(async ({ ctx, input }) => {
+        const removed = await removeAlertZone(ctx.user.id, input.id);
+        if (removed == null) return { success: false, message: "Alert zone storage unavailable" } as const;
+        if (removed === 0) throw new TRPCError({ code: "NOT_FOUND", message: "Alert zone not found" });
+        await lightningAlerts.reload();
+        return { success: true } as const;
+      }),
+
+    // Alerts raised for the user's zones after `since`; the dashboard polls this for toasts
+    events: protectedProcedure
+      .input(z.object({ since: z.number().int().nonnegative() }))
+      .query(({ ctx, input }) => ({
+        time: Date.now(),
+        alerts: lightningAlerts.eventsSince(ctx.user.id, input.since),
+      })),
   }),
 
   astronaut: router({
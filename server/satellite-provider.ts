@@ -0,0 +1,444 @@
+/**
+ * Satellite Providers
+ *
+ * `satellites.tracked` and `satellites.position` read from one provider chosen
+ * at request time, so the dashboard works with a live N2YO key, offline with
+ * locally propagated element sets, or in CI against a fixed snapshot.
+ *
+ * Provider selection via SATELLITE_PROVIDER:
+ *   n2yo     → N2YO REST API (requires N2YO_API_KEY)
+ *   tle      → SGP4 propagation of the orbit catalog (see orbit-propagator.ts)
+ *   fixture  → static N2YO /above response from SATELLITE_FIXTURE_FILE, falling
+ *              back to the bundled server/data/satellites-above.json
+ *   (unset)  → n2yo when N2YO_API_KEY is set, otherwise tle
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import {
+  classifySatellite,
+  satelliteOwner,
+  type SatelliteCategory,
+  type SatelliteSource,
+} from "@shared/satellites";
+import { n2yoQuota, N2yoQuotaExceededError } from "./n2yo-quota";
+import {
+  ensureOrbitCatalog,
+  orbitParameters,
+  parseElementSets,
+  propagateObject,
+  type OrbitalObject,
+} from "./orbit-propagator";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface SatelliteRecord {
+  id: number;
+  name: string;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  category: SatelliteCategory;
+  featured?: boolean;  // pinned satellite, always tracked
+  // Detail fields; bulk listings carry only what the source provides cheaply
+  intDesignator?: string;  // COSPAR ID, e.g. "1998-067A"
+  launchDate?: string;     // YYYY-MM-DD
+  velocity?: number;       // km/s
+  inclination?: number;    // degrees
+  periodMinutes?: number;
+  apogee?: number;         // km
+  perigee?: number;        // km
+  owner?: string;
+}
+
+export interface SatelliteProvider {
+  readonly name: SatelliteSource;
+  /** Why the provider cannot serve data (e.g. missing key), or null when ready. */
+  unavailableReason(): string | null;
+  /** All tracked satellites. Providers without history ignore `at`. */
+  tracked(at: Date): Promise<SatelliteRecord[]>;
+  position(satId: number, at: Date): Promise<SatelliteRecord | null>;
+  /** Orbital elements for detail views, or null when none are available. */
+  elements(satId: number): Promise<OrbitalObject | null>;
+}
+
+// A few important satellites to always include, flagged as featured
+export const PINNED_SATELLITES = [
+  { id: 25544, name: "ISS" },
+  { id: 48274, name: "CSS (Tianhe)" },
+  { id: 20580, name: "Hubble" },
+];
+
+const pinnedIds = new Set(PINNED_SATELLITES.map((s) => s.id));
+
+// ─── N2YO Response Parsing ────────────────────────────────────────────────────
+
+interface N2yoAboveResponse {
+  info: { category: string; transactionscount: number; satcount: number };
+  above: Array<{
+    satid: number; satname: string;
+    intDesignator: string; launchDate: string;
+    satlat: number; satlng: number; satalt: number;
+  }>;
+}
+
+function parseAboveResponse(data: N2yoAboveResponse, categoryId: number): SatelliteRecord[] {
+  return (data.above ?? []).map((s) => ({
+    id: s.satid,
+    name: s.satname,
+    latitude: s.satlat,
+    longitude: s.satlng,
+    altitude: s.satalt,
+    category: classifySatellite({ id: s.satid, name: s.satname, n2yoCategoryId: categoryId }),
+    intDesignator: s.intDesignator || undefined,
+    launchDate: s.launchDate || undefined,
+  }));
+}
+
+// Objects missing from the catalog (or a catalog that fails to load) simply
+// have no elements; detail views degrade rather than fail
+async function catalogElements(satId: number): Promise<OrbitalObject | null> {
+  try {
+    return (await ensureOrbitCatalog()).get(satId) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// ─── N2YO Provider ────────────────────────────────────────────────────────────
+
+// Server-side cache: refresh every 30 seconds at most; the quota manager
+// stretches this as the hourly transaction budget drains
+export const SAT_CACHE_TTL_MS = 30_000;
+export const CALLS_PER_REFRESH = 1 + PINNED_SATELLITES.length;
+
+async function fetchAboveCategory(
+  categoryId: number,
+  apiKey: string
+): Promise<SatelliteRecord[]> {
+  // Use equator/prime meridian as observer with 90-degree search radius (whole sky)
+  const url = `https://api.n2yo.com/rest/v1/satellite/above/0/0/0/90/${categoryId}/&apiKey=${apiKey}`;
+  const res = await fetch(url, { signal: AbortSignal.timeout(10000) });
+  if (!res.ok) {
+    n2yoQuota.record("above");
+    throw new Error(`N2YO /above error cat=${categoryId}: ${res.status}`);
+  }
+  const data = await res.json() as N2yoAboveResponse;
+  n2yoQuota.record("above", data.info?.transactionscount);
+  return parseAboveResponse(data, categoryId);
+}
+
+async function fetchPinnedPosition(satId: number, name: string, apiKey: string): Promise<SatelliteRecord> {
+  const url = `https://api.n2yo.com/rest/v1/satellite/positions/${satId}/0/0/0/1/&apiKey=${apiKey}`;
+  const res = await fetch(url, { signal: AbortSignal.timeout(8000) });
+  if (!res.ok) {
+    n2yoQuota.record("positions");
+    throw new Error(`N2YO /positions error sat=${satId}: ${res.status}`);
+  }
+  const data = await res.json() as {
+    info: { satname: string; satid: number; transactionscount: number };
+    positions: Array<{ satlatitude: number; satlongitude: number; sataltitude: number }>;
+  };
+  n2yoQuota.record("positions", data.info?.transactionscount);
+  const satName = data.info.satname || name;
+  return {
+    id: data.info.satid,
+    name: satName,
+    latitude: data.positions[0]?.satlatitude ?? 0,
+    longitude: data.positions[0]?.satlongitude ?? 0,
+    altitude: data.positions[0]?.sataltitude ?? 0,
+    category: classifySatellite({ id: data.info.satid, name: satName }),
+  };
+}
+
+// Element sets change slowly; one /tle lookup per object is enough for hours
+const TLE_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+async function fetchTle(satId: number, apiKey: string): Promise<OrbitalObject | null> {
+  const url = `https://api.n2yo.com/rest/v1/satellite/tle/${satId}&apiKey=${apiKey}`;
+  const res = await fetch(url, { signal: AbortSignal.timeout(8000) });
+  if (!res.ok) {
+    n2yoQuota.record("tle");
+    throw new Error(`N2YO /tle error sat=${satId}: ${res.status}`);
+  }
+  const data = await res.json() as {
+    info: { satid: number; satname: string; transactionscount: number };
+    tle: string;
+  };
+  n2yoQuota.record("tle", data.info?.transactionscount);
+  if (!data.tle) return null;
+  return parseElementSets(`${data.info.satname || satId}\n${data.tle}`)[0] ?? null;
+}
+
+export function n2yoProvider(apiKey: string | undefined): SatelliteProvider {
+  let cache: { data: SatelliteRecord[]; ts: number } | null = null;
+  // Single-satellite lookups (pinned and watchlisted), shared across users
+  const positionCache = new Map<number, { data: SatelliteRecord; ts: number }>();
+  const tleCache = new Map<number, { data: OrbitalObject | null; ts: number }>();
+
+  async function fetchAllSatellites(key: string): Promise<SatelliteRecord[]> {
+    // Return cached data if still fresh
+    const ttl = n2yoQuota.cacheTtlMs(SAT_CACHE_TTL_MS, CALLS_PER_REFRESH);
+    if (cache && Date.now() - cache.ts < ttl) {
+      return cache.data;
+    }
+
+    // Out of budget: keep serving the last snapshot rather than calling N2YO
+    const mode = n2yoQuota.mode();
+    if (mode === "exhausted") {
+      if (cache) return cache.data;
+      throw new N2yoQuotaExceededError(n2yoQuota.nextReleaseAt());
+    }
+
+    // Fetch all satellites globally (category 0, 90° radius = whole sky)
+    // and pinned satellites with precise /positions data in parallel.
+    // Pinned lookups are skipped when the budget is running low.
+    const pinned = mode === "normal" ? PINNED_SATELLITES : [];
+    const [categoryResult, pinnedResult] = await Promise.allSettled([
+      fetchAboveCategory(0, key),
+      Promise.allSettled(
+        pinned.map((s) => fetchPinnedPosition(s.id, s.name, key))
+      ),
+    ]);
+
+    const merged = new Map<number, SatelliteRecord>();
+
+    if (categoryResult.status === "fulfilled") {
+      console.log(`[N2YO] /above returned ${categoryResult.value.length} satellites`);
+      for (const sat of categoryResult.value) {
+        if (isFinite(sat.latitude) && isFinite(sat.longitude)) {
+          merged.set(sat.id, sat);
+        }
+      }
+    } else {
+      console.error("[N2YO] /above failed:", categoryResult.reason);
+    }
+
+    // Override with more accurate pinned positions
+    if (pinnedResult.status === "fulfilled") {
+      for (const r of pinnedResult.value) {
+        if (r.status === "fulfilled") {
+          const sat = r.value;
+          if (isFinite(sat.latitude) && isFinite(sat.longitude)) {
+            positionCache.set(sat.id, { data: sat, ts: Date.now() });
+            merged.set(sat.id, { ...sat, featured: true });
+          }
+        }
+      }
+    }
+
+    // Without fresh pinned lookups, keep the featured flag from /above results
+    if (pinned.length === 0) {
+      for (const s of PINNED_SATELLITES) {
+        const sat = merged.get(s.id);
+        if (sat) merged.set(s.id, { ...sat, featured: true });
+      }
+    }
+
+    const data = Array.from(merged.values());
+    // Only cache if we got a meaningful result (more than just pinned)
+    if (data.length > PINNED_SATELLITES.length) {
+      cache = { data, ts: Date.now() };
+    }
+    return data;
+  }
+
+  return {
+    name: "n2yo",
+    unavailableReason: () => (apiKey ? null : "N2YO API key not configured"),
+    async tracked() {
+      if (!apiKey) throw new Error("N2YO API key not configured");
+      return fetchAllSatellites(apiKey);
+    },
+    async position(satId) {
+      if (!apiKey) throw new Error("N2YO API key not configured");
+      const hit = positionCache.get(satId);
+      if (hit && Date.now() - hit.ts < n2yoQuota.cacheTtlMs(SAT_CACHE_TTL_MS, CALLS_PER_REFRESH)) {
+        return hit.data;
+      }
+
+      // Budget running low: reuse the last /above snapshot or a stale lookup
+      if (n2yoQuota.mode() !== "normal") {
+        const fallback = cache?.data.find((s) => s.id === satId) ?? hit?.data;
+        if (fallback) return fallback;
+        if (!n2yoQuota.canSpend()) throw new N2yoQuotaExceededError(n2yoQuota.nextReleaseAt());
+      }
+
+      // /positions has no launch data; borrow it from the /above snapshot
+      const listed = cache?.data.find((s) => s.id === satId);
+      const data = {
+        ...(await fetchPinnedPosition(satId, String(satId), apiKey)),
+        intDesignator: listed?.intDesignator,
+        launchDate: listed?.launchDate,
+      };
+      positionCache.set(satId, { data, ts: Date.now() });
+      return data;
+    },
+    async elements(satId) {
+      const local = await catalogElements(satId);
+      if (local || !apiKey) return local;
+      const hit = tleCache.get(satId);
+      if (hit && Date.now() - hit.ts < TLE_CACHE_TTL_MS) return hit.data;
+      if (n2yoQuota.mode() !== "normal") return hit?.data ?? null;
+      const data = await fetchTle(satId, apiKey);
+      tleCache.set(satId, { data, ts: Date.now() });
+      return data;
+    },
+  };
+}
+
+// ─── TLE Provider ─────────────────────────────────────────────────────────────
+
+// Propagates the local element set catalog, so positions are exact for any
+// requested time and no API key is needed
+export function tleProvider(): SatelliteProvider {
+  return {
+    name: "tle",
+    unavailableReason: () => null,
+    async tracked(at) {
+      const catalog = await ensureOrbitCatalog();
+      return catalog.propagateAll(at).map((p) => ({
+        id: p.id,
+        name: p.name,
+        latitude: p.latitude,
+        longitude: p.longitude,
+        altitude: p.altitude,
+        category: classifySatellite(p),
+        featured: pinnedIds.has(p.id) || undefined,
+        intDesignator: catalog.get(p.id)?.intDesignator,
+        velocity: p.velocity,
+      }));
+    },
+    async position(satId, at) {
+      const catalog = await ensureOrbitCatalog();
+      const pos = catalog.propagate(satId, at);
+      if (!pos) return null;
+      return {
+        id: pos.id,
+        name: pos.name,
+        latitude: pos.latitude,
+        longitude: pos.longitude,
+        altitude: pos.altitude,
+        category: classifySatellite(pos),
+        intDesignator: catalog.get(satId)?.intDesignator,
+        velocity: pos.velocity,
+      };
+    },
+    elements: catalogElements,
+  };
+}
+
+// ─── Fixture Provider ─────────────────────────────────────────────────────────
+
+export const DEFAULT_SATELLITE_FIXTURE = path.resolve(process.cwd(), "server", "data", "satellites-above.json");
+
+// Serves a saved N2YO /above response verbatim: positions never move, which
+// keeps tests and screenshots deterministic
+export function fixtureProvider(filePath: string): SatelliteProvider {
+  let loaded: Promise<SatelliteRecord[]> | null = null;
+
+  function load(): Promise<SatelliteRecord[]> {
+    if (!loaded) {
+      loaded = fs
+        .readFile(filePath, "utf8")
+        .then((raw) => parseAboveResponse(JSON.parse(raw) as N2yoAboveResponse, 0))
+        .then((records) => records.map((r) => (pinnedIds.has(r.id) ? { ...r, featured: true } : r)));
+      // Allow a retry after a missing or malformed file is fixed
+      loaded.catch(() => { loaded = null; });
+    }
+    return loaded;
+  }
+
+  return {
+    name: "fixture",
+    unavailableReason: () => null,
+    tracked: () => load(),
+    async position(satId) {
+      return (await load()).find((s) => s.id === satId) ?? null;
+    },
+    elements: catalogElements,
+  };
+}
+
+// ─── Selection ────────────────────────────────────────────────────────────────
+
+const n2yoProviders = new Map<string, SatelliteProvider>();
+const fixtureProviders = new Map<string, SatelliteProvider>();
+const sharedTleProvider = tleProvider();
+
+/**
+ * Resolve the provider from the current environment. Instances are reused per
+ * key / file so caches survive across requests.
+ */
+export function getSatelliteProvider(): SatelliteProvider {
+  const apiKey = process.env.N2YO_API_KEY;
+  const configured = process.env.SATELLITE_PROVIDER ?? (apiKey ? "n2yo" : "tle");
+
+  if (configured === "tle") return sharedTleProvider;
+
+  if (configured === "fixture") {
+    const filePath = process.env.SATELLITE_FIXTURE_FILE
+      ? path.resolve(process.env.SATELLITE_FIXTURE_FILE)
+      : DEFAULT_SATELLITE_FIXTURE;
+    let provider = fixtureProviders.get(filePath);
+    if (!provider) {
+      provider = fixtureProvider(filePath);
+      fixtureProviders.set(filePath, provider);
+    }
+    return provider;
+  }
+
+  if (configured !== "n2yo") {
+    console.warn(`[Satellites] Unknown SATELLITE_PROVIDER "${configured}", using n2yo`);
+  }
+  const cacheKey = apiKey ?? "";
+  let provider = n2yoProviders.get(cacheKey);
+  if (!provider) {
+    provider = n2yoProvider(apiKey);
+    n2yoProviders.set(cacheKey, provider);
+  }
+  return provider;
+}
+
+// ─── Details ──────────────────────────────────────────────────────────────────
+
+/**
+ * Full record for one satellite: the provider's position merged with orbit
+ * parameters from its element set. Returns null when the provider knows
+ * neither a position nor elements for the ID.
+ */
+export async function getSatelliteDetails(
+  provider: SatelliteProvider,
+  satId: number,
+  at: Date
+): Promise<SatelliteRecord | null> {
+  const [posResult, elemResult] = await Promise.allSettled([
+    provider.position(satId, at),
+    provider.elements(satId),
+  ]);
+  const position = posResult.status === "fulfilled" ? posResult.value : null;
+  const elements = elemResult.status === "fulfilled" ? elemResult.value : null;
+  const propagated = elements ? propagateObject(elements, at) : null;
+
+  const base = position ?? (propagated && {
+    id: satId,
+    name: propagated.name,
+    latitude: propagated.latitude,
+    longitude: propagated.longitude,
+    altitude: propagated.altitude,
+    category: classifySatellite(propagated),
+  });
+  if (!base) return null;
+
+  const orbit = elements ? orbitParameters(elements) : null;
+  return {
+    ...base,
+    intDesignator: base.intDesignator ?? elements?.intDesignator,
+    velocity: base.velocity ?? propagated?.velocity,
+    inclination: orbit?.inclination,
+    periodMinutes: orbit?.periodMinutes,
+    apogee: orbit?.apogee,
+    perigee: orbit?.perigee,
+    owner: satelliteOwner(base) ?? undefined,
+  };
+}
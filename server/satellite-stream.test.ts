@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { SatelliteStreamMessage, SatelliteSummary } from "@shared/satellites";
+import { diffSatellites, SatelliteStreamHub } from "./satellite-stream";
+import type { SatelliteProvider, SatelliteRecord } from "./satellite-provider";
+
+function sat(id: number, latitude: number, longitude = 0, altitude = 500): SatelliteSummary {
+  return { id, name: `SAT ${id}`, latitude, longitude, altitude, category: "other" };
+}
+
+function byId(list: SatelliteSummary[]) {
+  return new Map(list.map((s) => [s.id, s]));
+}
+
+function fakeProvider(initial: SatelliteRecord[]) {
+  let records = initial;
+  let reason: string | null = null;
+  let calls = 0;
+  const provider: SatelliteProvider = {
+    name: "tle",
+    unavailableReason: () => reason,
+    tracked: async () => { calls++; return records; },
+    position: async () => null,
+    elements: async () => null,
+  };
+  return {
+    provider,
+    set: (next: SatelliteRecord[]) => { records = next; },
+    fail: (message: string | null) => { reason = message; },
+    calls: () => calls,
+  };
+}
+
+function fakeClient() {
+  const messages: SatelliteStreamMessage[] = [];
+  return {
+    messages,
+    write: (chunk: string) => { messages.push(JSON.parse(chunk.replace(/^data: /, ""))); },
+  };
+}
+
+// ─── Diffing ──────────────────────────────────────────────────────────────────
+
+describe("diffSatellites", () => {
+  it("splits changes into moved, added and removed", () => {
+    const prev = byId([sat(1, 10), sat(2, 20), sat(3, 30)]);
+    const next = byId([sat(1, 10), sat(2, 21), { ...sat(3, 30), category: "debris" }, sat(4, 40)]);
+    expect(diffSatellites(prev, next)).toEqual({
+      moved: [[2, 21, 0, 500]],
+      added: [{ ...sat(3, 30), category: "debris" }, sat(4, 40)],
+      removed: [],
+    });
+    expect(diffSatellites(next, prev).removed).toEqual([4]);
+  });
+});
+
+// ─── Stream Hub ───────────────────────────────────────────────────────────────
+
+describe("SatelliteStreamHub", () => {
+  it("sends a snapshot to new clients and deltas afterwards", async () => {
+    const upstream = fakeProvider([sat(1, 10.00012), sat(2, 20)]);
+    const hub = new SatelliteStreamHub(() => upstream.provider);
+    const a = fakeClient();
+    const detachA = hub.attach(a, "a");
+    await hub.refresh();
+
+    expect(a.messages).toHaveLength(1);
+    const snapshot = a.messages[0]!;
+    expect(snapshot.type).toBe("snapshot");
+    if (snapshot.type === "snapshot") {
+      expect(snapshot.source).toBe("tle");
+      expect(snapshot.satellites.map((s) => s.latitude)).toEqual([10, 20]);  // rounded to 3 decimals
+    }
+
+    upstream.set([sat(1, 11), sat(3, 30)]);
+    await hub.refresh();
+    expect(a.messages[1]).toMatchObject({ type: "delta", moved: [[1, 11, 0, 500]], added: [sat(3, 30)], removed: [2] });
+
+    // A late joiner gets the current state immediately, without an extra upstream read
+    const b = fakeClient();
+    const detachB = hub.attach(b, "b");
+    expect(b.messages[0]).toMatchObject({ type: "snapshot", satellites: [sat(1, 11), sat(3, 30)] });
+    expect(upstream.calls()).toBe(2);
+
+    detachA();
+    detachB();
+    expect(hub.clientCount).toBe(0);
+  });
+
+  it("shares one upstream read between concurrent refreshes", async () => {
+    const upstream = fakeProvider([sat(1, 10)]);
+    const hub = new SatelliteStreamHub(() => upstream.provider);
+    const detach = hub.attach(fakeClient(), "a");
+    await Promise.all([hub.refresh(), hub.refresh(), hub.refresh()]);
+    expect(upstream.calls()).toBeLessThanOrEqual(2);  // includes the attach-triggered read
+    detach();
+  });
+
+  it("reports outages and resyncs clients on recovery", async () => {
+    const upstream = fakeProvider([sat(1, 10)]);
+    const hub = new SatelliteStreamHub(() => upstream.provider);
+    const client = fakeClient();
+    const detach = hub.attach(client, "a");
+
+    upstream.fail("N2YO API key not configured");
+    await hub.refresh();
+    await hub.refresh();  // unchanged outage is not repeated
+    expect(client.messages).toEqual([{ type: "unavailable", source: "tle", message: "N2YO API key not configured" }]);
+
+    upstream.fail(null);
+    await hub.refresh();
+    expect(client.messages[1]).toMatchObject({ type: "snapshot", satellites: [sat(1, 10)] });
+    detach();
+  });
+});
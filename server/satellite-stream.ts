@@ -0,0 +1,258 @@
+/**
+ * Satellite SSE Stream
+ *
+ * Pushes satellite positions to connected clients at /api/satellites/stream
+ * instead of every browser polling `satellites.tracked` for the full list.
+ * One shared loop reads the active provider while at least one client is
+ * connected; each client gets a full snapshot when it connects and compact
+ * deltas (moved / added / removed) after every refresh.
+ *
+ * The loop runs every 5s for locally propagated TLEs and every
+ * SAT_CACHE_TTL_MS otherwise — the N2YO provider caches internally, so extra
+ * clients never cost extra transactions.
+ */
+
+import type { Request, Response } from "express";
+import { nanoid } from "nanoid";
+import type { SatelliteMove, SatelliteStreamMessage, SatelliteSummary, SatelliteSource } from "@shared/satellites";
+import { N2yoQuotaExceededError } from "./n2yo-quota";
+import {
+  getSatelliteProvider,
+  SAT_CACHE_TTL_MS,
+  type SatelliteProvider,
+  type SatelliteRecord,
+} from "./satellite-provider";
+
+const TLE_REFRESH_MS = 5000;
+const HEARTBEAT_MS = 30000;
+
+// ─── Diffing ──────────────────────────────────────────────────────────────────
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Strip a record to the streamed fields. Positions are rounded (~100 m, 0.1 km)
+ * so that satellites that have not visibly moved do not produce deltas.
+ */
+export function summarizeSatellite(s: SatelliteRecord): SatelliteSummary {
+  const summary: SatelliteSummary = {
+    id: s.id,
+    name: s.name,
+    latitude: round(s.latitude, 3),
+    longitude: round(s.longitude, 3),
+    altitude: round(s.altitude, 1),
+    category: s.category,
+  };
+  if (s.featured) summary.featured = true;
+  return summary;
+}
+
+export interface SatelliteDelta {
+  moved: SatelliteMove[];
+  added: SatelliteSummary[];
+  removed: number[];
+}
+
+export function diffSatellites(
+  prev: ReadonlyMap<number, SatelliteSummary>,
+  next: ReadonlyMap<number, SatelliteSummary>
+): SatelliteDelta {
+  const delta: SatelliteDelta = { moved: [], added: [], removed: [] };
+  next.forEach((s, id) => {
+    const old = prev.get(id);
+    if (!old || old.name !== s.name || old.category !== s.category || old.featured !== s.featured) {
+      delta.added.push(s);
+    } else if (old.latitude !== s.latitude || old.longitude !== s.longitude || old.altitude !== s.altitude) {
+      delta.moved.push([id, s.latitude, s.longitude, s.altitude]);
+    }
+  });
+  prev.forEach((_, id) => {
+    if (!next.has(id)) delta.removed.push(id);
+  });
+  return delta;
+}
+
+// ─── Stream Hub ───────────────────────────────────────────────────────────────
+
+/** The part of an Express response the hub writes to. */
+export interface StreamClient {
+  write(chunk: string): unknown;
+}
+
+type HubState =
+  | { kind: "idle" }
+  | { kind: "live"; source: SatelliteSource; timestamp: number; satellites: Map<number, SatelliteSummary> }
+  | { kind: "unavailable"; source: SatelliteSource; message: string };
+
+export class SatelliteStreamHub {
+  private clients = new Map<string, { client: StreamClient; synced: boolean }>();
+  private state: HubState = { kind: "idle" };
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(private readonly getProvider: () => SatelliteProvider = getSatelliteProvider) {}
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  /** Register a client, sending the current snapshot if one exists. Returns the detach function. */
+  attach(client: StreamClient, id: string = nanoid()): () => void {
+    this.clients.set(id, { client, synced: false });
+    this.sync(id);
+    if (this.clients.size === 1) this.scheduleRefresh(0);
+    return () => this.detach(id);
+  }
+
+  detach(id: string) {
+    this.clients.delete(id);
+    if (this.clients.size === 0) {
+      // Nobody is listening: stop polling and drop the snapshot so the next
+      // client starts from fresh data
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = null;
+      this.state = { kind: "idle" };
+    }
+  }
+
+  /** Read the provider once and push the result to every client. Concurrent calls share one read. */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.load().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async load() {
+    const provider = this.getProvider();
+    const source = provider.name;
+    const unavailable = provider.unavailableReason();
+    if (unavailable) {
+      this.setUnavailable(source, unavailable);
+      return;
+    }
+
+    const at = new Date();
+    let records: SatelliteRecord[];
+    try {
+      records = await provider.tracked(at);
+    } catch (err) {
+      console.error(`[SatelliteStream] ${source} provider error:`, err);
+      // Keep serving the last snapshot; only report an outage if there is none
+      if (this.state.kind !== "live" || this.state.source !== source) {
+        const message = err instanceof N2yoQuotaExceededError ? err.message : "Failed to fetch satellite data";
+        this.setUnavailable(source, message);
+      }
+      return;
+    }
+
+    const next = new Map<number, SatelliteSummary>();
+    for (const r of records) {
+      if (isFinite(r.latitude) && isFinite(r.longitude)) next.set(r.id, summarizeSatellite(r));
+    }
+
+    const prev = this.state;
+    this.state = { kind: "live", source, timestamp: at.getTime(), satellites: next };
+    if (prev.kind !== "live" || prev.source !== source) {
+      // New or switched source: everyone needs a full snapshot
+      this.clients.forEach((c) => { c.synced = false; });
+    } else {
+      const delta = diffSatellites(prev.satellites, next);
+      const hasChanges = delta.moved.length > 0 || delta.added.length > 0 || delta.removed.length > 0;
+      if (hasChanges) {
+        this.broadcast({ type: "delta", timestamp: at.getTime(), ...delta }, (c) => c.synced);
+      }
+    }
+    this.clients.forEach((_, id) => this.sync(id));
+  }
+
+  private setUnavailable(source: SatelliteSource, message: string) {
+    const prev = this.state;
+    this.state = { kind: "unavailable", source, message };
+    if (prev.kind === "unavailable" && prev.source === source && prev.message === message) return;
+    this.broadcast({ type: "unavailable", source, message }, () => true);
+    this.clients.forEach((c) => { c.synced = false; });
+  }
+
+  // Send the full snapshot to a client that does not have it yet
+  private sync(id: string) {
+    const entry = this.clients.get(id);
+    if (!entry || entry.synced) return;
+    const state = this.state;
+    if (state.kind === "live") {
+      entry.synced = this.send(id, {
+        type: "snapshot",
+        source: state.source,
+        timestamp: state.timestamp,
+        satellites: Array.from(state.satellites.values()),
+      });
+    } else if (state.kind === "unavailable") {
+      this.send(id, { type: "unavailable", source: state.source, message: state.message });
+    }
+  }
+
+  private broadcast(msg: SatelliteStreamMessage, filter: (c: { synced: boolean }) => boolean) {
+    const data = `data: ${JSON.stringify(msg)}\n\n`;
+    this.clients.forEach((c, id) => {
+      if (filter(c)) this.sendRaw(id, data);
+    });
+  }
+
+  private send(id: string, msg: SatelliteStreamMessage): boolean {
+    return this.sendRaw(id, `data: ${JSON.stringify(msg)}\n\n`);
+  }
+
+  private sendRaw(id: string, data: string): boolean {
+    const entry = this.clients.get(id);
+    if (!entry) return false;
+    try {
+      entry.client.write(data);
+      return true;
+    } catch {
+      this.detach(id);
+      return false;
+    }
+  }
+
+  private scheduleRefresh(delay: number) {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      await this.refresh();
+      if (this.clients.size === 0) return;
+      const interval = this.state.kind === "live" && this.state.source === "tle" ? TLE_REFRESH_MS : SAT_CACHE_TTL_MS;
+      this.scheduleRefresh(interval);
+    }, delay);
+  }
+}
+
+export const satelliteStream = new SatelliteStreamHub();
+
+// ─── SSE Handler ──────────────────────────────────────────────────────────────
+
+export function handleSatelliteSSE(req: Request, res: Response) {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.flushHeaders();
+
+  const detach = satelliteStream.attach(res);
+
+  // Heartbeat every 30s
+  const heartbeat = setInterval(() => {
+    try {
+      res.write(`:heartbeat\n\n`);
+    } catch {
+      clearInterval(heartbeat);
+      detach();
+    }
+  }, HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    detach();
+  });
+}
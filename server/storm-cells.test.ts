@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { destinationPoint } from "@shared/storms";
+import { clusterStrikes, distanceKm, hullPolygon, StormCellTracker } from "./storm-cells";
+import type { LightningStrike } from "./lightning-store";
+
+const MIN = 60_000;
+const T0 = Date.UTC(2026, 6, 1, 18);
+
+let seq = 0;
+
+// `count` strikes scattered within ~8 km of a point, spread over the minute before `time`
+function burst(lat: number, lon: number, time: number, count = 8): LightningStrike[] {
+  return Array.from({ length: count }, (_, i) => {
+    const p = destinationPoint({ lat, lon }, (i * 360) / count, 2 + (i % 4) * 2);
+    return { ...p, time: time - (i * MIN) / count, id: `k${seq++}` };
+  });
+}
+
+// Signed area of a [lon, lat] ring; negative means clockwise
+function signedArea(ring: Array<[number, number]>): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i]![0] * ring[i + 1]![1] - ring[i + 1]![0] * ring[i]![1];
+  }
+  return sum / 2;
+}
+
+// ─── Clustering ───────────────────────────────────────────────────────────────
+
+describe("clusterStrikes", () => {
+  it("separates distant storms and joins strikes across the antimeridian", () => {
+    const strikes = [
+      ...burst(30, -90, T0),
+      ...burst(30, -80, T0),  // ~960 km east
+      ...burst(-10, 179.95, T0),
+    ];
+    const clusters = clusterStrikes(strikes).map((c) => c.length).sort();
+    expect(clusters).toEqual([8, 8, 8]);
+  });
+});
+
+describe("hullPolygon", () => {
+  it("returns a closed clockwise ring around the strikes", () => {
+    const strikes = burst(45, 10, T0);
+    const ring = hullPolygon({ lat: 45, lon: 10 }, strikes, 8);
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+    expect(ring.length).toBeGreaterThanOrEqual(4);
+    expect(signedArea(ring)).toBeLessThan(0);
+  });
+
+  it("falls back to a small circle for a single location", () => {
+    const ring = hullPolygon({ lat: 0, lon: 0 }, [{ lat: 0, lon: 0 }, { lat: 0, lon: 0 }], 0);
+    expect(ring).toHaveLength(17);
+    expect(signedArea(ring)).toBeLessThan(0);
+  });
+});
+
+// ─── Tracking ─────────────────────────────────────────────────────────────────
+
+describe("StormCellTracker", () => {
+  it("keeps IDs stable and estimates motion for a drifting storm", () => {
+    const tracker = new StormCellTracker();
+    const start = { lat: 35, lon: -97 };
+    let id: string | undefined;
+
+    // A storm moving east at 60 km/h, sampled every minute for eight minutes
+    for (let m = 0; m <= 8; m++) {
+      const center = destinationPoint(start, 90, m);
+      burst(center.lat, center.lon, T0 + m * MIN).forEach((s) => tracker.add(s));
+      const update = tracker.update(T0 + m * MIN);
+      expect(update.cells).toHaveLength(1);
+      id ??= update.cells[0]!.id;
+      expect(update.cells[0]!.id).toBe(id);
+    }
+
+    const [cell] = tracker.current();
+    expect(cell!.ratePerMin).toBeGreaterThan(5);
+    expect(cell!.strikeCount).toBe(72);
+    expect(cell!.velocity).not.toBeNull();
+    // The centroid lags the storm while old strikes remain in the window, so
+    // allow a loose band around the true speed
+    expect(cell!.velocity!.speedKmh).toBeGreaterThan(20);
+    expect(cell!.velocity!.speedKmh).toBeLessThan(90);
+    expect(Math.abs(cell!.velocity!.bearingDeg - 90)).toBeLessThan(10);
+    expect(distanceKm(cell!.centroid, start)).toBeLessThan(10);
+  });
+
+  it("ignores isolated flashes and removes cells once their strikes expire", () => {
+    const tracker = new StormCellTracker();
+    burst(50, 8, T0, 3).forEach((s) => tracker.add(s));  // too few for a cell
+    burst(20, 100, T0).forEach((s) => tracker.add(s));
+    const first = tracker.update(T0);
+    expect(first.cells).toHaveLength(1);
+
+    const later = tracker.update(T0 + 11 * MIN);
+    expect(later.cells).toHaveLength(0);
+    expect(later.removed).toEqual([first.cells[0]!.id]);
+  });
+
+  it("lets the larger storm keep its ID when two merge", () => {
+    const tracker = new StormCellTracker();
+    burst(10, 10, T0, 12).forEach((s) => tracker.add(s));
+    burst(10, 10.5, T0, 6).forEach((s) => tracker.add(s));  // ~55 km away
+    const before = tracker.update(T0);
+    expect(before.cells).toHaveLength(2);
+    const big = before.cells.find((c) => c.strikeCount === 12)!;
+
+    // Strikes filling the gap join both into one cell
+    for (let lon = 10.1; lon < 10.5; lon += 0.1) burst(10, lon, T0 + MIN, 5).forEach((s) => tracker.add(s));
+    const after = tracker.update(T0 + MIN);
+    expect(after.cells).toHaveLength(1);
+    expect(after.cells[0]!.id).toBe(big.id);
+    expect(after.removed).toHaveLength(1);
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Storm Cell Tracker
+ *
+ * Groups recent lightning strikes into storm cells and follows them over time.
+ * Every update clusters the strikes of the last 10 minutes by single linkage
+ * (strikes within LINK_KM of each other share a cell), then matches the new
+ * clusters to the previous cells by the strikes they have in common, so a cell
+ * keeps its ID while it drifts, grows or shrinks. When cells merge the larger
+ * one keeps its ID; when one splits the larger part does.
+ *
+ * Each cell carries its centroid, hull polygon, radius, strike rate and a
+ * velocity estimated from the centroid track over the last few minutes.
+ */
+
+import { nanoid } from "nanoid";
+import type { StormCell } from "@shared/storms";
+import type { LightningStrike } from "./lightning-store";
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEG = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+const WINDOW_MS = 10 * 60 * 1000;       // strikes older than this leave their cell
+const RATE_WINDOW_MS = 5 * 60 * 1000;
+const LINK_KM = 20;                     // max gap between strikes of one cell
+const MIN_STRIKES = 5;                  // fewer strikes are isolated flashes, not a cell
+const VELOCITY_MIN_SPAN_MS = 2 * 60 * 1000;
+const TRACK_HISTORY_MS = 10 * 60 * 1000;
+const MIN_POLYGON_RADIUS_KM = 5;
+
+// ─── Geometry ─────────────────────────────────────────────────────────────────
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+const wrapLon = (lon: number) => ((((lon + 180) % 360) + 360) % 360) - 180;
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+export function distanceKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const x = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(x), Math.sqrt(1 - x));
+}
+
+function bearingDeg(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const φ1 = toRad(a.lat);
+  const φ2 = toRad(b.lat);
+  const Δλ = toRad(b.lon - a.lon);
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+// Mean of unit vectors, so clusters straddling the antimeridian average correctly
+function sphericalCentroid(points: Array<{ lat: number; lon: number }>): { lat: number; lon: number } {
+  let x = 0, y = 0, z = 0;
+  for (const p of points) {
+    const φ = toRad(p.lat);
+    const λ = toRad(p.lon);
+    x += Math.cos(φ) * Math.cos(λ);
+    y += Math.cos(φ) * Math.sin(λ);
+    z += Math.sin(φ);
+  }
+  return { lat: toDeg(Math.atan2(z, Math.hypot(x, y))), lon: toDeg(Math.atan2(y, x)) };
+}
+
+/**
+ * Convex hull of the strikes as a closed, clockwise [lon, lat] ring. Points
+ * are projected onto a local east/north plane around the centroid; degenerate
+ * hulls (fewer than three distinct points) become a small circle.
+ */
+export function hullPolygon(
+  center: { lat: number; lon: number },
+  points: Array<{ lat: number; lon: number }>,
+  radiusKm: number
+): Array<[number, number]> {
+  const cosLat = Math.max(0.01, Math.cos(toRad(center.lat)));
+  const local = points.map((p) => [
+    wrapLon(p.lon - center.lon) * KM_PER_DEG * cosLat,
+    (p.lat - center.lat) * KM_PER_DEG,
+  ] as [number, number]);
+  local.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  // Andrew's monotone chain → counter-clockwise hull
+  const cross = (o: number[], a: number[], b: number[]) => (a[0]! - o[0]!) * (b[1]! - o[1]!) - (a[1]! - o[1]!) * (b[0]! - o[0]!);
+  const lower: Array<[number, number]> = [];
+  for (const p of local) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2]!, lower[lower.length - 1]!, p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Array<[number, number]> = [];
+  for (let i = local.length - 1; i >= 0; i--) {
+    const p = local[i]!;
+    while (upper.length >= 2 && cross(upper[upper.length - 2]!, upper[upper.length - 1]!, p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  let hull = lower.slice(0, -1).concat(upper.slice(0, -1));
+
+  if (hull.length < 3) {
+    const r = Math.max(radiusKm, MIN_POLYGON_RADIUS_KM);
+    hull = Array.from({ length: 16 }, (_, i) => {
+      const a = (i / 16) * 2 * Math.PI;
+      return [r * Math.cos(a), r * Math.sin(a)] as [number, number];
+    });
+  }
+
+  // d3-geo treats clockwise rings as the polygon interior
+  const ring = hull.reverse().map(([x, y]) => [
+    round(wrapLon(center.lon + x / (KM_PER_DEG * cosLat)), 4),
+    round(center.lat + y / KM_PER_DEG, 4),
+  ] as [number, number]);
+  ring.push(ring[0]!);
+  return ring;
+}
+
+// ─── Clustering ───────────────────────────────────────────────────────────────
+
+/** Single-linkage clusters of strikes closer than `linkKm`, via a lat/lon grid. */
+export function clusterStrikes(strikes: LightningStrike[], linkKm = LINK_KM): LightningStrike[][] {
+  const cellDeg = linkKm / KM_PER_DEG;
+  const cols = Math.ceil(360 / cellDeg);
+  const grid = new Map<string, number[]>();
+  const keyOf = (row: number, col: number) => `${row}:${((col % cols) + cols) % cols}`;
+  const rowOf = (lat: number) => Math.floor((lat + 90) / cellDeg);
+  const colOf = (lon: number) => Math.floor((lon + 180) / cellDeg);
+
+  strikes.forEach((s, i) => {
+    const key = keyOf(rowOf(s.lat), colOf(s.lon));
+    const bucket = grid.get(key);
+    if (bucket) bucket.push(i);
+    else grid.set(key, [i]);
+  });
+
+  const parent = strikes.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!;
+      i = parent[i]!;
+    }
+    return i;
+  };
+
+  strikes.forEach((s, i) => {
+    const row = rowOf(s.lat);
+    // A longitude degree shrinks with latitude, so search more columns poleward
+    const cosLat = Math.cos(toRad(Math.min(89.9, Math.abs(s.lat) + cellDeg)));
+    const span = Math.min(Math.ceil(cols / 2), Math.ceil(1 / Math.max(cosLat, 1e-3)));
+    const col = colOf(s.lon);
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -span; dc <= span; dc++) {
+        const bucket = grid.get(keyOf(row + dr, col + dc));
+        if (!bucket) continue;
+        for (const j of bucket) {
+          if (j <= i) continue;
+          if (distanceKm(s, strikes[j]!) > linkKm) continue;
+          const a = find(i);
+          const b = find(j);
+          if (a !== b) parent[a] = b;
+        }
+      }
+    }
+  });
+
+  const groups = new Map<number, LightningStrike[]>();
+  strikes.forEach((s, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) group.push(s);
+    else groups.set(root, [s]);
+  });
+  return Array.from(groups.values());
+}
+
+// ─── Tracker ──────────────────────────────────────────────────────────────────
+
+interface TrackedCell {
+  cell: StormCell;
+  strikeIds: Set<string>;
+  track: Array<{ time: number; lat: number; lon: number }>;
+}
+
+export interface StormCellUpdate {
+  time: number;
+  cells: StormCell[];
+  removed: string[];
+}
+
+export class StormCellTracker {
+  private strikes: LightningStrike[] = [];
+  private cells = new Map<string, TrackedCell>();
+
+  add(strike: LightningStrike) {
+    this.strikes.push(strike);
+  }
+
+  current(): StormCell[] {
+    return Array.from(this.cells.values(), (t) => t.cell);
+  }
+
+  /** Re-cluster the tracking window and match the result to the previous cells. */
+  update(now: number): StormCellUpdate {
+    const cutoff = now - WINDOW_MS;
+    this.strikes = this.strikes.filter((s) => s.time >= cutoff && s.time <= now);
+
+    const clusters = clusterStrikes(this.strikes)
+      .filter((c) => c.length >= MIN_STRIKES)
+      .sort((a, b) => b.length - a.length);
+
+    // Pair clusters with previous cells by shared strikes, biggest overlap first
+    const cellOfStrike = new Map<string, string>();
+    this.cells.forEach((t, id) => t.strikeIds.forEach((strikeId) => cellOfStrike.set(strikeId, id)));
+    const pairs: Array<{ cluster: number; id: string; shared: number }> = [];
+    clusters.forEach((cluster, index) => {
+      const overlap = new Map<string, number>();
+      for (const s of cluster) {
+        const id = cellOfStrike.get(s.id);
+        if (id) overlap.set(id, (overlap.get(id) ?? 0) + 1);
+      }
+      overlap.forEach((shared, id) => pairs.push({ cluster: index, id, shared }));
+    });
+    pairs.sort((a, b) => b.shared - a.shared);
+
+    const idFor = new Map<number, string>();
+    const taken = new Set<string>();
+    for (const p of pairs) {
+      if (idFor.has(p.cluster) || taken.has(p.id)) continue;
+      idFor.set(p.cluster, p.id);
+      taken.add(p.id);
+    }
+
+    const next = new Map<string, TrackedCell>();
+    clusters.forEach((cluster, index) => {
+      const id = idFor.get(index) ?? nanoid(8);
+      next.set(id, this.buildCell(id, cluster, now, this.cells.get(id)));
+    });
+
+    const removed = Array.from(this.cells.keys()).filter((id) => !next.has(id));
+    this.cells = next;
+    return { time: now, cells: this.current(), removed };
+  }
+
+  private buildCell(id: string, strikes: LightningStrike[], now: number, prev?: TrackedCell): TrackedCell {
+    const centroid = sphericalCentroid(strikes);
+    let radiusKm = 0;
+    let lastStrikeAt = 0;
+    let recent = 0;
+    for (const s of strikes) {
+      radiusKm = Math.max(radiusKm, distanceKm(centroid, s));
+      lastStrikeAt = Math.max(lastStrikeAt, s.time);
+      if (s.time >= now - RATE_WINDOW_MS) recent++;
+    }
+
+    const track = (prev?.track ?? []).filter((p) => p.time >= now - TRACK_HISTORY_MS);
+    track.push({ time: now, ...centroid });
+
+    // Velocity from the oldest centroid far enough back to average out jitter
+    let velocity: StormCell["velocity"] = null;
+    const origin = track[0]!;
+    if (now - origin.time >= VELOCITY_MIN_SPAN_MS) {
+      const hours = (now - origin.time) / 3_600_000;
+      velocity = {
+        speedKmh: round(distanceKm(origin, centroid) / hours, 1),
+        bearingDeg: round(bearingDeg(origin, centroid), 0),
+      };
+    }
+
+    return {
+      strikeIds: new Set(strikes.map((s) => s.id)),
+      track,
+      cell: {
+        id,
+        centroid: { lat: round(centroid.lat, 4), lon: round(centroid.lon, 4) },
+        polygon: hullPolygon(centroid, strikes, radiusKm),
+        radiusKm: round(radiusKm, 1),
+        strikeCount: strikes.length,
+        ratePerMin: round(recent / (RATE_WINDOW_MS / 60_000), 1),
+        velocity,
+        firstSeen: prev?.cell.firstSeen ?? now,
+        lastStrikeAt,
+      },
+    };
+  }
+}
+
+export const stormCells = new StormCellTracker();
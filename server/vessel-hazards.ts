@@ -0,0 +1,178 @@
+/**
+ * Vessel Hazards
+ *
+ * Correlates the lightning feed with the AIS vessel store. Every 15 seconds
+ * each ship, at its dead-reckoned position, is checked against the strikes of
+ * the last 10 minutes and the live storm cells: a ship within the hazard
+ * radius of a strike, or of a cell's edge, is at risk (shared/hazards.ts).
+ * Ships stay flagged for 5 minutes after their last hazard so that a passing
+ * shower does not raise an event per check. Flagging and clearing are kept as
+ * events for the dashboard's Live Feed (`vessels.hazardEvents`).
+ *
+ * Recent strikes are bucketed on a 1° grid, so a check only looks at the few
+ * buckets around each ship.
+ *
+ * Configuration:
+ *   VESSEL_HAZARD_RADIUS_KM → hazard radius (default 20, at most 100)
+ */
+
+import { nanoid } from "nanoid";
+import {
+  DEFAULT_HAZARD_RADIUS_KM,
+  MAX_HAZARD_RADIUS_KM,
+  type VesselHazard,
+  type VesselHazardEvent,
+} from "@shared/hazards";
+import type { StormCell } from "@shared/storms";
+import { deadReckon, type VesselPoint } from "@shared/vessels";
+import type { LightningStrike } from "./lightning-store";
+import { distanceKm, stormCells } from "./storm-cells";
+import { vesselStore } from "./vessel-ws";
+
+const STRIKE_WINDOW_MS = 10 * 60 * 1000;
+const CHECK_INTERVAL_MS = 15_000;
+const CLEAR_AFTER_MS = 5 * 60 * 1000;
+const MAX_EVENTS = 200;
+const KM_PER_DEGREE = 111.2;
+
+export function hazardRadiusKm(): number {
+  const km = Number(process.env.VESSEL_HAZARD_RADIUS_KM);
+  return Number.isFinite(km) && km > 0 ? Math.min(km, MAX_HAZARD_RADIUS_KM) : DEFAULT_HAZARD_RADIUS_KM;
+}
+
+const gridKey = (lat: number, lon: number) => `${Math.floor(lat)},${Math.floor(lon)}`;
+
+export class VesselHazards {
+  private strikes = new Map<string, Array<{ lat: number; lon: number; time: number }>>();  // per 1° cell, oldest first
+  private flagged = new Map<string, { hazard: VesselHazard; lastHazardAt: number }>();
+  private events: VesselHazardEvent[] = [];  // oldest first
+  private checkedAt: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.check(vesselStore.getAll(), stormCells.current()), CHECK_INTERVAL_MS);
+    this.timer.unref?.();
+  }
+
+  addStrike(strike: Pick<LightningStrike, "lat" | "lon" | "time">) {
+    const key = gridKey(strike.lat, strike.lon);
+    const bucket = this.strikes.get(key);
+    const point = { lat: strike.lat, lon: strike.lon, time: strike.time };
+    if (bucket) bucket.push(point);
+    else this.strikes.set(key, [point]);
+  }
+
+  /** Flag and clear ships; returns the events this check raised. */
+  check(vessels: VesselPoint[], cells: StormCell[]): VesselHazardEvent[] {
+    const now = this.now();
+    const radiusKm = hazardRadiusKm();
+    const raised: VesselHazardEvent[] = [];
+    this.prune(now);
+
+    const atRisk = new Set<string>();
+    for (const vessel of vessels) {
+      const pos = deadReckon(vessel, now);
+      const strikes = this.strikesNear(pos, radiusKm);
+      let cell: { id: string; distanceKm: number } | null = null;
+      for (const c of cells) {
+        const d = Math.max(0, distanceKm(pos, c.centroid) - c.radiusKm);
+        if (d <= radiusKm && (!cell || d < cell.distanceKm)) cell = { id: c.id, distanceKm: d };
+      }
+      if (strikes.count === 0 && !cell) continue;
+
+      const source = cell && (strikes.count === 0 || cell.distanceKm <= strikes.nearestKm) ? "cell" : "strikes";
+      const previous = this.flagged.get(vessel.mmsi);
+      const hazard: VesselHazard = {
+        mmsi: vessel.mmsi,
+        name: vessel.name,
+        category: vessel.category,
+        lat: pos.lat,
+        lon: pos.lon,
+        source,
+        distanceKm: Number((source === "cell" ? cell!.distanceKm : strikes.nearestKm).toFixed(1)),
+        strikeCount: strikes.count,
+        cellId: cell?.id ?? null,
+        since: previous?.hazard.since ?? now,
+        checkedAt: now,
+      };
+      this.flagged.set(vessel.mmsi, { hazard, lastHazardAt: now });
+      atRisk.add(vessel.mmsi);
+      if (!previous) raised.push(this.record("entered", hazard, now));
+    }
+
+    // Ships that left the store are cleared at once; the rest after the hold
+    const present = new Set(vessels.map((v) => v.mmsi));
+    for (const [mmsi, { hazard, lastHazardAt }] of Array.from(this.flagged)) {
+      if (atRisk.has(mmsi) || (present.has(mmsi) && now - lastHazardAt < CLEAR_AFTER_MS)) continue;
+      this.flagged.delete(mmsi);
+      raised.push(this.record("cleared", hazard, now));
+    }
+    this.checkedAt = now;
+    return raised;
+  }
+
+  /** Ships currently at risk, nearest hazard first. */
+  atRisk(): { radiusKm: number; checkedAt: number | null; vessels: VesselHazard[] } {
+    const vessels = Array.from(this.flagged.values(), (f) => f.hazard).sort((a, b) => a.distanceKm - b.distanceKm);
+    return { radiusKm: hazardRadiusKm(), checkedAt: this.checkedAt, vessels };
+  }
+
+  /** Events raised after `since`, oldest first. */
+  eventsSince(since: number): VesselHazardEvent[] {
+    return this.events.filter((e) => e.time > since);
+  }
+
+  private record(kind: VesselHazardEvent["kind"], hazard: VesselHazard, now: number): VesselHazardEvent {
+    const event: VesselHazardEvent = {
+      id: nanoid(10),
+      kind,
+      time: now,
+      mmsi: hazard.mmsi,
+      name: hazard.name,
+      category: hazard.category,
+      lat: hazard.lat,
+      lon: hazard.lon,
+      distanceKm: kind === "entered" ? hazard.distanceKm : null,
+      source: kind === "entered" ? hazard.source : null,
+    };
+    this.events.push(event);
+    if (this.events.length > MAX_EVENTS) this.events.splice(0, this.events.length - MAX_EVENTS);
+    return event;
+  }
+
+  private prune(now: number) {
+    this.strikes.forEach((bucket, key) => {
+      let stale = 0;
+      while (stale < bucket.length && now - bucket[stale]!.time > STRIKE_WINDOW_MS) stale++;
+      if (stale === bucket.length) this.strikes.delete(key);
+      else if (stale > 0) bucket.splice(0, stale);
+    });
+  }
+
+  // Strikes within the radius, from the grid cells the radius can reach
+  private strikesNear(pos: { lat: number; lon: number }, radiusKm: number): { count: number; nearestKm: number } {
+    const dLat = radiusKm / KM_PER_DEGREE;
+    const widest = Math.min(89.9, Math.abs(pos.lat) + dLat);
+    const dLon = Math.min(180, dLat / Math.cos((widest * Math.PI) / 180));
+    let count = 0;
+    let nearestKm = Infinity;
+    for (let lat = Math.floor(pos.lat - dLat); lat <= Math.floor(pos.lat + dLat); lat++) {
+      const lons = dLon >= 180 ? { from: -180, to: 179 } : { from: Math.floor(pos.lon - dLon), to: Math.floor(pos.lon + dLon) };
+      for (let lon = lons.from; lon <= lons.to; lon++) {
+        const wrapped = ((((lon + 180) % 360) + 360) % 360) - 180;
+        for (const strike of this.strikes.get(`${lat},${wrapped}`) ?? []) {
+          const d = distanceKm(pos, strike);
+          if (d > radiusKm) continue;
+          count++;
+          nearestKm = Math.min(nearestKm, d);
+        }
+      }
+    }
+    return { count, nearestKm };
+  }
+}
+
+export const vesselHazards = new VesselHazards();
@@ -0,0 +1,128 @@
+/**
+ * AISStream Subscription Boxes
+ *
+ * Which areas the server asks AISStream for. The configured boxes are the
+ * outer limit; while every connected client has declared a viewport, the
+ * subscription narrows to the parts of those boxes that some client can see.
+ *
+ * A viewport is a spherical cap (shared/vessels.ts), which a single
+ * latitude/longitude box covers badly: near a pole it needs every longitude.
+ * Each cap is therefore covered by bands 30° of latitude high, each as wide
+ * as the cap gets within the band.
+ *
+ * Configuration:
+ *   AISSTREAM_BOUNDING_BOXES → "west,south,east,north;…" (default: the world).
+ *                              A box with west > east crosses the antimeridian.
+ */
+
+import { VIEWPORT_RADIUS_DEG, type VesselViewport } from "@shared/vessels";
+import type { BoundingBox } from "./lightning-store";
+
+const BAND_DEG = 30;
+const BAND_PADDING_DEG = 1;             // covers the cap between the 1° samples
+const MAX_SUBSCRIPTION_BOXES = 50;      // beyond this the configured boxes are used as they are
+
+export const WORLD: BoundingBox = { west: -180, south: -90, east: 180, north: 90 };
+
+/** Parse AISSTREAM_BOUNDING_BOXES; returns an error message for bad input. */
+export function parseBoundingBoxes(raw: string | undefined): BoundingBox[] | string {
+  if (!raw?.trim()) return [WORLD];
+  const boxes: BoundingBox[] = [];
+  for (const part of raw.split(";")) {
+    if (!part.trim()) continue;
+    const nums = part.split(",").map(Number);
+    if (nums.length !== 4 || nums.some((n) => !Number.isFinite(n))) {
+      return `"${part.trim()}" must be west,south,east,north`;
+    }
+    const [west, south, east, north] = nums as [number, number, number, number];
+    if (south < -90 || north > 90 || south >= north || Math.abs(west) > 180 || Math.abs(east) > 180 || west === east) {
+      return `"${part.trim()}" is out of range`;
+    }
+    boxes.push({ west, south, east, north });
+  }
+  return boxes.length > 0 ? boxes : [WORLD];
+}
+
+/** Boxes that wrap across the antimeridian become one box on each side. */
+export function splitAntimeridian(boxes: BoundingBox[]): BoundingBox[] {
+  return boxes.flatMap((b) =>
+    b.west <= b.east ? [b] : [{ ...b, east: 180 }, { ...b, west: -180 }]
+  );
+}
+
+// ─── Viewport Caps ────────────────────────────────────────────────────────────
+
+// Widest longitude offset from the center still inside the cap at `lat`
+function capHalfWidth(center: VesselViewport, lat: number, radiusDeg: number): number {
+  const rad = Math.PI / 180;
+  const sinTerm = Math.sin(lat * rad) * Math.sin(center.lat * rad);
+  const cosTerm = Math.cos(lat * rad) * Math.cos(center.lat * rad);
+  const cosRadius = Math.cos(radiusDeg * rad);
+  if (cosTerm < 1e-9) return sinTerm >= cosRadius ? 180 : 0;  // a pole, or a cap centered on one
+  const x = (cosRadius - sinTerm) / cosTerm;
+  if (x <= -1) return 180;
+  if (x > 1) return 0;
+  return Math.acos(x) / rad;
+}
+
+/** Latitude bands covering everything within `radiusDeg` of the center. */
+export function capBoxes(center: VesselViewport, radiusDeg: number = VIEWPORT_RADIUS_DEG): BoundingBox[] {
+  const south = Math.max(-90, center.lat - radiusDeg);
+  const north = Math.min(90, center.lat + radiusDeg);
+  const boxes: BoundingBox[] = [];
+  for (let bandSouth = south; bandSouth < north; bandSouth += BAND_DEG) {
+    const bandNorth = Math.min(north, bandSouth + BAND_DEG);
+    let half = capHalfWidth(center, bandNorth, radiusDeg);
+    for (let lat = bandSouth; lat < bandNorth; lat++) half = Math.max(half, capHalfWidth(center, lat, radiusDeg));
+    half += BAND_PADDING_DEG;
+    if (half >= 180) {
+      boxes.push({ west: -180, south: bandSouth, east: 180, north: bandNorth });
+    } else {
+      const wrap = (lon: number) => ((((lon + 180) % 360) + 360) % 360) - 180;
+      boxes.push({ west: wrap(center.lon - half), south: bandSouth, east: wrap(center.lon + half), north: bandNorth });
+    }
+  }
+  return boxes;
+}
+
+function intersect(a: BoundingBox[], b: BoundingBox[]): BoundingBox[] {
+  const out: BoundingBox[] = [];
+  for (const x of splitAntimeridian(a)) {
+    for (const y of splitAntimeridian(b)) {
+      const box = {
+        west: Math.max(x.west, y.west),
+        south: Math.max(x.south, y.south),
+        east: Math.min(x.east, y.east),
+        north: Math.min(x.north, y.north),
+      };
+      if (box.west < box.east && box.south < box.north) out.push(box);
+    }
+  }
+  return out;
+}
+
+/**
+ * Boxes to subscribe to, none of them crossing the antimeridian. The
+ * configured boxes are used as they are while any client has not declared a
+ * viewport (or none is connected, so the store keeps filling), when no
+ * viewport overlaps them, and when the viewports need too many boxes.
+ */
+export function subscriptionBoxes(configured: BoundingBox[], viewports: Array<VesselViewport | null>): BoundingBox[] {
+  const all = splitAntimeridian(configured);
+  if (viewports.length === 0 || viewports.some((v) => v === null)) return all;
+
+  const centers = new Map(viewports.map((v) => [`${v!.lat},${v!.lon}`, v!]));
+  const seen = new Set<string>();
+  const boxes = intersect(configured, Array.from(centers.values()).flatMap((c) => capBoxes(c))).filter((b) => {
+    const key = `${b.west},${b.south},${b.east},${b.north}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return boxes.length > 0 && boxes.length <= MAX_SUBSCRIPTION_BOXES ? boxes : all;
+}
+
+/** AISStream's `BoundingBoxes`: [[south, west], [north, east]] corners. */
+export function toAISBoundingBoxes(boxes: BoundingBox[]): Array<[[number, number], [number, number]]> {
+  return splitAntimeridian(boxes).map((b) => [[b.south, b.west], [b.north, b.east]]);
+}
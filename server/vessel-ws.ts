@@ -2,8 +2,9 @@
  * AISStream Vessel Tracking WebSocket Proxy
  *
  * Connects to wss://stream.aisstream.io/v0/stream with the AISSTREAM_API_KEY,
- * subscribes to PositionReport messages globally, stores recent vessel positions,
- * and re-broadcasts to connected SSE clients at /api/vessels/stream.
+ * subscribes globally to position reports and to the static data ships send
+ * every few minutes, stores recent vessel positions joined with that data by
+ * MMSI, and re-broadcasts to connected SSE clients at /api/vessels/stream.
  *
  * Data format from aisstream.io:
  * {
@@ -11,62 +12,173 @@
  *   Metadata: { Latitude, Longitude, MMSI, ShipName, ... },
  *   Message: { PositionReport: { Cog, Sog, TrueHeading, ... } }
  * }
+ * ShipStaticData (class A: name, callsign, IMO, type, dimensions, destination,
+ * ETA) and StaticDataReport (class B, sent in two parts: A with the name, B
+ * with type, callsign and dimensions) arrive the same way under their own key.
+ *
+ * Clients declare the hemisphere they show (`?lat=&lon=` on the stream, then
+ * vessels.setViewport as the globe turns) and receive only ships in it. The
+ * upstream subscription follows the union of viewports, within the boxes
+ * configured in AISSTREAM_BOUNDING_BOXES (see vessel-viewports.ts).
  */
 
 import type { Request, Response } from "express";
 import WebSocket from "ws";
 import { nanoid } from "nanoid";
+import {
+  classifyVessel,
+  inViewport,
+  viewportAt,
+  type AISStreamStatus,
+  type VesselPoint,
+  type VesselStreamMessage,
+  type VesselTrackPoint,
+  type VesselViewport,
+} from "@shared/vessels";
+import { parseBoundingBoxes, subscriptionBoxes, toAISBoundingBoxes, WORLD } from "./vessel-viewports";
+
+export type { VesselPoint } from "@shared/vessels";
+
+// AIS sentinels for "not available"
+const HEADING_UNAVAILABLE = 511;
+const COG_UNAVAILABLE = 360;
+const SOG_UNAVAILABLE = 102.3;
+
+/** What a position report carries; the store adds the static data. */
+export type VesselPosition = Pick<VesselPoint, "mmsi" | "name" | "lat" | "lon" | "cog" | "sog" | "heading" | "time">;
+
+/** Identity and voyage fields from static reports; each report may fill only some. */
+export type VesselStaticData = Partial<
+  Pick<VesselPoint, "name" | "shipType" | "callsign" | "imo" | "length" | "beam" | "destination" | "eta">
+>;
 
 // ─── Vessel Store ─────────────────────────────────────────────────────────────
 
-export interface VesselPoint {
-  mmsi: string;
-  name: string;
-  lat: number;
-  lon: number;
-  cog: number;      // Course over ground (degrees)
-  sog: number;      // Speed over ground (knots)
-  heading: number;
-  time: number;     // ms timestamp
-  shipType?: number;
-}
-
-class VesselStore {
-  private vessels = new Map<string, VesselPoint>();
-  private maxSize = 500;
-
-  update(vessel: VesselPoint) {
-    this.vessels.set(vessel.mmsi, vessel);
-    // Trim to max size (remove oldest by insertion order)
-    if (this.vessels.size > this.maxSize) {
-      const firstKey = this.vessels.keys().next().value;
-      if (firstKey) this.vessels.delete(firstKey);
+const VESSEL_STALE_MS = 30 * 60 * 1000;    // drop ships not heard from for this long
+const STATIC_STALE_MS = 60 * 60 * 1000;    // static data is re-sent every 6 min
+const MAX_VESSELS = 20_000;                 // safety cap; the oldest reports go first
+const TRACK_WINDOW_MS = 6 * 60 * 60 * 1000;
+const TRACK_MAX_POINTS = 360;
+const TRACK_MIN_INTERVAL_MS = 60_000;       // ships report every 2 s to 3 min
+const EXPIRE_INTERVAL_MS = 10_000;
+
+/**
+ * Latest report and a recent track (at most one point a minute, six hours
+ * back) per MMSI, plus the latest static data, which is kept separately
+ * because it may arrive before the first position. Both maps are kept in
+ * order of last report (re-inserted on every update), so expiry only has to
+ * look at their heads.
+ */
+export class VesselStore {
+  private vessels = new Map<string, { vessel: VesselPoint; track: VesselTrackPoint[] }>();
+  private statics = new Map<string, { data: VesselStaticData; time: number }>();
+  private lastExpiry = 0;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /** Stores a position report and returns it joined with the ship's static data. */
+  update(position: VesselPosition): VesselPoint {
+    const vessel = this.join(position);
+    const entry = this.vessels.get(vessel.mmsi);
+    const track = entry?.track ?? [];
+    const last = track[track.length - 1];
+    if (!last || vessel.time - last[0] >= TRACK_MIN_INTERVAL_MS) {
+      track.push([vessel.time, vessel.lat, vessel.lon]);
+    }
+    while (track.length > TRACK_MAX_POINTS || (track.length > 1 && vessel.time - track[0]![0] > TRACK_WINDOW_MS)) {
+      track.shift();
     }
+
+    this.vessels.delete(vessel.mmsi);
+    this.vessels.set(vessel.mmsi, { vessel, track });
+    this.expire();
+    return vessel;
+  }
+
+  /**
+   * Merges a static report into what is known about the ship. Returns the
+   * updated vessel when its position is known, null otherwise.
+   */
+  updateStatic(mmsi: string, data: VesselStaticData): VesselPoint | null {
+    const merged = { ...this.statics.get(mmsi)?.data, ...data };
+    this.statics.delete(mmsi);
+    this.statics.set(mmsi, { data: merged, time: this.now() });
+
+    const entry = this.vessels.get(mmsi);
+    if (entry) entry.vessel = this.join(entry.vessel);
+    this.expire();
+    return entry?.vessel ?? null;
   }
 
   getAll(): VesselPoint[] {
-    return Array.from(this.vessels.values());
+    this.expire();
+    return Array.from(this.vessels.values(), (e) => e.vessel);
   }
 
   getCount(): number {
+    this.expire();
     return this.vessels.size;
   }
 
+  /** Latest report and recent positions, oldest first; null for unknown or expired ships. */
+  getTrack(mmsi: string): { vessel: VesselPoint; track: VesselTrackPoint[] } | null {
+    this.expire();
+    const entry = this.vessels.get(mmsi);
+    return entry ? { vessel: entry.vessel, track: [...entry.track] } : null;
+  }
+
   isAvailable(): boolean {
     return !!process.env.AISSTREAM_API_KEY;
   }
+
+  private join(position: VesselPosition): VesselPoint {
+    const data = this.statics.get(position.mmsi)?.data ?? {};
+    return { ...position, ...data, category: classifyVessel(data.shipType) };
+  }
+
+  private expire() {
+    const now = this.now();
+    if (
+      now - this.lastExpiry < EXPIRE_INTERVAL_MS &&
+      this.vessels.size <= MAX_VESSELS &&
+      this.statics.size <= MAX_VESSELS
+    ) {
+      return;
+    }
+    this.lastExpiry = now;
+    const oldestFirst = this.vessels.values();
+    for (let next = oldestFirst.next(); !next.done; next = oldestFirst.next()) {
+      const { vessel } = next.value;
+      if (now - vessel.time <= VESSEL_STALE_MS && this.vessels.size <= MAX_VESSELS) break;
+      this.vessels.delete(vessel.mmsi);
+    }
+    const staticsOldestFirst = this.statics.entries();
+    for (let next = staticsOldestFirst.next(); !next.done; next = staticsOldestFirst.next()) {
+      const [mmsi, { time }] = next.value;
+      if (now - time <= STATIC_STALE_MS && this.statics.size <= MAX_VESSELS) break;
+      this.statics.delete(mmsi);
+    }
+  }
 }
 
 export const vesselStore = new VesselStore();
 
 // ─── SSE Client Registry ──────────────────────────────────────────────────────
 
-const sseClients = new Map<string, Response>();
+// `viewport` is null until the client declares one; it then gets every ship
+const sseClients = new Map<string, { res: Response; viewport: VesselViewport | null }>();
+
+function vesselsInView(viewport: VesselViewport | null): VesselPoint[] {
+  const vessels = vesselStore.getAll();
+  return viewport ? vessels.filter((v) => inViewport(v, viewport)) : vessels;
+}
 
 function broadcastVessel(vessel: VesselPoint) {
-  const data = `data: ${JSON.stringify(vessel)}\n\n`;
+  const msg: VesselStreamMessage = { type: "vessel", vessel };
+  const data = `data: ${JSON.stringify(msg)}\n\n`;
   const toDelete: string[] = [];
-  sseClients.forEach((res, id) => {
+  sseClients.forEach(({ res, viewport }, id) => {
+    if (viewport && !inViewport(vessel, viewport)) return;
     try {
       res.write(data);
     } catch {
@@ -74,13 +186,233 @@ function broadcastVessel(vessel: VesselPoint) {
     }
   });
   toDelete.forEach((id) => sseClients.delete(id));
+  if (toDelete.length > 0) scheduleResubscribe();
+}
+
+/**
+ * Replace a stream client's viewport and send it a snapshot of the ships now
+ * in view. Returns false for an unknown (or disconnected) client; a client
+ * whose stream can no longer be written is dropped.
+ */
+export function setVesselViewport(clientId: string, viewport: VesselViewport): boolean {
+  const client = sseClients.get(clientId);
+  if (!client) return false;
+  client.viewport = viewportAt(viewport.lat, viewport.lon);
+  const msg: VesselStreamMessage = { type: "snapshot", vessels: vesselsInView(client.viewport) };
+  let sent = true;
+  try {
+    client.res.write(`data: ${JSON.stringify(msg)}\n\n`);
+  } catch {
+    sseClients.delete(clientId);
+    sent = false;
+  }
+  scheduleResubscribe();
+  return sent;
+}
+
+// ─── AIS Message Decoding ─────────────────────────────────────────────────────
+
+const AIS_MESSAGE_TYPES = ["PositionReport", "ShipStaticData", "StaticDataReport"];
+
+interface AISDimension {
+  A?: number;  // bow to antenna
+  B?: number;  // antenna to stern
+  C?: number;  // port side to antenna
+  D?: number;  // antenna to starboard side
+}
+
+interface AISMessage {
+  MessageType?: string;
+  Metadata?: {
+    MMSI?: number | string;
+    ShipName?: string;
+    TimeReceived?: string;
+    Latitude?: number;
+    Longitude?: number;
+    latitude?: number;
+    longitude?: number;
+  };
+  Message?: {
+    PositionReport?: {
+      Cog?: number;
+      Sog?: number;
+      TrueHeading?: number;
+      Latitude?: number;
+      Longitude?: number;
+      UserID?: number;
+    };
+    ShipStaticData?: {
+      UserID?: number;
+      Valid?: boolean;
+      Name?: string;
+      CallSign?: string;
+      ImoNumber?: number;
+      Type?: number;
+      Dimension?: AISDimension;
+      Destination?: string;
+      Eta?: { Month?: number; Day?: number; Hour?: number; Minute?: number };
+    };
+    StaticDataReport?: {
+      UserID?: number;
+      Valid?: boolean;
+      PartNumber?: boolean;  // false: part A, true: part B
+      ReportA?: { Valid?: boolean; Name?: string };
+      ReportB?: { Valid?: boolean; ShipType?: number; CallSign?: string; Dimension?: AISDimension };
+    };
+  };
+}
+
+export type AISUpdate =
+  | { type: "position"; position: VesselPosition }
+  | { type: "static"; mmsi: string; data: VesselStaticData };
+
+// AIS text is six-bit ASCII padded with "@"; all padding means "not available"
+function aisText(text: string | undefined): string | undefined {
+  return text?.replace(/@.*$/, "").trim() || undefined;
+}
+
+// Zero in any direction means the distance is not available
+function aisDimensions(dim: AISDimension | undefined): Pick<VesselStaticData, "length" | "beam"> {
+  const { A = 0, B = 0, C = 0, D = 0 } = dim ?? {};
+  return {
+    ...(A > 0 && B > 0 ? { length: A + B } : {}),
+    ...(C > 0 && D > 0 ? { beam: C + D } : {}),
+  };
+}
+
+/**
+ * AIS ETAs are UTC month, day, hour and minute without a year. The year is
+ * the one that puts the ETA within six months of `now`. Month or day 0 means
+ * no ETA; an unavailable hour (24) or minute (60) reads as 0.
+ */
+export function decodeEta(
+  eta: { Month?: number; Day?: number; Hour?: number; Minute?: number } | undefined,
+  now: number
+): number | undefined {
+  const { Month = 0, Day = 0, Hour = 24, Minute = 60 } = eta ?? {};
+  if (Month < 1 || Month > 12 || Day < 1 || Day > 31) return undefined;
+  const at = (year: number) => Date.UTC(year, Month - 1, Day, Hour < 24 ? Hour : 0, Minute < 60 ? Minute : 0);
+  const year = new Date(now).getUTCFullYear();
+  const halfYear = 182 * 24 * 60 * 60 * 1000;
+  if (at(year) < now - halfYear) return at(year + 1);
+  if (at(year) > now + halfYear) return at(year - 1);
+  return at(year);
+}
+
+// Drop fields the report left unavailable so they do not overwrite known values
+function defined(data: VesselStaticData): VesselStaticData {
+  return Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined));
+}
+
+/** Decodes one aisstream.io message received at `now`; null for anything unusable. */
+export function decodeAISMessage(msg: AISMessage, now: number): AISUpdate | null {
+  const meta = msg.Metadata;
+
+  if (msg.MessageType === "ShipStaticData") {
+    const report = msg.Message?.ShipStaticData;
+    const mmsi = String(meta?.MMSI ?? report?.UserID ?? "");
+    if (!report || !mmsi || report.Valid === false) return null;
+    return {
+      type: "static",
+      mmsi,
+      data: defined({
+        name: aisText(report.Name),
+        callsign: aisText(report.CallSign),
+        imo: report.ImoNumber || undefined,
+        shipType: report.Type || undefined,
+        ...aisDimensions(report.Dimension),
+        destination: aisText(report.Destination),
+        eta: decodeEta(report.Eta, now),
+      }),
+    };
+  }
+
+  if (msg.MessageType === "StaticDataReport") {
+    const report = msg.Message?.StaticDataReport;
+    const mmsi = String(meta?.MMSI ?? report?.UserID ?? "");
+    if (!report || !mmsi || report.Valid === false) return null;
+    const data = report.PartNumber
+      ? {
+          shipType: report.ReportB?.ShipType || undefined,
+          callsign: aisText(report.ReportB?.CallSign),
+          ...aisDimensions(report.ReportB?.Dimension),
+        }
+      : { name: aisText(report.ReportA?.Name) };
+    return { type: "static", mmsi, data: defined(data) };
+  }
+
+  if (msg.MessageType !== "PositionReport") return null;
+
+  const pos = msg.Message?.PositionReport;
+
+  // lat/lon live in Message.PositionReport (not Metadata)
+  const lat = pos?.Latitude ?? meta?.Latitude;
+  const lon = pos?.Longitude ?? meta?.Longitude;
+  const mmsi = String(meta?.MMSI ?? pos?.UserID ?? "");
+
+  if (!lat || !lon || !mmsi) return null;
+
+  // Validate coordinates
+  if (lat < -90 || lat > 90 || lon < -180 || lon > 180) return null;
+  // Filter out 0,0 (null island) which is a common AIS error
+  if (Math.abs(lat) < 0.01 && Math.abs(lon) < 0.01) return null;
+
+  const cog = pos?.Cog != null && pos.Cog < COG_UNAVAILABLE ? pos.Cog : undefined;
+  return {
+    type: "position",
+    position: {
+      mmsi,
+      name: aisText(meta?.ShipName) || mmsi,
+      lat,
+      lon,
+      cog,
+      sog: pos?.Sog != null && pos.Sog < SOG_UNAVAILABLE ? pos.Sog : undefined,
+      heading: pos?.TrueHeading != null && pos.TrueHeading !== HEADING_UNAVAILABLE ? pos.TrueHeading : cog,
+      time: now,
+    },
+  };
 }
 
 // ─── AISStream WebSocket Connection ──────────────────────────────────────────
 
+const RESUBSCRIBE_DELAY_MS = 5000;  // viewport changes are batched into one re-subscription
+
 let aisWs: WebSocket | null = null;
 let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let resubscribeTimer: ReturnType<typeof setTimeout> | null = null;
 let isConnecting = false;
+let subscribedBoxes: string | null = null;  // BoundingBoxes last sent on the open socket
+
+function configuredBoxes() {
+  const boxes = parseBoundingBoxes(process.env.AISSTREAM_BOUNDING_BOXES);
+  if (typeof boxes === "string") {
+    console.warn(`[AISStream] Ignoring AISSTREAM_BOUNDING_BOXES: ${boxes}`);
+    return [WORLD];
+  }
+  return boxes;
+}
+
+/** Send the subscription for the current viewports unless it is already in effect. */
+function subscribe() {
+  const apiKey = process.env.AISSTREAM_API_KEY;
+  if (!apiKey || !aisWs || aisWs.readyState !== WebSocket.OPEN) return;
+  const viewports = Array.from(sseClients.values(), (c) => c.viewport);
+  const boxes = toAISBoundingBoxes(subscriptionBoxes(configuredBoxes(), viewports));
+  const key = JSON.stringify(boxes);
+  if (key === subscribedBoxes) return;
+  subscribedBoxes = key;
+  console.log(`[AISStream] Subscribing to ${boxes.length} bounding box(es)`);
+  aisWs.send(JSON.stringify({ APIKey: apiKey, BoundingBoxes: boxes, FilterMessageTypes: AIS_MESSAGE_TYPES }));
+}
+
+function scheduleResubscribe() {
+  if (resubscribeTimer) return;
+  resubscribeTimer = setTimeout(() => {
+    resubscribeTimer = null;
+    subscribe();
+  }, RESUBSCRIBE_DELAY_MS);
+  resubscribeTimer.unref?.();
+}
 
 export function connectAISStream() {
   const apiKey = process.env.AISSTREAM_API_KEY;
@@ -107,75 +439,24 @@ export function connectAISStream() {
 
   aisWs.on("open", () => {
     isConnecting = false;
-    console.log("[AISStream] Connected, subscribing to global PositionReport...");
-
-    // Subscribe to position reports globally
-    const subscription = {
-      APIKey: apiKey,
-      BoundingBoxes: [[[-90, -180], [90, 180]]],
-      FilterMessageTypes: ["PositionReport"],
-    };
-    aisWs!.send(JSON.stringify(subscription));
+    console.log("[AISStream] Connected, subscribing to position and static reports...");
+    subscribedBoxes = null;
+    subscribe();
   });
 
   aisWs.on("message", (rawData: Buffer | string) => {
+    let update: AISUpdate | null;
     try {
       const str = Buffer.isBuffer(rawData) ? rawData.toString("utf8") : (rawData as string);
-      const msg = JSON.parse(str) as {
-        MessageType?: string;
-        Metadata?: {
-          MMSI?: number | string;
-          ShipName?: string;
-          TimeReceived?: string;
-          latitude?: number;
-          longitude?: number;
-        };
-        Message?: {
-          PositionReport?: {
-            Cog?: number;
-            Sog?: number;
-            TrueHeading?: number;
-            ShipType?: number;
-            Latitude?: number;
-            Longitude?: number;
-            UserID?: number;
-          };
-        };
-      };
-
-      if (msg.MessageType !== "PositionReport") return;
-
-      const meta = msg.Metadata;
-      const pos = msg.Message?.PositionReport;
-
-      // lat/lon live in Message.PositionReport (not Metadata)
-      const lat = pos?.Latitude ?? (meta as any)?.Latitude;
-      const lon = pos?.Longitude ?? (meta as any)?.Longitude;
-      const mmsi = String(meta?.MMSI ?? pos?.UserID ?? "");
-
-      if (!lat || !lon || !mmsi) return;
-
-      // Validate coordinates
-      if (lat < -90 || lat > 90 || lon < -180 || lon > 180) return;
-      // Filter out 0,0 (null island) which is a common AIS error
-      if (Math.abs(lat) < 0.01 && Math.abs(lon) < 0.01) return;
-
-      const vessel: VesselPoint = {
-        mmsi,
-        name: meta?.ShipName?.trim() || mmsi,
-        lat,
-        lon,
-        cog: pos?.Cog ?? 0,
-        sog: pos?.Sog ?? 0,
-        heading: pos?.TrueHeading ?? pos?.Cog ?? 0,
-        time: Date.now(),
-        shipType: pos?.ShipType,
-      };
-
-      vesselStore.update(vessel);
-      broadcastVessel(vessel);
+      update = decodeAISMessage(JSON.parse(str), Date.now());
     } catch {
-      // Ignore parse errors
+      return;  // Ignore parse errors
+    }
+    if (update?.type === "position") {
+      broadcastVessel(vesselStore.update(update.position));
+    } else if (update?.type === "static") {
+      const vessel = vesselStore.updateStatic(update.mmsi, update.data);
+      if (vessel) broadcastVessel(vessel);
     }
   });
 
@@ -200,7 +481,7 @@ function scheduleReconnect(delay: number) {
   }, delay);
 }
 
-export function getAISStreamStatus(): "connected" | "disconnected" | "disabled" {
+export function getAISStreamStatus(): AISStreamStatus {
   if (!process.env.AISSTREAM_API_KEY) return "disabled";
   if (!aisWs) return "disconnected";
   return aisWs.readyState === WebSocket.OPEN ? "connected" : "disconnected";
@@ -217,15 +498,25 @@ export function handleVesselSSE(req: Request, res: Response) {
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.flushHeaders();
 
-  res.write(`data: ${JSON.stringify({ type: "connected", clientId })}\n\n`);
+  const send = (msg: VesselStreamMessage) => res.write(`data: ${JSON.stringify(msg)}\n\n`);
+  send({ type: "connected", clientId });
+
+  // Optional initial viewport; without a valid one the client gets every ship
+  const lat = Number(req.query.lat);
+  const lon = Number(req.query.lon);
+  const viewport = req.query.lat !== undefined && req.query.lon !== undefined &&
+    Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180
+    ? viewportAt(lat, lon)
+    : null;
 
   // Send current vessel snapshot
-  const vessels = vesselStore.getAll();
+  const vessels = vesselsInView(viewport);
   if (vessels.length > 0) {
-    res.write(`data: ${JSON.stringify({ type: "snapshot", vessels })}\n\n`);
+    send({ type: "snapshot", vessels });
   }
 
-  sseClients.set(clientId, res);
+  sseClients.set(clientId, { res, viewport });
+  scheduleResubscribe();
 
   const heartbeat = setInterval(() => {
     try {
@@ -239,5 +530,6 @@ export function handleVesselSSE(req: Request, res: Response) {
   req.on("close", () => {
     clearInterval(heartbeat);
     sseClients.delete(clientId);
+    scheduleResubscribe();
   });
 }
@@ -0,0 +1,289 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import { classifyVessel, deadReckon, DEAD_RECKONING_MAX_MS, inViewport, viewportAt, type VesselPoint } from "@shared/vessels";
+import type { Request, Response } from "express";
+import { decodeAISMessage, decodeEta, handleVesselSSE, VesselStore, vesselStore } from "./vessel-ws";
+import { capBoxes, parseBoundingBoxes, subscriptionBoxes, toAISBoundingBoxes, WORLD } from "./vessel-viewports";
+import { inBoundingBox } from "./lightning-store";
+import type { TrpcContext } from "./_core/context";
+
+function createCtx(): TrpcContext {
+  return {
+    user: null,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+const T0 = Date.UTC(2026, 6, 1, 12);
+const MIN = 60_000;
+
+const ship = (overrides: Partial<VesselPoint> = {}): VesselPoint => ({
+  mmsi: "244660000", name: "TEST SHIP", lat: 0, lon: 0, cog: 90, sog: 10, heading: 90, time: T0, category: "unknown", ...overrides,
+});
+
+// ─── Store ────────────────────────────────────────────────────────────────────
+
+describe("VesselStore", () => {
+  it("keeps one track point a minute per ship", () => {
+    const store = new VesselStore(() => T0 + 10 * MIN);
+    for (let i = 0; i <= 180; i++) store.update(ship({ lon: i * 0.001, time: T0 + i * 2000 }));  // every 2 s for 6 min
+    const { vessel, track } = store.getTrack("244660000")!;
+    expect(vessel.lon).toBeCloseTo(0.18);
+    expect(track.map(([time]) => (time - T0) / MIN)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+  });
+
+  it("expires ships by the age of their last report", () => {
+    let now = T0;
+    const store = new VesselStore(() => now);
+    store.update(ship({ mmsi: "1" }));
+    now += 20 * MIN;
+    store.update(ship({ mmsi: "2", time: now }));
+    now += 5 * MIN;
+    store.update(ship({ mmsi: "1", time: now }));  // a new report keeps ship 1 alive
+    now += 20 * MIN;
+    expect(store.getAll().map((v) => v.mmsi)).toEqual(["2", "1"]);
+    now += 6 * MIN;
+    expect(store.getCount()).toBe(1);
+    expect(store.getTrack("2")).toBeNull();
+  });
+});
+
+describe("VesselStore static data", () => {
+  it("joins static reports by MMSI whichever arrives first", () => {
+    const store = new VesselStore(() => T0);
+    expect(store.updateStatic("1", { name: "EVER GIVEN", shipType: 71, length: 400 })).toBeNull();
+    expect(store.update(ship({ mmsi: "1", name: "1" }))).toMatchObject({ name: "EVER GIVEN", category: "cargo", length: 400 });
+
+    store.update(ship({ mmsi: "2" }));
+    expect(store.updateStatic("2", { name: "TANKER", shipType: 80 })).toMatchObject({ name: "TANKER", category: "tanker", lat: 0 });
+    // Class B reports come in two parts; the second must not erase the first
+    expect(store.updateStatic("2", { callsign: "PD1234" })).toMatchObject({ name: "TANKER", callsign: "PD1234" });
+    expect(store.getAll().find((v) => v.mmsi === "2")).toMatchObject({ category: "tanker", callsign: "PD1234" });
+  });
+});
+
+describe("deadReckon", () => {
+  it("moves ships along their course and holds after the limit", () => {
+    const v = ship({ lat: 0, lon: 0, cog: 90, sog: 60 });  // 60 kn east ≈ 1.852 km a minute
+    expect(deadReckon(v, T0)).toEqual({ lat: 0, lon: 0 });
+    const later = deadReckon(v, T0 + 10 * MIN);
+    expect(later.lat).toBeCloseTo(0, 6);
+    expect(later.lon).toBeCloseTo(18.52 / 111.195, 3);
+    expect(deadReckon(v, T0 + 2 * DEAD_RECKONING_MAX_MS)).toEqual(deadReckon(v, T0 + DEAD_RECKONING_MAX_MS));
+    expect(deadReckon({ ...v, sog: 0 }, T0 + 10 * MIN)).toEqual({ lat: 0, lon: 0 });
+  });
+
+  it("holds ships whose course or speed is not available", () => {
+    const report = (Cog: number, Sog: number): VesselPoint => {
+      const update = decodeAISMessage({
+        MessageType: "PositionReport",
+        Metadata: { MMSI: 244660000 },
+        Message: { PositionReport: { Latitude: 10, Longitude: 10, Cog, Sog, TrueHeading: 511 } },
+      }, T0);
+      if (update?.type !== "position") throw new Error("expected a position report");
+      return { ...update.position, category: "unknown" };
+    };
+    const reported = { lat: 10, lon: 10 };
+    expect(deadReckon(report(90, 12), T0 + 10 * MIN)).not.toEqual(reported);
+    expect(deadReckon(report(360, 12), T0 + 10 * MIN)).toEqual(reported);
+    expect(deadReckon(report(90, 102.3), T0 + 10 * MIN)).toEqual(reported);
+    expect(deadReckon(ship({ sog: 102.2 }), T0 + 10 * MIN)).toEqual({ lat: 0, lon: 0 });  // "102.2 kn or faster"
+  });
+});
+
+// ─── AIS Decoding ─────────────────────────────────────────────────────────────
+
+describe("AIS decoding", () => {
+  it("maps ship type codes onto categories", () => {
+    expect(classifyVessel(30)).toBe("fishing");
+    expect(classifyVessel(60)).toBe("passenger");
+    expect(classifyVessel(79)).toBe("cargo");
+    expect(classifyVessel(84)).toBe("tanker");
+    expect(classifyVessel(37)).toBe("other");
+    expect(classifyVessel(0)).toBe("unknown");
+    expect(classifyVessel(undefined)).toBe("unknown");
+  });
+
+  it("falls back to the metadata position", () => {
+    const update = decodeAISMessage({
+      MessageType: "PositionReport",
+      Metadata: { MMSI: 244660000, ShipName: "SAILOR", Latitude: 52.1, Longitude: 4.2 },
+      Message: { PositionReport: { Cog: 90, Sog: 5, TrueHeading: 511 } },
+    }, T0);
+    expect(update).toMatchObject({ type: "position", position: { mmsi: "244660000", lat: 52.1, lon: 4.2, heading: 90 } });
+  });
+
+  it("decodes class A static and voyage data", () => {
+    const update = decodeAISMessage({
+      MessageType: "ShipStaticData",
+      Metadata: { MMSI: 353136000, ShipName: "EVER GIVEN" },
+      Message: {
+        ShipStaticData: {
+          UserID: 353136000, Valid: true, Name: "EVER GIVEN@@@@@@", CallSign: "H3RC ", ImoNumber: 9811000, Type: 71,
+          Dimension: { A: 300, B: 100, C: 30, D: 29 }, Destination: "NLRTM@@@", Eta: { Month: 7, Day: 4, Hour: 6, Minute: 30 },
+        },
+      },
+    }, T0);
+    expect(update).toEqual({
+      type: "static",
+      mmsi: "353136000",
+      data: {
+        name: "EVER GIVEN", callsign: "H3RC", imo: 9811000, shipType: 71, length: 400, beam: 59,
+        destination: "NLRTM", eta: Date.UTC(2026, 6, 4, 6, 30),
+      },
+    });
+  });
+
+  it("leaves out unavailable fields and decodes both class B parts", () => {
+    const partA = decodeAISMessage({
+      MessageType: "StaticDataReport",
+      Metadata: { MMSI: 244660000 },
+      Message: { StaticDataReport: { Valid: true, PartNumber: false, ReportA: { Valid: true, Name: "SAILOR@@@" } } },
+    }, T0);
+    expect(partA).toEqual({ type: "static", mmsi: "244660000", data: { name: "SAILOR" } });
+
+    const partB = decodeAISMessage({
+      MessageType: "StaticDataReport",
+      Metadata: { MMSI: 244660000 },
+      Message: {
+        StaticDataReport: {
+          Valid: true, PartNumber: true,
+          ReportB: { Valid: true, ShipType: 36, CallSign: "@@@@@@@", Dimension: { A: 8, B: 4, C: 0, D: 0 } },
+        },
+      },
+    }, T0);
+    expect(partB).toEqual({ type: "static", mmsi: "244660000", data: { shipType: 36, length: 12 } });
+
+    expect(decodeAISMessage({ MessageType: "StaticDataReport", Metadata: { MMSI: 1 }, Message: { StaticDataReport: { Valid: false } } }, T0)).toBeNull();
+  });
+
+  it("picks the ETA year nearest the report", () => {
+    const dec = Date.UTC(2026, 11, 20);
+    expect(decodeEta({ Month: 1, Day: 3, Hour: 12, Minute: 0 }, dec)).toBe(Date.UTC(2027, 0, 3, 12));
+    expect(decodeEta({ Month: 12, Day: 28, Hour: 24, Minute: 60 }, Date.UTC(2027, 0, 2))).toBe(Date.UTC(2026, 11, 28));
+    expect(decodeEta({ Month: 0, Day: 0, Hour: 24, Minute: 60 }, dec)).toBeUndefined();
+  });
+
+  it("decodes position reports", () => {
+    const update = decodeAISMessage({
+      MessageType: "PositionReport",
+      Metadata: { MMSI: 244660000, ShipName: "TEST SHIP   " },
+      Message: { PositionReport: { Latitude: 51.9, Longitude: 4.1, Cog: 360, Sog: 0.1, TrueHeading: 511 } },
+    }, T0);
+    expect(update).toEqual({
+      type: "position",
+      position: { mmsi: "244660000", name: "TEST SHIP", lat: 51.9, lon: 4.1, cog: undefined, sog: 0.1, heading: undefined, time: T0 },
+    });
+  });
+});
+
+// ─── Viewports ────────────────────────────────────────────────────────────────
+
+describe("viewports", () => {
+  it("rounds view centers and wraps longitude", () => {
+    expect(viewportAt(47, -123)).toEqual({ lat: 50, lon: -120 });
+    expect(viewportAt(-3, 536)).toEqual({ lat: 0, lon: -180 });
+    expect(inViewport({ lat: 0, lon: 95 }, { lat: 0, lon: 0 })).toBe(true);  // the limb plus margin
+    expect(inViewport({ lat: 0, lon: 120 }, { lat: 0, lon: 0 })).toBe(false);
+  });
+
+  it("parses configured boxes", () => {
+    expect(parseBoundingBoxes(undefined)).toEqual([WORLD]);
+    expect(parseBoundingBoxes("-10,35,30,60; 170,-50,-170,-30")).toEqual([
+      { west: -10, south: 35, east: 30, north: 60 },
+      { west: 170, south: -50, east: -170, north: -30 },
+    ]);
+    expect(parseBoundingBoxes("1,2,3")).toMatch(/west,south,east,north/);
+    expect(parseBoundingBoxes("0,60,10,50")).toMatch(/out of range/);
+  });
+
+  it("covers every point in view with latitude bands", () => {
+    for (const center of [{ lat: 0, lon: 0 }, { lat: 50, lon: 170 }, { lat: -80, lon: -60 }, { lat: 90, lon: 0 }]) {
+      const boxes = capBoxes(center);
+      for (let lat = -89; lat <= 89; lat += 4) {
+        for (let lon = -178; lon <= 178; lon += 4) {
+          if (!inViewport({ lat, lon }, center)) continue;
+          expect(boxes.some((b) => inBoundingBox({ lat, lon }, b)), `${lat},${lon} from ${center.lat},${center.lon}`).toBe(true);
+        }
+      }
+    }
+    // Only the bands reaching the poles need every longitude
+    const equator = capBoxes({ lat: 0, lon: 0 }).find((b) => b.south <= 0 && b.north >= 0)!;
+    expect(equator.east - equator.west).toBeLessThan(250);
+  });
+
+  it("subscribes to the viewports within the configured boxes", () => {
+    const europe = { west: -10, south: 35, east: 30, north: 60 };
+    // Someone without a viewport, or nobody at all, gets the configured boxes
+    expect(subscriptionBoxes([europe], [])).toEqual([europe]);
+    expect(subscriptionBoxes([europe], [{ lat: 50, lon: 0 }, null])).toEqual([europe]);
+
+    const narrowed = subscriptionBoxes([WORLD], [{ lat: 0, lon: 0 }]);
+    expect(narrowed.length).toBeGreaterThan(1);
+    expect(narrowed.some((b) => inBoundingBox({ lat: 0, lon: 150 }, b))).toBe(false);
+    // A viewport that misses the configured boxes falls back to them
+    expect(subscriptionBoxes([europe], [{ lat: -40, lon: 170 }])).toEqual([europe]);
+
+    expect(toAISBoundingBoxes([{ west: 170, south: -50, east: -170, north: -30 }])).toEqual([
+      [[-50, 170], [-30, 180]],
+      [[-50, -180], [-30, -170]],
+    ]);
+  });
+});
+
+// ─── Router ───────────────────────────────────────────────────────────────────
+
+describe("vessels router", () => {
+  it("reports tracking as disabled without an API key", async () => {
+    vi.stubEnv("AISSTREAM_API_KEY", "");
+    const caller = appRouter.createCaller(createCtx());
+    expect(await caller.vessels.status()).toMatchObject({ status: "disabled" });
+    expect(await caller.vessels.snapshot()).toMatchObject({ available: false, vessels: [] });
+  });
+
+  it("returns stored vessels once a key is configured", async () => {
+    vi.stubEnv("AISSTREAM_API_KEY", "test-key");
+    vesselStore.update({ mmsi: "244660000", name: "TEST SHIP", lat: 51.9, lon: 4.1, cog: 90, sog: 12, heading: 91, time: Date.now() });
+    const caller = appRouter.createCaller(createCtx());
+
+    const snapshot = await caller.vessels.snapshot();
+    expect(snapshot.available).toBe(true);
+    expect(snapshot.vessels).toContainEqual(expect.objectContaining({ mmsi: "244660000", heading: 91 }));
+    expect((await caller.vessels.count()).count).toBeGreaterThan(0);
+    expect(await caller.vessels.track({ mmsi: "244660000" })).toMatchObject({ vessel: { name: "TEST SHIP" }, track: [[expect.any(Number), 51.9, 4.1]] });
+    expect(await caller.vessels.track({ mmsi: "1" })).toEqual({ vessel: null, track: [] });
+    // Not connected: nothing in the test calls connectAISStream
+    expect((await caller.vessels.status()).status).toBe("disconnected");
+    expect(await caller.vessels.setViewport({ clientId: "nobody", lat: 0, lon: 0 })).toMatchObject({ success: false });
+  });
+
+  it("drops a stream client whose connection has closed", async () => {
+    const frames: string[] = [];
+    let closed = false;
+    const res = {
+      setHeader: vi.fn(),
+      flushHeaders: vi.fn(),
+      write: (frame: string) => {
+        if (closed) throw new Error("write after end");
+        frames.push(frame);
+        return true;
+      },
+    } as unknown as Response;
+    const onClose: Array<() => void> = [];
+    const req = { query: {}, on: (_event: string, fn: () => void) => onClose.push(fn) } as unknown as Request;
+    handleVesselSSE(req, res);
+    const { clientId } = JSON.parse(frames[0]!.slice("data: ".length)) as { clientId: string };
+    const caller = appRouter.createCaller(createCtx());
+
+    expect(await caller.vessels.setViewport({ clientId, lat: 10, lon: 20 })).toEqual({ success: true });
+    closed = true;
+    expect(await caller.vessels.setViewport({ clientId, lat: 10, lon: 20 })).toMatchObject({ success: false });
+    expect(await caller.vessels.setViewport({ clientId, lat: 10, lon: 20 })).toMatchObject({ success: false });
+    onClose.forEach((fn) => fn());
+  });
+});
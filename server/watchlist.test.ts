@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+import type { WatchlistEntry } from "../drizzle/schema";
+
+// In-memory stand-in for the watchlist table; `storageUp` toggles the
+// "database not available" path of the real helpers
+const store = vi.hoisted(() => ({ rows: [] as WatchlistEntry[], storageUp: true }));
+
+vi.mock("./db", () => ({
+  getWatchlist: async (userId: number) => store.rows.filter((r) => r.userId === userId),
+  addWatchlistEntry: async (userId: number, noradId: number, label: string | null) => {
+    if (!store.storageUp) return false;
+    const existing = store.rows.find((r) => r.userId === userId && r.noradId === noradId);
+    if (existing) existing.label = label;
+    else store.rows.push({ id: store.rows.length + 1, userId, noradId, label, createdAt: new Date() });
+    return true;
+  },
+  removeWatchlistEntry: async (userId: number, noradId: number) => {
+    if (!store.storageUp) return null;
+    const before = store.rows.length;
+    store.rows = store.rows.filter((r) => !(r.userId === userId && r.noradId === noradId));
+    return before - store.rows.length;
+  },
+}));
+
+const { appRouter } = await import("./routers");
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createCtx(userId?: number): TrpcContext {
+  const user: AuthenticatedUser | null = userId
+    ? {
+        id: userId,
+        openId: `user-${userId}`,
+        email: "sample@example.com",
+        name: "Sample User",
+        loginMethod: "manus",
+        role: "user",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        lastSignedIn: new Date(),
+      }
+    : null;
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as unknown as TrpcContext["res"],
+  };
+}
+
+let savedProvider: string | undefined;
+
+beforeEach(() => {
+  store.rows = [];
+  store.storageUp = true;
+  savedProvider = process.env.SATELLITE_PROVIDER;
+  process.env.SATELLITE_PROVIDER = "fixture";
+});
+
+afterEach(() => {
+  if (savedProvider === undefined) delete process.env.SATELLITE_PROVIDER;
+  else process.env.SATELLITE_PROVIDER = savedProvider;
+});
+
+// ─── Watchlist Router ─────────────────────────────────────────────────────────
+
+describe("watchlist", () => {
+  it("requires a signed-in user", async () => {
+    await expect(appRouter.createCaller(createCtx()).watchlist.list()).rejects.toThrow();
+  });
+
+  it("adds, relabels and removes entries per user", async () => {
+    const alice = appRouter.createCaller(createCtx(1));
+    const bob = appRouter.createCaller(createCtx(2));
+
+    expect(await alice.watchlist.add({ noradId: 25544 })).toEqual({ success: true });
+    expect(await alice.watchlist.add({ noradId: 25544, label: "Station" })).toEqual({ success: true });
+    await bob.watchlist.add({ noradId: 20580 });
+
+    const aliceList = await alice.watchlist.list();
+    expect(aliceList.map((e) => [e.noradId, e.label])).toEqual([[25544, "Station"]]);
+
+    await expect(bob.watchlist.remove({ noradId: 25544 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(await alice.watchlist.remove({ noradId: 25544 })).toEqual({ success: true });
+    expect(await alice.watchlist.list()).toEqual([]);
+    expect((await bob.watchlist.list()).length).toBe(1);
+  });
+
+  it("caps the watchlist size", async () => {
+    const caller = appRouter.createCaller(createCtx(1));
+    for (let id = 1; id <= 12; id++) await caller.watchlist.add({ noradId: id });
+    const result = await caller.watchlist.add({ noradId: 13 });
+    expect(result.success).toBe(false);
+    // Re-adding an existing entry is still allowed
+    expect((await caller.watchlist.add({ noradId: 5, label: "x" })).success).toBe(true);
+  });
+
+  it("reports unavailable storage", async () => {
+    store.storageUp = false;
+    const result = await appRouter.createCaller(createCtx(1)).watchlist.add({ noradId: 25544 });
+    expect(result).toEqual({ success: false, message: "Watchlist storage unavailable" });
+  });
+
+  it("resolves positions through the active provider", async () => {
+    const caller = appRouter.createCaller(createCtx(1));
+    await caller.watchlist.add({ noradId: 25544, label: "Station" });
+    await caller.watchlist.add({ noradId: 1 });  // not in the fixture
+
+    const result = await caller.watchlist.positions();
+    expect(result.available).toBe(true);
+    expect(result.satellites).toHaveLength(1);
+    expect(result.satellites[0]).toMatchObject({ id: 25544, label: "Station", category: "station" });
+    expect(result.missing).toEqual([1]);
+  });
+});
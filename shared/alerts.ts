@@ -0,0 +1,40 @@
+/**
+ * Lightning Alert Zones
+ *
+ * Areas a signed-in user wants to hear about. The server checks every strike
+ * against all zones (see server/lightning-alerts.ts); hits surface as in-app
+ * toasts through `alerts.events` and, optionally, as owner notifications.
+ */
+
+export const MAX_ALERT_ZONES = 10;
+export const MAX_ZONE_RADIUS_KM = 500;
+export const MAX_ZONE_VERTICES = 50;
+
+export type AlertZoneShape =
+  | { kind: "circle"; center: { lat: number; lon: number }; radiusKm: number }
+  | { kind: "polygon"; ring: Array<[number, number]> };  // [lon, lat] vertices, not closed
+
+/** Local time window, in minutes after midnight, during which owner notifications are held back. */
+export interface QuietHours {
+  start: number;
+  end: number;       // may be before `start`, wrapping past midnight
+  timeZone: string;  // IANA name, e.g. "Europe/Berlin"
+}
+
+export interface AlertZone {
+  id: number;
+  name: string;
+  shape: AlertZoneShape;
+  notifyOwner: boolean;
+  quietHours: QuietHours | null;
+}
+
+export interface LightningAlert {
+  id: string;
+  zoneId: number;
+  zoneName: string;
+  time: number;                      // when the alert was raised
+  strike: { lat: number; lon: number; time: number };
+  distanceKm: number | null;         // from a circle zone's center
+  strikeCount: number;               // strikes in the zone since its previous alert
+}
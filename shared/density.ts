@@ -0,0 +1,70 @@
+/**
+ * Lightning Density Grid
+ *
+ * A quasi-equal-area geodesic grid for binning strikes: 1° latitude bands,
+ * each split into as many columns as keep cells roughly 111 × 111 km, so
+ * densities compare fairly between the tropics and high latitudes (a plain
+ * lat/lon grid would shrink cells towards the poles). The server counts strikes
+ * per cell id; the globe turns ids back into polygons.
+ */
+
+export const DENSITY_WINDOWS = {
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+} as const;
+
+export type DensityWindow = keyof typeof DENSITY_WINDOWS;
+
+const BAND_DEG = 1;
+const BANDS = 180 / BAND_DEG;
+
+// Column count per band and the id of each band's first cell
+const bandColumns: number[] = [];
+const bandOffsets: number[] = [];
+let cellCount = 0;
+for (let r = 0; r < BANDS; r++) {
+  const midLat = -90 + (r + 0.5) * BAND_DEG;
+  const cols = Math.max(1, Math.round((360 * Math.cos((midLat * Math.PI) / 180)) / BAND_DEG));
+  bandColumns.push(cols);
+  bandOffsets.push(cellCount);
+  cellCount += cols;
+}
+
+export const DENSITY_CELL_COUNT = cellCount;
+
+/** Grid cell containing a point. */
+export function densityCellId(lat: number, lon: number): number {
+  const r = Math.min(BANDS - 1, Math.max(0, Math.floor((lat + 90) / BAND_DEG)));
+  const cols = bandColumns[r]!;
+  const c = ((Math.floor(((lon + 180) / 360) * cols) % cols) + cols) % cols;
+  return bandOffsets[r]! + c;
+}
+
+export function densityCellBounds(id: number): { south: number; north: number; west: number; east: number } {
+  // Last band whose offset is <= id
+  let lo = 0;
+  let hi = BANDS - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >>> 1;
+    if (bandOffsets[mid]! <= id) lo = mid;
+    else hi = mid - 1;
+  }
+  const width = 360 / bandColumns[lo]!;
+  const west = -180 + (id - bandOffsets[lo]!) * width;
+  const south = -90 + lo * BAND_DEG;
+  return { south, north: south + BAND_DEG, west, east: west + width };
+}
+
+/**
+ * Closed clockwise [lon, lat] ring for a cell. Long edges near the poles are
+ * subdivided so great-circle rendering follows the parallels.
+ */
+export function densityCellRing(id: number): Array<[number, number]> {
+  const { south, north, west, east } = densityCellBounds(id);
+  const steps = Math.max(1, Math.ceil((east - west) / 10));
+  const ring: Array<[number, number]> = [[west, south]];
+  for (let i = 0; i <= steps; i++) ring.push([west + ((east - west) * i) / steps, north]);
+  for (let i = steps; i >= 0; i--) ring.push([west + ((east - west) * i) / steps, south]);
+  return ring;
+}
@@ -0,0 +1,39 @@
+/**
+ * Vessel Hazards
+ *
+ * Ships near active lightning, as flagged by the server's hazard engine (see
+ * server/vessel-hazards.ts): within the hazard radius of a strike from the
+ * last 10 minutes, or of the edge of a live storm cell.
+ */
+
+import type { VesselCategory } from "./vessels";
+
+export const DEFAULT_HAZARD_RADIUS_KM = 20;
+export const MAX_HAZARD_RADIUS_KM = 100;
+
+export interface VesselHazard {
+  mmsi: string;
+  name: string;
+  category: VesselCategory;
+  lat: number;                  // estimated position at the last check
+  lon: number;
+  source: "strikes" | "cell";   // whichever is closer
+  distanceKm: number;           // to the nearest strike, or to the storm cell's edge (0 inside it)
+  strikeCount: number;          // recent strikes within the radius
+  cellId: string | null;        // storm cell within the radius, if any
+  since: number;                // when the ship was first flagged
+  checkedAt: number;
+}
+
+export interface VesselHazardEvent {
+  id: string;
+  kind: "entered" | "cleared";
+  time: number;
+  mmsi: string;
+  name: string;
+  category: VesselCategory;
+  lat: number;
+  lon: number;
+  distanceKm: number | null;    // null for "cleared"
+  source: VesselHazard["source"] | null;
+}
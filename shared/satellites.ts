@@ -0,0 +1,162 @@
+/**
+ * Satellite classification shared by server and client.
+ *
+ * The server assigns a category to every SatelliteRecord; the client uses
+ * the same table for filter toggles, legend labels and marker colors. Owner
+ * rules fill in the operator / country for the detail panel.
+ */
+
+export const SATELLITE_CATEGORIES = [
+  "station",
+  "starlink",
+  "oneweb",
+  "gps",
+  "galileo",
+  "glonass",
+  "iridium",
+  "weather",
+  "debris",
+  "rocket-body",
+  "other",
+] as const;
+
+export type SatelliteCategory = (typeof SATELLITE_CATEGORIES)[number];
+
+export const SATELLITE_CATEGORY_INFO: Record<SatelliteCategory, { label: string; color: string }> = {
+  station: { label: "Space Stations", color: "#FFAB91" },
+  starlink: { label: "Starlink", color: "#B0BEC5" },
+  oneweb: { label: "OneWeb", color: "#80DEEA" },
+  gps: { label: "GPS", color: "#A5D6A7" },
+  galileo: { label: "Galileo", color: "#90CAF9" },
+  glonass: { label: "GLONASS", color: "#EF9A9A" },
+  iridium: { label: "Iridium", color: "#F48FB1" },
+  weather: { label: "Weather", color: "#4DB6AC" },
+  debris: { label: "Debris", color: "#757575" },
+  "rocket-body": { label: "Rocket Bodies", color: "#A1887F" },
+  other: { label: "Other", color: "#CE93D8" },
+};
+
+// N2YO /above category IDs (https://www.n2yo.com/api/#above) that map onto
+// our categories. Category 0 ("all") carries no information.
+export const N2YO_CATEGORY_MAP: Record<number, SatelliteCategory> = {
+  2: "station",   // ISS
+  3: "weather",
+  4: "weather",   // NOAA
+  5: "weather",   // GOES
+  15: "iridium",
+  20: "gps",      // GPS operational
+  50: "gps",      // GPS constellation
+  21: "glonass",  // GLONASS operational
+  51: "glonass",  // GLONASS constellation
+  22: "galileo",
+  52: "starlink",
+  53: "oneweb",
+  54: "station",  // Chinese Space Station
+};
+
+interface CategoryRule {
+  category: SatelliteCategory;
+  noradIds?: number[];
+  pattern?: RegExp;
+}
+
+// Checked before the N2YO category: fragments and spent stages keep their
+// parent's name ("IRIDIUM 33 DEB") and must not inherit its constellation.
+const OVERRIDE_RULES: CategoryRule[] = [
+  { category: "debris", pattern: /\bDEB(RIS)?\b|\bCOOLANT\b/ },
+  { category: "rocket-body", pattern: /\bR\/B\b|\bAKM\b|\bPKM\b/ },
+  // ISS, CSS Tianhe / Wentian / Mengtian
+  { category: "station", noradIds: [25544, 48274, 53239, 54216] },
+];
+
+const NAME_RULES: CategoryRule[] = [
+  { category: "station", pattern: /^ISS\b|\bZARYA\b|\bTIANHE\b|\bTIANGONG\b|\bCSS\b/ },
+  { category: "starlink", pattern: /^STARLINK\b/ },
+  { category: "oneweb", pattern: /^ONEWEB\b/ },
+  { category: "gps", pattern: /^GPS\b|\bNAVSTAR\b/ },
+  { category: "galileo", pattern: /\bGALILEO\b|^GSAT0\d{3}\b/ },
+  { category: "glonass", pattern: /\bGLONASS\b/ },
+  { category: "iridium", pattern: /^IRIDIUM\b/ },
+  {
+    category: "weather",
+    pattern: /^(NOAA|GOES|METOP|METEOSAT|METEOR-M|HIMAWARI|FENGYUN|FY-\d|DMSP|ELEKTRO-L|JPSS|SUOMI NPP|GOMS|INSAT-3D)/,
+  },
+];
+
+function matches(rule: CategoryRule, id: number, name: string): boolean {
+  if (rule.noradIds?.includes(id)) return true;
+  return rule.pattern ? rule.pattern.test(name) : false;
+}
+
+/**
+ * Classify a satellite from its NORAD ID, name and (optionally) the N2YO
+ * category it was fetched under.
+ */
+export function classifySatellite(sat: { id: number; name: string; n2yoCategoryId?: number }): SatelliteCategory {
+  const name = sat.name.toUpperCase();
+  for (const rule of OVERRIDE_RULES) {
+    if (matches(rule, sat.id, name)) return rule.category;
+  }
+  const fromN2yo = sat.n2yoCategoryId ? N2YO_CATEGORY_MAP[sat.n2yoCategoryId] : undefined;
+  if (fromN2yo) return fromN2yo;
+  for (const rule of NAME_RULES) {
+    if (matches(rule, sat.id, name)) return rule.category;
+  }
+  return "other";
+}
+
+// ─── Owner / Country ──────────────────────────────────────────────────────────
+
+// Neither N2YO nor TLEs carry the owner, so it is inferred from well-known
+// names. First match wins; debris and rocket bodies inherit their parent.
+const OWNER_RULES: Array<{ owner: string; noradIds?: number[]; pattern?: RegExp }> = [
+  { owner: "International (ISS partners)", noradIds: [25544], pattern: /^ISS\b|\bZARYA\b/ },
+  { owner: "China", pattern: /\bCSS\b|\bTIANHE\b|\bTIANGONG\b|\bWENTIAN\b|\bMENGTIAN\b|^FENGYUN|^FY-\d|^CZ-|^YAOGAN|^BEIDOU|^SHIJIAN|^QIANFAN/ },
+  { owner: "SpaceX (United States)", pattern: /^STARLINK\b/ },
+  { owner: "OneWeb (United Kingdom)", pattern: /^ONEWEB\b/ },
+  { owner: "Iridium (United States)", pattern: /^IRIDIUM\b/ },
+  { owner: "United States", pattern: /^GPS\b|\bNAVSTAR\b|^NOAA\b|^GOES\b|^HST$|\bHUBBLE\b|^TERRA$|^AQUA$|^LANDSAT|^JPSS|^SUOMI NPP|^DMSP|^TDRS|^ATLAS|^DELTA|^FALCON/ },
+  { owner: "European Union / ESA", pattern: /\bGALILEO\b|^GSAT0\d{3}\b|^SENTINEL|^ARIANE/ },
+  { owner: "EUMETSAT", pattern: /^METOP|^METEOSAT/ },
+  { owner: "Russia", pattern: /\bGLONASS\b|^COSMOS\b|^KOSMOS\b|^METEOR-M|^ELEKTRO|^SL-\d|^RESURS|^PROGRESS|^SOYUZ/ },
+  { owner: "Japan", pattern: /^HIMAWARI|^QZS|^H-2A|^H-IIA/ },
+  { owner: "India", pattern: /^INSAT|^IRNSS|^CARTOSAT|^PSLV/ },
+  { owner: "AMSAT (amateur)", pattern: /^AO-\d+|^FO-\d+|^SO-\d+/ },
+];
+
+/** Best-effort operator or country for display, or null when unknown. */
+export function satelliteOwner(sat: { id: number; name: string }): string | null {
+  const name = sat.name.toUpperCase();
+  for (const rule of OWNER_RULES) {
+    if (rule.noradIds?.includes(sat.id)) return rule.owner;
+    if (rule.pattern?.test(name)) return rule.owner;
+  }
+  return null;
+}
+
+// ─── Stream Messages ──────────────────────────────────────────────────────────
+
+export type SatelliteSource = "n2yo" | "tle" | "fixture";
+
+// Wire format of /api/satellites/stream. A client receives a full snapshot on
+// connect (and whenever the source changes), then deltas against it.
+
+/** The fields the globe needs; detail fields are fetched per satellite. */
+export interface SatelliteSummary {
+  id: number;
+  name: string;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  category: SatelliteCategory;
+  featured?: boolean;
+}
+
+// [id, latitude, longitude, altitude] — positions dominate the traffic
+export type SatelliteMove = [number, number, number, number];
+
+export type SatelliteStreamMessage =
+  | { type: "snapshot"; source: SatelliteSource; timestamp: number; satellites: SatelliteSummary[] }
+  // `added` also carries satellites whose name, category or flags changed
+  | { type: "delta"; timestamp: number; moved: SatelliteMove[]; added: SatelliteSummary[]; removed: number[] }
+  | { type: "unavailable"; source: SatelliteSource; message: string };
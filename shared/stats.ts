@@ -0,0 +1,24 @@
+/**
+ * Lightning Statistics Windows
+ *
+ * Time windows offered by the statistics view, shared so the server's zod
+ * inputs and the client's selectors agree (see server/lightning-stats.ts).
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Strikes-per-minute chart. */
+export const SERIES_WINDOWS = {
+  "1h": HOUR_MS,
+  "6h": 6 * HOUR_MS,
+  "24h": 24 * HOUR_MS,
+} as const;
+
+/** Country and continent breakdown. */
+export const BREAKDOWN_WINDOWS = {
+  "24h": 24 * HOUR_MS,
+  "7d": 7 * 24 * HOUR_MS,
+} as const;
+
+export type SeriesWindow = keyof typeof SERIES_WINDOWS;
+export type BreakdownWindow = keyof typeof BREAKDOWN_WINDOWS;
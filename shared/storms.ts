@@ -0,0 +1,47 @@
+/**
+ * Storm Cells
+ *
+ * Clusters of lightning strikes tracked over time by the server (see
+ * server/storm-cells.ts) and streamed to clients on /api/lightning/stream as
+ * `{ type: "cells" }` messages. Shared so the globe and the fuel engine read
+ * the same shape.
+ */
+
+const EARTH_RADIUS_KM = 6371;
+
+export interface StormCell {
+  id: string;                          // stable while the cell keeps producing strikes
+  centroid: { lat: number; lon: number };
+  polygon: Array<[number, number]>;    // closed [lon, lat] ring, clockwise as d3-geo expects
+  radiusKm: number;                    // centroid to the farthest strike
+  strikeCount: number;                 // strikes in the tracking window
+  ratePerMin: number;                  // strikes per minute over the last 5 minutes
+  velocity: { speedKmh: number; bearingDeg: number } | null;  // null until tracked for a few minutes
+  firstSeen: number;
+  lastStrikeAt: number;
+}
+
+export interface StormCellsMessage {
+  type: "cells";
+  time: number;
+  cells: StormCell[];   // every live cell; replaces the previous list
+  removed: string[];    // cells that ended since the last message
+}
+
+/** Point reached after travelling `distanceKm` along `bearingDeg` on a great circle. */
+export function destinationPoint(
+  from: { lat: number; lon: number },
+  bearingDeg: number,
+  distanceKm: number
+): { lat: number; lon: number } {
+  const δ = distanceKm / EARTH_RADIUS_KM;
+  const θ = (bearingDeg * Math.PI) / 180;
+  const φ1 = (from.lat * Math.PI) / 180;
+  const λ1 = (from.lon * Math.PI) / 180;
+  const φ2 = Math.asin(Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ));
+  const λ2 = λ1 + Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
+  return {
+    lat: (φ2 * 180) / Math.PI,
+    lon: ((((λ2 * 180) / Math.PI + 540) % 360) - 180),
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Vessels
+ *
+ * Ship positions decoded from AISStream position reports by the server (see
+ * server/vessel-ws.ts) and streamed to clients on /api/vessels/stream, joined
+ * by MMSI with the identity and voyage data ships broadcast every few minutes.
+ * Between reports the globe moves ships by dead reckoning.
+ */
+
+import { destinationPoint } from "./storms";
+
+const KM_PER_NAUTICAL_MILE = 1.852;
+
+// Ships are extrapolated for at most this long after their last report
+export const DEAD_RECKONING_MAX_MS = 15 * 60 * 1000;
+// AIS reports 102.2 kn for "102.2 kn or faster", which is no speed to extrapolate at
+const SOG_MAX_KNOTS = 102.2;
+
+export const VESSEL_CATEGORIES = ["cargo", "tanker", "passenger", "fishing", "other", "unknown"] as const;
+
+export type VesselCategory = (typeof VESSEL_CATEGORIES)[number];
+
+export const VESSEL_CATEGORY_INFO: Record<VesselCategory, { label: string; color: string }> = {
+  cargo: { label: "Cargo", color: "#4DD0E1" },
+  tanker: { label: "Tanker", color: "#F06292" },
+  passenger: { label: "Passenger", color: "#9CCC65" },
+  fishing: { label: "Fishing", color: "#7986CB" },
+  other: { label: "Other", color: "#B0BEC5" },
+  unknown: { label: "Type not reported", color: "#78909C" },
+};
+
+/**
+ * Category for an AIS ship type code (ITU-R M.1371 table 53): 30 fishing,
+ * 60–69 passenger, 70–79 cargo, 80–89 tanker. 0 means "not available", and
+ * ships that have not sent their static data yet have no code at all.
+ */
+export function classifyVessel(shipType: number | undefined): VesselCategory {
+  if (!shipType || shipType < 1 || shipType > 99) return "unknown";
+  if (shipType === 30) return "fishing";
+  if (shipType >= 60 && shipType <= 69) return "passenger";
+  if (shipType >= 70 && shipType <= 79) return "cargo";
+  if (shipType >= 80 && shipType <= 89) return "tanker";
+  return "other";
+}
+
+export interface VesselPoint {
+  mmsi: string;
+  name: string;
+  lat: number;
+  lon: number;
+  cog?: number;     // Course over ground (degrees); absent when not available
+  sog?: number;     // Speed over ground (knots); absent when not available
+  heading?: number; // degrees; course over ground when the ship reports no heading, absent when it reports neither
+  time: number;     // ms timestamp
+  category: VesselCategory;
+  // From static and voyage reports; absent until the ship has sent one
+  shipType?: number;
+  callsign?: string;
+  imo?: number;
+  length?: number;       // metres
+  beam?: number;         // metres
+  destination?: string;  // free text as entered by the crew
+  eta?: number;          // ms timestamp
+}
+
+export type AISStreamStatus = "connected" | "disconnected" | "disabled";
+
+export type VesselStreamMessage =
+  | { type: "connected"; clientId: string }
+  | { type: "snapshot"; vessels: VesselPoint[] }   // every stored vessel; replaces the previous list
+  | { type: "vessel"; vessel: VesselPoint };      // one position report
+
+/** One stored report on a vessel's track, oldest first. */
+export type VesselTrackPoint = [time: number, lat: number, lon: number];
+
+/** Whether the ship reports a usable course and a speed to move it along. */
+export function canDeadReckon(vessel: VesselPoint): boolean {
+  return vessel.cog != null && vessel.sog != null && vessel.sog > 0 && vessel.sog < SOG_MAX_KNOTS;
+}
+
+/**
+ * Estimated position at `at`: the last report moved along its course over
+ * ground at its speed over ground. Estimates stop DEAD_RECKONING_MAX_MS after
+ * the report, and ships that are stopped or report no usable course or speed
+ * stay where they were.
+ */
+export function deadReckon(vessel: VesselPoint, at: number): { lat: number; lon: number } {
+  const elapsedMs = Math.min(DEAD_RECKONING_MAX_MS, at - vessel.time);
+  if (elapsedMs <= 0 || !canDeadReckon(vessel)) return { lat: vessel.lat, lon: vessel.lon };
+  const distanceKm = vessel.sog! * KM_PER_NAUTICAL_MILE * (elapsedMs / 3_600_000);
+  return destinationPoint(vessel, vessel.cog!, distanceKm);
+}
+
+// ─── Viewports ────────────────────────────────────────────────────────────────
+
+/**
+ * Center of the hemisphere a client shows. Clients round it to
+ * VIEWPORT_STEP_DEG so that a slowly rotating globe declares a new viewport
+ * only every few degrees.
+ */
+export interface VesselViewport {
+  lat: number;
+  lon: number;
+}
+
+export const VIEWPORT_STEP_DEG = 10;
+// Ships within this angle of the center are in view: the visible hemisphere
+// plus room for the rounding
+export const VIEWPORT_RADIUS_DEG = 100;
+
+export function viewportAt(lat: number, lon: number): VesselViewport {
+  const round = (deg: number) => Math.round(deg / VIEWPORT_STEP_DEG) * VIEWPORT_STEP_DEG || 0;  // no -0
+  const wrapped = ((((round(lon) + 180) % 360) + 360) % 360) - 180;
+  return { lat: Math.max(-90, Math.min(90, round(lat))), lon: wrapped };
+}
+
+export function inViewport(point: { lat: number; lon: number }, viewport: VesselViewport): boolean {
+  const rad = Math.PI / 180;
+  const cosAngle =
+    Math.sin(point.lat * rad) * Math.sin(viewport.lat * rad) +
+    Math.cos(point.lat * rad) * Math.cos(viewport.lat * rad) * Math.cos((point.lon - viewport.lon) * rad);
+  return cosAngle >= Math.cos(VIEWPORT_RADIUS_DEG * rad);
+}